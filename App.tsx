@@ -3,8 +3,10 @@ import React, { Suspense, useState, useEffect } from 'react';
 import { HashRouter, Routes, Route, useLocation } from 'react-router-dom';
 import { AnimatePresence } from 'framer-motion';
 import { UserProvider, useUser } from './context/UserContext';
+import { HouseholdProvider } from './context/HouseholdContext';
 import { InventoryProvider, useInventory } from './context/InventoryContext';
 import { RecipeProvider, useRecipes } from './context/RecipeContext';
+import { MealPlanProvider } from './context/MealPlanContext';
 import { OnboardingProvider } from './context/OnboardingContext';
 import { ThemeProvider } from './context/ThemeContext';
 import { Navigation } from './components/Navigation';
@@ -19,12 +21,15 @@ import { AuthScreen } from './components/AuthScreen';
 import { Loader2 } from 'lucide-react';
 import { Toaster } from 'react-hot-toast';
 import { supabase } from './services/supabase';
+import { localStore } from './services/localStore';
+import { syncQueue } from './services/syncQueue';
 import { Session } from '@supabase/supabase-js';
 import { UI } from './brand';
 
 // Lazy Load heavy routes
 const PantryView = React.lazy(() => import('./components/PantryView').then(module => ({ default: module.PantryView })));
 const RecipeGenerator = React.lazy(() => import('./components/RecipeGenerator').then(module => ({ default: module.RecipeGenerator })));
+const MealPlanner = React.lazy(() => import('./components/MealPlanner').then(module => ({ default: module.MealPlanner })));
 const ShoppingList = React.lazy(() => import('./components/ShoppingList').then(module => ({ default: module.ShoppingList })));
 const Settings = React.lazy(() => import('./components/Settings').then(module => ({ default: module.Settings })));
 
@@ -48,6 +53,7 @@ const AnimatedRoutes: React.FC = () => {
         <Route path="/" element={<PageTransition><Dashboard /></PageTransition>} />
         <Route path="/pantry" element={<Suspense fallback={<PageLoader />}><PageTransition><PantryView /></PageTransition></Suspense>} />
         <Route path="/recipes" element={<Suspense fallback={<PageLoader />}><PageTransition><RecipeGenerator /></PageTransition></Suspense>} />
+        <Route path="/plan" element={<Suspense fallback={<PageLoader />}><PageTransition><MealPlanner /></PageTransition></Suspense>} />
         <Route path="/shopping" element={<Suspense fallback={<PageLoader />}><PageTransition><ShoppingList /></PageTransition></Suspense>} />
         <Route path="/settings" element={<Suspense fallback={<PageLoader />}><PageTransition><Settings /></PageTransition></Suspense>} />
       </Routes>
@@ -148,6 +154,10 @@ const App: React.FC = () => {
       if (isMounted) {
         setSession(newSession);
       }
+      // Drop this account's offline copy and unsynced edits
+      if (event === 'SIGNED_OUT') {
+        syncQueue.clear().then(() => localStore.clear());
+      }
     });
 
     // Deep link handler for OAuth callbacks (native apps only)
@@ -223,15 +233,19 @@ const App: React.FC = () => {
       ) : (
         <ErrorBoundary>
           <UserProvider>
-            <InventoryProvider>
-              <RecipeProvider>
-                <OnboardingProvider>
-                  <HashRouter>
-                    <AppContent />
-                  </HashRouter>
-                </OnboardingProvider>
-              </RecipeProvider>
-            </InventoryProvider>
+            <HouseholdProvider>
+              <InventoryProvider>
+                <RecipeProvider>
+                  <MealPlanProvider>
+                    <OnboardingProvider>
+                      <HashRouter>
+                        <AppContent />
+                      </HashRouter>
+                    </OnboardingProvider>
+                  </MealPlanProvider>
+                </RecipeProvider>
+              </InventoryProvider>
+            </HouseholdProvider>
           </UserProvider>
         </ErrorBoundary>
       )}
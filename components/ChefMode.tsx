@@ -1,8 +1,9 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Recipe } from '../types';
 import { X, Volume2, Sparkles, Loader2, Check, ChevronRight, ChevronLeft } from 'lucide-react';
 import { askAiAboutStep } from '../services/geminiService';
+import { isAbortError } from '../services/api';
 import { motion, AnimatePresence } from 'framer-motion';
 import { getOptimizedImageUrl } from '../services/supabase';
 import { hapticSuccess } from '../utils/hapticService';
@@ -41,6 +42,10 @@ export const ChefMode: React.FC<Props> = ({ recipe, onClose, onFinish, origin })
   const [loadingTip, setLoadingTip] = useState(false);
   const [direction, setDirection] = useState(0); // -1 for left, 1 for right
   const [hasAskedCurrentStep, setHasAskedCurrentStep] = useState(false);
+  // Tip request for the current step; cancelled when the step changes or chef mode closes
+  const tipAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => tipAbortRef.current?.abort(), []);
 
   // Ensure activeStep is within bounds
   const safeActiveStep = Math.max(0, Math.min(activeStep, recipe.instructions.length - 1));
@@ -56,6 +61,7 @@ export const ChefMode: React.FC<Props> = ({ recipe, onClose, onFinish, origin })
 
   // Check if current step has been asked when step changes
   useEffect(() => {
+    tipAbortRef.current?.abort();
     // Safely cancel speech synthesis (not available on all platforms)
     if (typeof window !== 'undefined' && window.speechSynthesis) {
       try {
@@ -95,17 +101,21 @@ export const ChefMode: React.FC<Props> = ({ recipe, onClose, onFinish, origin })
     if (loadingTip || hasAskedCurrentStep || !recipe.title || !currentInstruction) return; // Prevent if already asked or invalid
     
     setLoadingTip(true);
+    const controller = new AbortController();
+    tipAbortRef.current = controller;
     try {
-      const tip = await askAiAboutStep(recipe.title, currentInstruction);
+      const tip = await askAiAboutStep(recipe.title, currentInstruction, undefined, controller.signal);
       setAiTip(tip);
       setHasAskedCurrentStep(true);
       
       // Mark this step as asked (only once per card)
       await askStepCache.markAsAsked(recipe.title, safeActiveStep);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error getting AI tip:', error);
       setAiTip("Chef is disconnected. Please try again.");
     } finally {
+      if (tipAbortRef.current === controller) tipAbortRef.current = null;
       setLoadingTip(false);
     }
   };
@@ -3,6 +3,7 @@ import React, { useMemo, useState, useEffect, useCallback, useRef } from 'react'
 import { Link, useNavigate } from 'react-router-dom';
 import { useInventory } from '../context/InventoryContext';
 import { useRecipes } from '../context/RecipeContext';
+import { useMealPlan } from '../context/MealPlanContext';
 import { 
   Coffee, Sun, Moon, X,
   Check, History, ChefHat, Plus, RefreshCw,
@@ -13,6 +14,7 @@ import {
 import { formatDistanceToNow, isThisWeek, startOfWeek, format } from 'date-fns';
 import { AdUnit } from './AdUnit';
 import { isLowStock } from '../services/quantityService';
+import { findBestMatch } from '../services/ingredientMatching';
 import { getOptimizedImageUrl, supabase } from '../services/supabase';
 import toast from 'react-hot-toast';
 import { motion } from 'framer-motion';
@@ -274,7 +276,8 @@ const PantryStatsGrid: React.FC<{ stats: { emoji: string; count: number; label:
 
 export const Dashboard: React.FC = () => {
   const { pantry, shoppingList, recentEmptyItems, addToShoppingList, removePantryItem, updatePantryItem, isLoading: inventoryLoading } = useInventory();
-  const { history, bookmarkedRecipes, isLoading: recipesLoading } = useRecipes();
+  const { history, isLoading: recipesLoading } = useRecipes();
+  const { tonight } = useMealPlan();
   const navigate = useNavigate();
   const [showExpiring, setShowExpiring] = useState(false);
   const [showLowStock, setShowLowStock] = useState(false);
@@ -363,38 +366,16 @@ export const Dashboard: React.FC = () => {
     };
   }, [history]);
 
-  // Quick Meal Suggestion - saved recipe with highest pantry match
-  const quickMealSuggestion = useMemo(() => {
-    if (bookmarkedRecipes.length === 0 || pantry.length === 0) return null;
-    
-    const pantryNames = pantry.map(p => p.name.toLowerCase());
-    
-    const withMatch = bookmarkedRecipes.map(recipe => {
-      if (!recipe.ingredients || recipe.ingredients.length === 0) {
-        return { ...recipe, matchCount: 0, totalCount: 1, matchPercent: 0 };
-      }
-      
-      const matchCount = recipe.ingredients.filter(ing => 
-        pantryNames.some(pName => 
-          pName.includes(ing.name.toLowerCase()) || ing.name.toLowerCase().includes(pName)
-        )
-      ).length;
-      
-      return {
-        ...recipe,
-        matchCount,
-        totalCount: recipe.ingredients.length,
-        matchPercent: Math.round((matchCount / recipe.ingredients.length) * 100)
-      };
-    });
-    
-    // Only suggest if at least 60% match
-    const goodMatches = withMatch.filter(r => r.matchPercent >= 60);
-    if (goodMatches.length === 0) return null;
-    
-    // Return the best match
-    return goodMatches.sort((a, b) => b.matchPercent - a.matchPercent)[0];
-  }, [bookmarkedRecipes, pantry]);
+  // Tonight's planned dinner, with how much of it the pantry already covers
+  const tonightsMeal = useMemo(() => {
+    if (!tonight) return null;
+    const ingredients = tonight.recipe.ingredients || [];
+    return {
+      ...tonight.recipe,
+      matchCount: ingredients.filter(ing => findBestMatch(ing.name, pantry) !== null).length,
+      totalCount: ingredients.length
+    };
+  }, [tonight, pantry]);
 
   // Today's cooking tip - rotates daily
   const todaysTip = useMemo(() => {
@@ -632,18 +613,21 @@ const QuickAction: React.FC<{ icon: React.ReactNode; label: string; onClick: ()
             
             <div className="px-5"><AdUnit type="banner" /></div>
             
-            {/* SECTION: Quick Meal Idea */}
-            {quickMealSuggestion && (
-              <div className="px-5">
-                <h2 className="text-caption font-semibold text-brand-text-secondary uppercase tracking-wider mb-3">Quick Meal Idea</h2>
+            {/* SECTION: Tonight */}
+            <div className="px-5">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-caption font-semibold text-brand-text-secondary uppercase tracking-wider">Tonight</h2>
+                <button onClick={() => navigate('/plan')} className="text-brand-primary text-caption font-medium">Plan week</button>
+              </div>
+              {tonightsMeal ? (
                 <button 
-                  onClick={() => navigate('/recipes', { state: { recipeToOpen: quickMealSuggestion, fromDashboard: true } })}
+                  onClick={() => navigate('/recipes', { state: { recipeToOpen: tonightsMeal, fromDashboard: true } })}
                   className="w-full h-[180px] rounded-2xl overflow-hidden relative group focus:outline-none shadow-lg active:scale-[0.98] transition-all"
                 >
                   {/* Food image */}
                   <img 
-                    src={getOptimizedImageUrl(quickMealSuggestion.generatedImage, 600) || `https://picsum.photos/seed/${quickMealSuggestion.id}/600/400`}
-                    alt={quickMealSuggestion.title}
+                    src={getOptimizedImageUrl(tonightsMeal.generatedImage, 600) || `https://picsum.photos/seed/${tonightsMeal.id}/600/400`}
+                    alt={tonightsMeal.title}
                     className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"
                   />
                   {/* Gradient overlay */}
@@ -655,20 +639,22 @@ const QuickAction: React.FC<{ icon: React.ReactNode; label: string; onClick: ()
                     <div className="absolute top-3 right-3 flex items-center gap-1 bg-black/50 backdrop-blur-md px-2 py-1 rounded-full">
                       <Clock size={12} className="text-white/80" />
                       <span className="text-white text-caption font-semibold">
-                        {quickMealSuggestion.totalTimeMinutes || 30} min
+                        {tonightsMeal.totalTimeMinutes || 30} min
                       </span>
                     </div>
                     
                     {/* Ingredient match badge */}
-                    <div className="absolute top-3 left-3 flex items-center gap-1 bg-brand-accent/90 backdrop-blur-md px-2 py-1 rounded-full">
-                      <span className="text-white text-caption font-semibold">
-                        ✓ {quickMealSuggestion.matchCount}/{quickMealSuggestion.totalCount} ingredients
-                      </span>
-                    </div>
+                    {tonightsMeal.totalCount > 0 && (
+                      <div className="absolute top-3 left-3 flex items-center gap-1 bg-brand-accent/90 backdrop-blur-md px-2 py-1 rounded-full">
+                        <span className="text-white text-caption font-semibold">
+                          ✓ {tonightsMeal.matchCount}/{tonightsMeal.totalCount} in pantry
+                        </span>
+                      </div>
+                    )}
                     
                     {/* Recipe title */}
                     <h3 className="text-h3 text-white mb-1 drop-shadow-lg line-clamp-2 text-left">
-                      {quickMealSuggestion.title}
+                      {tonightsMeal.title}
                     </h3>
                     
                     {/* CTA */}
@@ -678,8 +664,22 @@ const QuickAction: React.FC<{ icon: React.ReactNode; label: string; onClick: ()
                     </div>
                   </div>
                 </button>
-              </div>
-            )}
+              ) : (
+                <button
+                  onClick={() => navigate('/plan')}
+                  className="w-full bg-brand-surface rounded-2xl p-4 border border-dashed border-brand-divider flex items-center gap-3 text-left active:scale-[0.98] transition"
+                >
+                  <div className="w-10 h-10 rounded-full bg-brand-surface-secondary flex items-center justify-center shrink-0">
+                    <Moon size={20} className="text-brand-text-secondary" />
+                  </div>
+                  <div className="flex-1">
+                    <div className="text-body font-semibold text-brand-text">Nothing planned for dinner</div>
+                    <div className="text-caption text-brand-text-secondary">Pick tonight's recipe in your meal plan</div>
+                  </div>
+                  <ChevronRight size={18} className="text-brand-text-tertiary" />
+                </button>
+              )}
+            </div>
             
             {/* SECTION: Today's Tip */}
             <div className="px-5">
@@ -0,0 +1,300 @@
+
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { X, Users, Mail, Copy, Crown, LogOut, KeyRound, Loader2, Check, Home } from 'lucide-react';
+import { supabase } from '../services/supabase';
+import { useHousehold } from '../context/HouseholdContext';
+import toast from 'react-hot-toast';
+
+/**
+ * 🎨 HOUSEHOLD MODAL COLOR REFERENCE (Dark Mode)
+ * ===============================================
+ * Surface:        #1A1A1A (modal background)
+ * Surface Alt:    #2A2A2A (inputs, cards)
+ * Brand Yellow:   #FFC244 (owner badge, invite code)
+ * Button Purple:  #7C3AED (primary buttons)
+ * Error Red:      #E84142 (leave household)
+ */
+
+const MotionDiv = motion.div as any;
+
+interface Props { onClose: () => void; }
+
+export const HouseholdModal: React.FC<Props> = ({ onClose }) => {
+  const { household, pendingInvites, role, inviteByEmail, joinByCode, acceptInvite, leaveHousehold, rename, transferOwnership } = useHousehold();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [joinCode, setJoinCode] = useState('');
+  const [name, setName] = useState(household?.name || '');
+  const [isBusy, setIsBusy] = useState(false);
+  const [confirmLeave, setConfirmLeave] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => setUserId(session?.user?.id || null));
+  }, []);
+
+  // Keep the field in step with the saved name (after a save or a rename elsewhere)
+  useEffect(() => {
+    setName(household?.name || '');
+  }, [household?.name]);
+
+  const isOwner = role === 'owner';
+  const memberCount = household?.members.length || 0;
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try { await action(); }
+    finally { setIsBusy(false); }
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = inviteEmail.trim();
+    if (!email.includes('@')) { toast.error("Enter a valid email"); return; }
+    run(async () => { await inviteByEmail(email); setInviteEmail(''); });
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === household?.name) return;
+    run(() => rename(trimmed));
+  };
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!joinCode.trim()) return;
+    run(async () => { await joinByCode(joinCode); setJoinCode(''); });
+  };
+
+  const copyInviteCode = async () => {
+    if (!household) return;
+    try {
+      await navigator.clipboard.writeText(household.inviteCode);
+      toast.success("Invite code copied");
+    } catch (e) {
+      toast.error("Couldn't copy code");
+    }
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <MotionDiv
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100]"
+      />
+
+      {/* Modal */}
+      <MotionDiv
+        initial={{ y: "100%" }}
+        animate={{ y: 0 }}
+        exit={{ y: "100%" }}
+        transition={{ type: "spring", damping: 25, stiffness: 200 }}
+        className="fixed bottom-0 left-0 right-0 z-[110] bg-brand-background rounded-t-[32px] overflow-hidden shadow-2xl h-[85vh] flex flex-col"
+      >
+        {/* Header */}
+        <div className="bg-brand-surface border-b border-brand-divider px-5 py-4 flex justify-between items-center">
+          <h2 className="text-h2 font-bold text-brand-text">Household</h2>
+          <button
+            onClick={onClose}
+            className="w-9 h-9 bg-brand-surface-secondary rounded-full flex items-center justify-center text-brand-text-secondary hover:text-brand-text hover:bg-brand-divider transition"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 pb-20 space-y-5">
+          {/* Pending invites for me */}
+          {pendingInvites.map(invite => (
+            <div key={invite.id} className="bg-brand-button-primary/10 p-4 rounded-2xl border border-brand-button-primary/20 flex items-center gap-3">
+              <Mail size={20} className="text-brand-button-primary shrink-0" />
+              <div className="flex-1">
+                <h4 className="font-bold text-brand-text text-body">You're invited to a household</h4>
+                <p className="text-brand-text-secondary text-caption mt-0.5">If you're the only one in your household, your pantry and shopping list are merged into theirs.</p>
+              </div>
+              <button
+                onClick={() => run(() => acceptInvite(invite.id))}
+                disabled={isBusy}
+                className="px-4 py-2 rounded-2xl text-caption font-bold bg-brand-button-primary text-white active:scale-95 transition disabled:opacity-50"
+              >
+                Join
+              </button>
+            </div>
+          ))}
+
+          {/* Household name (owner can rename) */}
+          {household && (isOwner ? (
+            <form onSubmit={handleRename}>
+              <label className="block text-caption font-bold text-brand-text-secondary uppercase mb-2 ml-1 tracking-wider">Name</label>
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Home size={18} className="absolute left-4 top-1/2 -translate-y-1/2 text-brand-text-tertiary" />
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    maxLength={60}
+                    className="w-full bg-brand-surface p-4 pl-12 rounded-2xl text-body text-brand-text outline-none focus:ring-2 focus:ring-brand-primary/30 border border-brand-divider transition placeholder-brand-text-tertiary"
+                    placeholder="Our kitchen"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={isBusy || !name.trim() || name.trim() === household.name}
+                  className="px-5 bg-brand-button-primary text-white font-bold rounded-2xl active:scale-[0.98] transition disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </div>
+            </form>
+          ) : (
+            <h3 className="text-h3 font-bold text-brand-text ml-1">{household.name}</h3>
+          ))}
+
+          {/* Members */}
+          <div>
+            <label className="block text-caption font-bold text-brand-text-secondary uppercase mb-2 ml-1 tracking-wider">
+              Members ({memberCount})
+            </label>
+            <div className="bg-brand-surface rounded-2xl border border-brand-divider divide-y divide-brand-divider">
+              {household?.members.map(member => (
+                <div key={member.userId} className="p-4 flex items-center gap-3">
+                  <div className="w-9 h-9 bg-brand-primary rounded-xl flex items-center justify-center text-black font-bold">
+                    {(member.email || '?').charAt(0).toUpperCase()}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-bold text-brand-text text-body truncate">
+                      {member.email || 'Member'} {member.userId === userId && <span className="text-brand-text-tertiary font-normal">(you)</span>}
+                    </div>
+                    <div className="text-caption text-brand-text-secondary capitalize">{member.role}</div>
+                  </div>
+                  {member.role === 'owner' ? (
+                    <Crown size={16} className="text-brand-primary" />
+                  ) : isOwner && (
+                    <button
+                      onClick={() => run(() => transferOwnership(member.userId))}
+                      disabled={isBusy}
+                      className="text-caption font-bold text-brand-button-primary px-3 py-1.5 rounded-full bg-brand-button-primary/10 active:scale-95 transition disabled:opacity-50"
+                    >
+                      Make owner
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Invite code */}
+          {household && (
+            <div className="bg-brand-surface rounded-2xl border border-brand-divider p-4 flex items-center justify-between">
+              <div>
+                <div className="text-caption text-brand-text-secondary mb-1">Invite code</div>
+                <div className="text-h2 font-bold tracking-[0.15em] text-brand-primary font-mono">{household.inviteCode}</div>
+              </div>
+              <button
+                onClick={copyInviteCode}
+                className="w-10 h-10 bg-brand-surface-secondary rounded-full flex items-center justify-center text-brand-text-secondary hover:text-brand-text transition"
+              >
+                <Copy size={18} />
+              </button>
+            </div>
+          )}
+
+          {/* Invite by email (owner only) */}
+          {isOwner && (
+            <form onSubmit={handleInvite}>
+              <label className="block text-caption font-bold text-brand-text-secondary uppercase mb-2 ml-1 tracking-wider">Invite by Email</label>
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Mail size={18} className="absolute left-4 top-1/2 -translate-y-1/2 text-brand-text-tertiary" />
+                  <input
+                    type="email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    className="w-full bg-brand-surface p-4 pl-12 rounded-2xl text-body text-brand-text outline-none focus:ring-2 focus:ring-brand-primary/30 border border-brand-divider transition placeholder-brand-text-tertiary"
+                    placeholder="partner@email.com"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={isBusy || !inviteEmail}
+                  className="px-5 bg-brand-button-primary text-white font-bold rounded-2xl active:scale-[0.98] transition disabled:opacity-50"
+                >
+                  {isBusy ? <Loader2 className="animate-spin" size={18} /> : 'Invite'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {/* Join another household */}
+          <form onSubmit={handleJoin}>
+            <label className="block text-caption font-bold text-brand-text-secondary uppercase mb-2 ml-1 tracking-wider">Join a Household</label>
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <KeyRound size={18} className="absolute left-4 top-1/2 -translate-y-1/2 text-brand-text-tertiary" />
+                <input
+                  type="text"
+                  value={joinCode}
+                  onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                  maxLength={10}
+                  className="w-full bg-brand-surface p-4 pl-12 rounded-2xl text-body text-brand-text font-mono tracking-widest outline-none focus:ring-2 focus:ring-brand-primary/30 border border-brand-divider transition placeholder-brand-text-tertiary"
+                  placeholder="ABCD2345EF"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isBusy || joinCode.length < 6}
+                className="px-5 bg-brand-button-primary text-white font-bold rounded-2xl active:scale-[0.98] transition disabled:opacity-50"
+              >
+                Join
+              </button>
+            </div>
+          </form>
+
+          {/* Leave household */}
+          {memberCount > 1 && (
+            <div className="bg-brand-secondary/10 p-4 rounded-2xl border border-brand-secondary/20">
+              <div className="flex gap-3 mb-3">
+                <Users size={20} className="text-brand-secondary shrink-0" />
+                <p className="text-brand-text-secondary text-caption leading-relaxed">
+                  {isOwner
+                    ? "Make someone else the owner before you leave."
+                    : "Leaving gives you a fresh, empty pantry. Your recipes stay with you."}
+                </p>
+              </div>
+              {confirmLeave ? (
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => setConfirmLeave(false)}
+                    className="flex-1 bg-brand-surface-secondary text-brand-text font-bold py-3 rounded-2xl border border-brand-divider transition"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => run(async () => { await leaveHousehold(); setConfirmLeave(false); })}
+                    disabled={isBusy}
+                    className="flex-1 bg-brand-secondary text-white font-bold py-3 rounded-2xl active:scale-[0.98] transition disabled:opacity-50 flex items-center justify-center gap-2"
+                  >
+                    {isBusy ? <Loader2 className="animate-spin" size={18} /> : <><Check size={16} /> Confirm</>}
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setConfirmLeave(true)}
+                  disabled={isOwner}
+                  className="w-full bg-brand-surface text-brand-secondary font-bold py-3 rounded-2xl border border-brand-secondary/30 active:scale-[0.98] transition disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                  <LogOut size={16} /> Leave Household
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </MotionDiv>
+    </>
+  );
+};
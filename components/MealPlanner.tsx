@@ -0,0 +1,403 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { addDays, addWeeks, format, isToday, parseISO, startOfWeek } from 'date-fns';
+import { ChevronLeft, ChevronRight, Plus, X, Clock, Coffee, Sun, Moon, ChefHat, Sparkles, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useMealPlan, toPlanDate } from '../context/MealPlanContext';
+import { useRecipes } from '../context/RecipeContext';
+import { useInventory } from '../context/InventoryContext';
+import { useUser } from '../context/UserContext';
+import { generateMealPlan } from '../services/geminiService';
+import { isAbortError } from '../services/api';
+import { getOptimizedImageUrl } from '../services/supabase';
+import { MealSlot, MEAL_SLOTS, Recipe } from '../types';
+import { hapticSuccess } from '../utils/hapticService';
+
+/**
+ * 🎨 MEAL PLANNER COLOR REFERENCE (Dark Mode)
+ * ============================================
+ * Background:     #0D0D0D (near black - page bg)
+ * Surface:        #1A1A1A (day cards, picker sheet)
+ * Surface Alt:    #2A2A2A (empty slots, tabs)
+ *
+ * Text Primary:   #FFFFFF (white)
+ * Text Secondary: #A0A0A0 (muted - dates, meal labels)
+ *
+ * Brand Yellow:   #FFC244 (header bg, today highlight)
+ * Error Red:      #F87171 (remove meal)
+ *
+ * Divider:        #333333
+ */
+
+const MotionDiv = motion.div as any;
+
+const SLOT_META: Record<MealSlot, { label: string; icon: React.ReactNode }> = {
+  breakfast: { label: 'Breakfast', icon: <Coffee size={14} /> },
+  lunch: { label: 'Lunch', icon: <Sun size={14} /> },
+  dinner: { label: 'Dinner', icon: <Moon size={14} /> },
+};
+
+type PickerSource = 'saved' | 'history' | 'generated';
+
+const PLAN_LENGTHS = [3, 5, 7];
+
+const PICKER_TABS: { id: PickerSource; label: string }[] = [
+  { id: 'saved', label: 'Saved' },
+  { id: 'history', label: 'History' },
+  { id: 'generated', label: 'Just generated' },
+];
+
+export const MealPlanner: React.FC = () => {
+  const navigate = useNavigate();
+  const { getMeal, assignMeal, removeMeal, earliestDate } = useMealPlan();
+  const { bookmarkedRecipes, history, generatedRecipes } = useRecipes();
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [picking, setPicking] = useState<{ date: string; slot: MealSlot } | null>(null);
+  const [source, setSource] = useState<PickerSource>('saved');
+  const { pantry } = useInventory();
+  const { preferences } = useUser();
+  const [showAutoPlan, setShowAutoPlan] = useState(false);
+  const [planDays, setPlanDays] = useState(7);
+  const [planMeals, setPlanMeals] = useState<MealSlot[]>(['dinner']);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const planAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => planAbortRef.current?.abort(), []);
+
+  const weekStart = useMemo(() => addWeeks(startOfWeek(new Date(), { weekStartsOn: 1 }), weekOffset), [weekOffset]);
+  const days = useMemo(() => Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)), [weekStart]);
+  const canGoBack = toPlanDate(addWeeks(weekStart, -1)) >= earliestDate;
+
+  const pickerRecipes: Record<PickerSource, Recipe[]> = {
+    saved: bookmarkedRecipes,
+    history,
+    generated: generatedRecipes,
+  };
+
+  const openPicker = (date: string, slot: MealSlot) => {
+    // Start on whichever list has something in it
+    setSource(bookmarkedRecipes.length > 0 ? 'saved' : generatedRecipes.length > 0 ? 'generated' : 'history');
+    setPicking({ date, slot });
+  };
+
+  // The plan starts today for this week, on Monday for later weeks
+  const planStart = weekOffset > 0 ? weekStart : new Date();
+
+  // Auto-plan only fills empty slots, so meals the user picked are never replaced
+  const openSlotCount = Array.from({ length: planDays }, (_, i) => toPlanDate(addDays(planStart, i)))
+    .reduce((count, date) => count + planMeals.filter(slot => !getMeal(date, slot)).length, 0);
+
+  const toggleMeal = (slot: MealSlot) => {
+    setPlanMeals(prev => prev.includes(slot)
+      ? prev.filter(s => s !== slot)
+      : MEAL_SLOTS.filter(s => s === slot || prev.includes(s)));
+  };
+
+  const handleAutoPlan = async () => {
+    if (openSlotCount === 0) return;
+    if (pantry.length === 0) {
+      toast.error("Add some food to your pantry first!");
+      return;
+    }
+    planAbortRef.current?.abort();
+    const controller = new AbortController();
+    planAbortRef.current = controller;
+    setIsPlanning(true);
+
+    try {
+      const entries = await generateMealPlan(pantry, preferences, { days: planDays, meals: planMeals, start: planStart }, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      const planned = entries
+        .map(entry => ({ ...entry, date: toPlanDate(addDays(planStart, entry.day - 1)) }))
+        .filter(entry => !getMeal(entry.date, entry.slot));
+      planned.forEach(entry => assignMeal(entry.date, entry.slot, entry.recipe));
+      hapticSuccess();
+      toast.success(`Planned ${planned.length} meal${planned.length === 1 ? '' : 's'}`);
+      setShowAutoPlan(false);
+    } catch (err: any) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      if (err.code === 'DAILY_QUOTA_EXCEEDED') {
+        toast.error(preferences.isPro
+          ? "That's all the cooking for today. Back at it tomorrow!"
+          : "That's all your free generations for today. Upgrade to Pro for more!");
+      } else {
+        toast.error(err.message || "Chef's brain freeze. Try again?");
+      }
+    } finally {
+      if (planAbortRef.current === controller) {
+        planAbortRef.current = null;
+        setIsPlanning(false);
+      }
+    }
+  };
+
+  const handlePick = (recipe: Recipe) => {
+    if (!picking) return;
+    assignMeal(picking.date, picking.slot, recipe);
+    hapticSuccess();
+    setPicking(null);
+  };
+
+  return (
+    /* Page container - #0D0D0D near black background */
+    <div className="min-h-screen bg-brand-background pb-28">
+
+      {/* ========== YELLOW HEADER ========== */}
+      <div className="relative bg-brand-primary pt-safe overflow-hidden">
+        <div className="relative z-10 px-5 pt-8 pb-6">
+          <div className="flex items-start justify-between">
+            <div>
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-3xl">📅</span>
+                <h1 className="text-h1 font-bold text-black tracking-tight">The Plan</h1>
+              </div>
+              <p className="text-black/70 text-body font-medium">What's cooking this week</p>
+            </div>
+            {/* Auto-plan button - black bg on yellow header */}
+            <button
+              onClick={() => setShowAutoPlan(true)}
+              className="flex items-center gap-1.5 px-3 py-2 bg-black text-white rounded-full text-caption font-semibold active:scale-95 transition"
+            >
+              <Sparkles size={14} /> Auto-plan
+            </button>
+          </div>
+
+          {/* Week switcher */}
+          <div className="flex items-center justify-between mt-4 bg-black/10 rounded-full p-1">
+            <button
+              onClick={() => setWeekOffset(w => w - 1)}
+              disabled={!canGoBack}
+              aria-label="Previous week"
+              className="w-9 h-9 rounded-full flex items-center justify-center text-black active:bg-black/10 disabled:opacity-30 transition"
+            >
+              <ChevronLeft size={20} />
+            </button>
+            <button onClick={() => setWeekOffset(0)} className="text-black font-semibold text-body">
+              {weekOffset === 0 ? 'This week' : `Week of ${format(weekStart, 'MMM d')}`}
+            </button>
+            <button
+              onClick={() => setWeekOffset(w => w + 1)}
+              aria-label="Next week"
+              className="w-9 h-9 rounded-full flex items-center justify-center text-black active:bg-black/10 transition"
+            >
+              <ChevronRight size={20} />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* ========== DAYS ========== */}
+      <div className="px-5 pt-5 space-y-4">
+        {days.map(day => {
+          const date = toPlanDate(day);
+          const today = isToday(day);
+          return (
+            <div key={date} className={`bg-brand-surface rounded-2xl border p-4 ${today ? 'border-brand-primary' : 'border-brand-divider'}`}>
+              <div className="flex items-baseline justify-between mb-3">
+                <h2 className="text-h3 text-brand-text">{format(day, 'EEEE')}</h2>
+                <span className={`text-caption font-semibold ${today ? 'text-brand-primary' : 'text-brand-text-secondary'}`}>
+                  {today ? 'Today' : format(day, 'MMM d')}
+                </span>
+              </div>
+
+              <div className="space-y-2">
+                {MEAL_SLOTS.map(slot => {
+                  const meal = getMeal(date, slot);
+                  return (
+                    <div key={slot} className="flex items-center gap-3">
+                      <div className="w-[84px] shrink-0 flex items-center gap-1.5 text-caption font-semibold text-brand-text-secondary">
+                        {SLOT_META[slot].icon}
+                        {SLOT_META[slot].label}
+                      </div>
+                      {meal ? (
+                        <div className="flex-1 min-w-0 flex items-center gap-2 bg-brand-surface-secondary rounded-xl p-1.5">
+                          <button
+                            onClick={() => navigate('/recipes', { state: { recipeToOpen: meal.recipe } })}
+                            className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                          >
+                            <img
+                              src={getOptimizedImageUrl(meal.recipe.generatedImage, 120) || `https://picsum.photos/seed/${meal.recipe.id}/120/120`}
+                              alt=""
+                              className="w-9 h-9 rounded-lg object-cover shrink-0"
+                              loading="lazy"
+                            />
+                            <span className="text-body font-medium text-brand-text truncate">{meal.recipe.title}</span>
+                          </button>
+                          <button
+                            onClick={() => removeMeal(meal.id)}
+                            aria-label={`Remove ${meal.recipe.title} from ${SLOT_META[slot].label.toLowerCase()}`}
+                            className="w-8 h-8 shrink-0 rounded-full flex items-center justify-center text-brand-text-tertiary hover:text-brand-error transition"
+                          >
+                            <X size={16} />
+                          </button>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => openPicker(date, slot)}
+                          className="flex-1 h-12 rounded-xl border border-dashed border-brand-divider flex items-center justify-center gap-1 text-caption font-semibold text-brand-text-secondary active:scale-[0.98] transition"
+                        >
+                          <Plus size={14} /> Add
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* ========== AUTO-PLAN SHEET ========== */}
+      <AnimatePresence>
+        {showAutoPlan && (
+          <div className="fixed inset-0 z-50 flex items-end justify-center" role="dialog" aria-modal="true" aria-labelledby="auto-plan-title">
+            <MotionDiv
+              initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+              className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+              onClick={() => !isPlanning && setShowAutoPlan(false)}
+            />
+            <MotionDiv
+              initial={{ y: '100%' }} animate={{ y: 0 }} exit={{ y: '100%' }}
+              transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+              className="relative w-full max-w-md bg-brand-surface rounded-t-[24px] pb-safe p-5"
+            >
+              <div className="flex items-start justify-between mb-4">
+                <div>
+                  <h3 id="auto-plan-title" className="text-h3 text-brand-text">Plan it for me</h3>
+                  <p className="text-caption text-brand-text-secondary">
+                    Uses up your pantry, soonest-to-expire first. Starts {weekOffset > 0 ? format(planStart, 'EEEE, MMM d') : 'today'}.
+                  </p>
+                </div>
+                <button onClick={() => setShowAutoPlan(false)} disabled={isPlanning} aria-label="Close auto-plan" className="w-8 h-8 shrink-0 bg-brand-surface-secondary rounded-full flex items-center justify-center text-brand-text active:opacity-70 transition disabled:opacity-40">
+                  <X size={18} />
+                </button>
+              </div>
+
+              <div className="text-caption font-semibold text-brand-text-secondary uppercase tracking-wider mb-2">Days</div>
+              <div className="flex gap-2 mb-4">
+                {PLAN_LENGTHS.map(days => (
+                  <button
+                    key={days}
+                    onClick={() => setPlanDays(days)}
+                    className={`flex-1 py-2 rounded-xl text-body font-semibold transition ${planDays === days ? 'bg-brand-primary text-black' : 'bg-brand-surface-secondary text-brand-text-secondary'}`}
+                  >
+                    {days} days
+                  </button>
+                ))}
+              </div>
+
+              <div className="text-caption font-semibold text-brand-text-secondary uppercase tracking-wider mb-2">Meals</div>
+              <div className="flex gap-2 mb-4">
+                {MEAL_SLOTS.map(slot => (
+                  <button
+                    key={slot}
+                    onClick={() => toggleMeal(slot)}
+                    className={`flex-1 py-2 rounded-xl flex items-center justify-center gap-1.5 text-body font-semibold transition ${planMeals.includes(slot) ? 'bg-brand-primary text-black' : 'bg-brand-surface-secondary text-brand-text-secondary'}`}
+                  >
+                    {SLOT_META[slot].icon} {SLOT_META[slot].label}
+                  </button>
+                ))}
+              </div>
+
+              <p className="text-caption text-brand-text-tertiary mb-4">
+                {planMeals.length > 0 && openSlotCount === 0
+                  ? 'Those meals are already planned.'
+                  : 'Only fills empty slots. Meals you already planned stay.'}
+              </p>
+
+              <button
+                onClick={handleAutoPlan}
+                disabled={isPlanning || openSlotCount === 0}
+                className="w-full py-3.5 bg-brand-button-primary hover:bg-brand-button-primary-hover text-white font-bold rounded-[18px] flex items-center justify-center gap-2 active:scale-[0.98] transition disabled:opacity-50"
+              >
+                {isPlanning ? <><Loader2 size={18} className="animate-spin" /> Planning {openSlotCount} meal{openSlotCount === 1 ? '' : 's'}...</> : <><Sparkles size={18} /> Plan {openSlotCount} meal{openSlotCount === 1 ? '' : 's'}</>}
+              </button>
+            </MotionDiv>
+          </div>
+        )}
+      </AnimatePresence>
+
+      {/* ========== RECIPE PICKER SHEET ========== */}
+      <AnimatePresence>
+        {picking && (
+          <div className="fixed inset-0 z-50 flex items-end justify-center" role="dialog" aria-modal="true" aria-labelledby="plan-picker-title">
+            <MotionDiv
+              initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+              className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+              onClick={() => setPicking(null)}
+            />
+            <MotionDiv
+              initial={{ y: '100%' }} animate={{ y: 0 }} exit={{ y: '100%' }}
+              transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+              className="relative w-full max-w-md bg-brand-surface rounded-t-[24px] pb-safe max-h-[75vh] flex flex-col"
+            >
+              <div className="p-4 border-b border-brand-divider flex items-center justify-between">
+                <div>
+                  <h3 id="plan-picker-title" className="text-h3 text-brand-text">Pick a recipe</h3>
+                  <p className="text-caption text-brand-text-secondary">
+                    {SLOT_META[picking.slot].label} · {format(parseISO(picking.date), 'EEEE, MMM d')}
+                  </p>
+                </div>
+                <button onClick={() => setPicking(null)} aria-label="Close recipe picker" className="w-8 h-8 bg-brand-surface-secondary rounded-full flex items-center justify-center text-brand-text active:opacity-70 transition">
+                  <X size={18} />
+                </button>
+              </div>
+
+              <div className="flex gap-2 px-4 pt-3">
+                {PICKER_TABS.map(tab => (
+                  <button
+                    key={tab.id}
+                    onClick={() => setSource(tab.id)}
+                    className={`px-3 py-1.5 rounded-full text-caption font-semibold transition ${source === tab.id ? 'bg-brand-primary text-black' : 'bg-brand-surface-secondary text-brand-text-secondary'}`}
+                  >
+                    {tab.label} ({pickerRecipes[tab.id].length})
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                {pickerRecipes[source].length === 0 ? (
+                  <div className="text-center py-8">
+                    <ChefHat size={28} className="text-brand-text-secondary mx-auto mb-2" />
+                    <p className="text-body text-brand-text-secondary mb-4">
+                      {source === 'saved' ? 'No saved recipes yet.' : source === 'history' ? 'Nothing cooked recently.' : 'No fresh ideas yet.'}
+                    </p>
+                    <button
+                      onClick={() => { setPicking(null); navigate('/recipes'); }}
+                      className="px-5 py-2.5 bg-brand-button-primary hover:bg-brand-button-primary-hover text-white font-semibold text-body rounded-full active:scale-95 transition"
+                    >
+                      Generate recipes
+                    </button>
+                  </div>
+                ) : (
+                  pickerRecipes[source].map(recipe => (
+                    <button
+                      key={recipe.id}
+                      onClick={() => handlePick(recipe)}
+                      className="w-full flex items-center gap-3 bg-brand-background rounded-xl p-2 text-left border border-brand-divider active:scale-[0.98] transition"
+                    >
+                      <img
+                        src={getOptimizedImageUrl(recipe.generatedImage, 120) || `https://picsum.photos/seed/${recipe.id}/120/120`}
+                        alt=""
+                        className="w-12 h-12 rounded-lg object-cover shrink-0"
+                        loading="lazy"
+                      />
+                      <div className="min-w-0">
+                        <div className="text-body font-medium text-brand-text truncate">{recipe.title}</div>
+                        <div className="flex items-center gap-1 text-caption text-brand-text-secondary">
+                          <Clock size={12} /> {recipe.totalTimeMinutes || 30} min
+                        </div>
+                      </div>
+                    </button>
+                  ))
+                )}
+              </div>
+            </MotionDiv>
+          </div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 
 import React from 'react';
 import { NavLink } from 'react-router-dom';
-import { Home, ChefHat, ShoppingCart, Settings, Refrigerator } from 'lucide-react';
+import { Home, ChefHat, ShoppingCart, Settings, Refrigerator, CalendarDays } from 'lucide-react';
 import { motion } from 'framer-motion';
 
 const MotionDiv = motion.div as any;
@@ -46,6 +46,7 @@ export const Navigation: React.FC = () => {
         <NavItem to="/" icon={<Home size={26} strokeWidth={1.5} />} label="Home" />
         <NavItem to="/pantry" icon={<Refrigerator size={26} strokeWidth={1.5} />} label="Pantry" />
         <NavItem to="/recipes" icon={<ChefHat size={26} strokeWidth={1.5} />} label="Cook" />
+        <NavItem to="/plan" icon={<CalendarDays size={26} strokeWidth={1.5} />} label="Plan" />
         <NavItem to="/shopping" icon={<ShoppingCart size={26} strokeWidth={1.5} />} label="Shop" />
         <NavItem to="/settings" icon={<Settings size={26} strokeWidth={1.5} />} label="Settings" id="tour-settings-nav" />
       </div>
@@ -1,9 +1,11 @@
-
 import React, { useState, useEffect } from 'react';
-import { WifiOff } from 'lucide-react';
+import { WifiOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { syncQueue } from '../services/syncQueue';
 
 export const OfflineBanner: React.FC = () => {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingChanges, setPendingChanges] = useState(syncQueue.pendingCount);
+  const [failedChanges, setFailedChanges] = useState(syncQueue.failedCount);
 
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
@@ -11,19 +13,50 @@ export const OfflineBanner: React.FC = () => {
 
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
+    const unsubscribe = syncQueue.subscribe((pending, failed) => {
+      setPendingChanges(pending);
+      setFailedChanges(failed);
+    });
 
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
+      unsubscribe();
     };
   }, []);
 
-  if (isOnline) return null;
+  if (isOnline && pendingChanges === 0 && failedChanges === 0) return null;
+
+  const pendingLabel = `${pendingChanges} ${pendingChanges === 1 ? 'change' : 'changes'} waiting to sync`;
+
+  // Edits the server kept rejecting: the user decides whether to retry or let them go
+  if (isOnline && pendingChanges === 0) {
+    return (
+      <div className="fixed top-0 left-0 right-0 z-[100] bg-brand-text text-white px-4 py-2 flex items-center justify-center gap-2 text-caption font-bold shadow-lg animate-in slide-in-from-top-full">
+        <AlertTriangle size={14} className="text-brand-primary shrink-0" />
+        <span>{failedChanges} {failedChanges === 1 ? 'change' : 'changes'} couldn't be saved.</span>
+        <button onClick={() => syncQueue.retryFailed()} className="text-brand-primary underline underline-offset-2">Retry</button>
+        <button onClick={() => syncQueue.discardFailed()} className="text-white/70 underline underline-offset-2">Discard</button>
+      </div>
+    );
+  }
 
   return (
     <div className="fixed top-0 left-0 right-0 z-[100] bg-brand-text text-white px-4 py-2 flex items-center justify-center gap-2 text-caption font-bold shadow-lg animate-in slide-in-from-top-full">
-        <WifiOff size={14} className="text-brand-primary" />
-        <span>No Internet Connection. AI features are paused.</span>
+        {isOnline ? (
+          <>
+            <RefreshCw size={14} className="text-brand-primary animate-spin" />
+            <span>{pendingLabel}</span>
+          </>
+        ) : (
+          <>
+            <WifiOff size={14} className="text-brand-primary" />
+            <span>
+              No Internet Connection. AI features are paused.
+              {pendingChanges > 0 && ` ${pendingLabel}.`}
+            </span>
+          </>
+        )}
     </div>
   );
 };
@@ -1,39 +1,91 @@
 
-import React, { useState, useEffect } from 'react';
-import { PantryItem } from '../types';
-import { Check, Trash2 } from 'lucide-react';
-import { hapticSuccess } from '../utils/hapticService';
+import React, { useState } from 'react';
+import { PantryItem, Quantity, UNITS } from '../types';
+import { Check, Trash2, ArrowRight } from 'lucide-react';
+import { hapticSuccess, hapticLight } from '../utils/hapticService';
+import { calculateNewInventory, getPantryQuantity, formatQuantity, normalizeUnit } from '../services/quantityService';
 
 interface Props {
-  matchedItems: { ingredient: string, amount: string, pantryItem: PantryItem }[];
-  onConfirm: (usage: { pantryId: string, usedAmount: string }[]) => void;
+  matchedItems: { ingredient: string, amount: string, used: Quantity, pantryItem: PantryItem }[];
+  onConfirm: (usage: { pantryId: string, used: Quantity }[]) => void;
   onCancel: () => void;
 }
 
+// "I scaled this recipe by N"
+const SCALE_OPTIONS = [0.5, 1, 1.5, 2, 3];
+
+// Editable used amount per recipe ingredient (text so the field can be cleared while typing).
+// Keyed by ingredient, not pantry item: two ingredients can draw on the same item.
+interface UsageRow {
+  amount: string;
+  unit: string;
+}
+
+// Match normalized units ("l") back to the picker's labels ("L")
+const toPickerUnit = (unit: string) => UNITS.find(u => normalizeUnit(u) === normalizeUnit(unit)) || unit;
+
+// Two decimals so small amounts (0.25 tsp) survive rescaling
+const formatAmount = (val: number) => parseFloat(val.toFixed(2)).toString();
+
 export const PantryUpdateModal: React.FC<Props> = ({ matchedItems, onConfirm, onCancel }) => {
-  // Select all by default (IDs)
-  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Seeded once when the modal opens, so pantry updates (e.g. from another
+  // household member) don't reset what the user has edited. All selected by default.
+  const [selectedKeys, setSelectedKeys] = useState<string[]>(() => matchedItems.map(m => m.ingredient));
+  // Non-measurable amounts ("to taste") start empty: nothing is deducted unless the user enters one
+  const [rows, setRows] = useState<Record<string, UsageRow>>(() => Object.fromEntries(matchedItems.map(m => [m.ingredient, {
+      amount: m.used.unmeasurable ? '' : formatAmount(m.used.val),
+      unit: toPickerUnit(m.used.unit)
+  }])));
+  const [scale, setScale] = useState(1);
 
-  useEffect(() => {
-    setSelectedIds(matchedItems.map(m => m.pantryItem.id));
-  }, [matchedItems]);
+  const updateRow = (key: string, changes: Partial<UsageRow>) => {
+    setRows(prev => ({ ...prev, [key]: { ...prev[key], ...changes } }));
+  };
+
+  // Rescale every row relative to the previous multiplier (keeps manual edits proportional)
+  const changeScale = (next: number) => {
+    hapticLight();
+    const ratio = next / scale;
+    setRows(prev => {
+        const scaled: Record<string, UsageRow> = {};
+        for (const [key, row] of Object.entries(prev) as [string, UsageRow][]) {
+            const val = parseFloat(row.amount);
+            scaled[key] = isNaN(val) ? row : { ...row, amount: formatAmount(val * ratio) };
+        }
+        return scaled;
+    });
+    setScale(next);
+  };
 
-  const toggleItem = (id: string) => {
-    setSelectedIds(prev => 
-      prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]
+  const getUsedQuantity = (key: string): Quantity => {
+    const row = rows[key];
+    const val = row ? parseFloat(row.amount) : NaN;
+    if (!row || isNaN(val) || val <= 0) return { val: 0, unit: 'pcs', unmeasurable: true };
+    return { val, unit: normalizeUnit(row.unit) };
+  };
+
+  const describeRemaining = (key: string, pantryItem: PantryItem): string => {
+    const { remaining, shouldRemove, skipped } = calculateNewInventory(getPantryQuantity(pantryItem), getUsedQuantity(key), pantryItem.name);
+    if (skipped) return 'No change';
+    if (shouldRemove) return 'Used up';
+    return `${formatQuantity(remaining.val)} ${toPickerUnit(remaining.unit)} left`;
+  };
+
+  const toggleItem = (key: string) => {
+    setSelectedKeys(prev => 
+      prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]
     );
   };
 
   const handleConfirm = () => {
     hapticSuccess();
     // Construct the usage objects for the selected items
-    const usage = selectedIds.map(id => {
-        const match = matchedItems.find(m => m.pantryItem.id === id);
-        return {
-            pantryId: id,
-            usedAmount: match ? match.amount : '0'
-        };
-    });
+    const usage = matchedItems
+        .filter(m => selectedKeys.includes(m.ingredient))
+        .map(m => ({
+            pantryId: m.pantryItem.id,
+            used: getUsedQuantity(m.ingredient)
+        }));
     onConfirm(usage);
   };
 
@@ -54,6 +106,25 @@ export const PantryUpdateModal: React.FC<Props> = ({ matchedItems, onConfirm, on
 
         {/* Items list - scrollable */}
         <div className="px-3 py-2 flex-1 overflow-y-auto">
+            {/* Recipe scale */}
+            {matchedItems.length > 0 && (
+                <div className="flex items-center justify-between mb-3">
+                    <p className="text-caption font-semibold text-brand-text-tertiary uppercase tracking-wider">I made it</p>
+                    <div className="flex gap-1">
+                        {SCALE_OPTIONS.map(option => (
+                            <button
+                                key={option}
+                                onClick={() => changeScale(option)}
+                                className={`px-2.5 py-1 rounded-full text-caption font-bold transition ${
+                                    scale === option ? 'bg-brand-primary text-black' : 'bg-brand-surface text-brand-text-secondary border border-brand-divider'
+                                }`}
+                            >
+                                {option}×
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
             <p className="text-caption font-semibold text-brand-text-tertiary uppercase tracking-wider mb-2">Ingredients Used</p>
             <div className="bg-brand-surface rounded-2xl overflow-hidden border border-brand-divider">
                 {matchedItems.length === 0 ? (
@@ -61,30 +132,59 @@ export const PantryUpdateModal: React.FC<Props> = ({ matchedItems, onConfirm, on
                         No pantry items matched.
                     </div>
                 ) : (
-                    matchedItems.map(({ pantryItem, ingredient, amount }, index) => (
+                    matchedItems.map(({ ingredient, pantryItem, amount }, index) => {
+                        const isSelected = selectedKeys.includes(ingredient);
+                        const row = rows[ingredient];
+                        return (
                         <div 
-                            key={pantryItem.id}
-                            onClick={() => toggleItem(pantryItem.id)}
-                            className={`flex items-center justify-between p-2.5 cursor-pointer active:bg-brand-surface-secondary transition ${
-                                index !== matchedItems.length - 1 ? 'border-b border-brand-divider' : ''
-                            }`}
+                            key={ingredient}
+                            className={`p-2.5 ${index !== matchedItems.length - 1 ? 'border-b border-brand-divider' : ''}`}
                         >
-                            <div className="flex items-center gap-2.5">
+                            <div 
+                                onClick={() => toggleItem(ingredient)}
+                                className="flex items-center gap-2.5 cursor-pointer"
+                            >
                                 <div className={`w-5 h-5 rounded-full border flex items-center justify-center transition-colors ${
-                                    selectedIds.includes(pantryItem.id) 
+                                    isSelected 
                                     ? 'bg-brand-primary border-brand-primary text-black' 
                                     : 'border-brand-text-tertiary bg-brand-surface-secondary'
                                 }`}>
-                                    {selectedIds.includes(pantryItem.id) && <Check size={12} strokeWidth={3} />}
+                                    {isSelected && <Check size={12} strokeWidth={3} />}
                                 </div>
-                                <div>
+                                <div className="flex-1 min-w-0">
                                     <div className="text-body text-brand-text leading-tight">{pantryItem.name}</div>
-                                    <div className="text-caption text-brand-text-tertiary">{pantryItem.quantity} {pantryItem.unit}</div>
+                                    <div className="text-caption text-brand-text-tertiary">Recipe: {amount}</div>
                                 </div>
                             </div>
-                            <div className="text-caption font-bold text-brand-secondary">-{amount}</div>
+
+                            {/* Used amount + projected remaining */}
+                            {isSelected && row && (
+                                <div className="flex items-center gap-2 mt-2 ml-7">
+                                    <input
+                                        type="text"
+                                        inputMode="decimal"
+                                        value={row.amount}
+                                        placeholder="0"
+                                        onChange={e => updateRow(ingredient, { amount: e.target.value })}
+                                        className="w-16 bg-brand-background text-brand-text rounded-xl px-2 py-1.5 text-body font-medium outline-none border border-brand-divider focus:border-brand-primary/50"
+                                    />
+                                    <select
+                                        value={row.unit}
+                                        onChange={e => updateRow(ingredient, { unit: e.target.value })}
+                                        className="bg-brand-background text-brand-text rounded-xl px-2 py-1.5 text-body font-medium outline-none border border-brand-divider"
+                                    >
+                                        {UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+                                    </select>
+                                    <ArrowRight size={14} className="text-brand-text-tertiary shrink-0" />
+                                    <div className="text-caption text-brand-text-secondary truncate">
+                                        <span className="text-brand-text-tertiary">{pantryItem.quantity} {pantryItem.unit} → </span>
+                                        <span className="font-bold text-brand-secondary">{describeRemaining(ingredient, pantryItem)}</span>
+                                    </div>
+                                </div>
+                            )}
                         </div>
-                    ))
+                        );
+                    })
                 )}
             </div>
         </div>
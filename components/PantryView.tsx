@@ -2,15 +2,20 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { createPortal } from 'react-dom';
 import { useInventory } from '../context/InventoryContext';
-import { PantryItem, UNITS, PANTRY_CATEGORIES } from '../types';
-import { Plus, Trash2, Search, X, Edit2, Camera, Mic, ScanBarcode, Loader2, AlertCircle, ChevronRight } from 'lucide-react';
+import { PantryItem, ScannedPantryItem, UNITS, PANTRY_CATEGORIES, CATEGORY_ICONS } from '../types';
+import { Plus, Trash2, Search, X, Edit2, Camera, Mic, ScanBarcode, Loader2, AlertCircle, ChevronRight, History, ReceiptText, ListChecks } from 'lucide-react';
 import { isPast } from 'date-fns';
-import { identifyItemsFromImage, parsePantryNaturalLanguage } from '../services/geminiService';
+import { identifyItemsFromImage, parsePantryNaturalLanguage, scanReceipt } from '../services/geminiService';
+import { matchPurchasedItems } from '../services/shoppingListService';
+import { suggestExpiryDate } from '../services/shelfLifeService';
+import { productLookup, normalizeBarcode, readBarcodeFromImage, canReadBarcodes, ProductInfo } from '../services/productLookupService';
+import { isAbortError } from '../services/api';
 import { useLocation, Link } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
 import { hapticMedium, hapticSuccess } from '../utils/hapticService';
 import { useVirtualizer } from '@tanstack/react-virtual';
+import { RecentlyRemovedModal } from './RecentlyRemovedModal';
 import { 
   checkMicrophonePermission,
   checkCameraPermission,
@@ -19,20 +24,6 @@ import {
   detectPlatform
 } from '../utils/permissionService';
 
-// Category emoji mapping
-const CATEGORY_ICONS: Record<string, string> = {
-  'Produce': '🥬',
-  'Meat': '🥩',
-  'Dairy': '🧀',
-  'Bakery': '🥐',
-  'Frozen': '🧊',
-  'Grains': '🌾',
-  'Beverages': '🥤',
-  'Snacks': '🍿',
-  'Spices': '🧂',
-  'General': '📦',
-};
-
 // Memoized pantry item row to prevent unnecessary re-renders
 const PantryItemRow = React.memo(({ 
   item, 
@@ -92,17 +83,33 @@ const PantryItemRow = React.memo(({
 });
 
 const MotionDiv = motion.div as any;
+
+// Receipt amounts, in whatever currency the receipt was in
+const formatPrice = (amount: number) => amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 const MotionButton = motion.button as any;
 
 export const PantryView: React.FC = () => {
-  const { pantry, addPantryItem, removePantryItem, updatePantryItem } = useInventory();
+  const { pantry, shoppingList, recentEmptyItems, addPantryItem, addPantryItems, removePantryItem, updatePantryItem } = useInventory();
   const [isAdding, setIsAdding] = useState(false);
+  const [showRecentlyRemoved, setShowRecentlyRemoved] = useState(false);
   
   // Snap / Image Analysis State
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isReviewingSnap, setIsReviewingSnap] = useState(false);
-  const [snappedItems, setSnappedItems] = useState<any[]>([]);
+  const [snappedItems, setSnappedItems] = useState<ScannedPantryItem[]>([]);
+  const [scanMode, setScanMode] = useState<'photo' | 'receipt' | 'barcode'>('photo');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const analyzeAbortRef = useRef<AbortController | null>(null);
+
+  // Closing the page drops any photo still being analyzed
+  useEffect(() => () => analyzeAbortRef.current?.abort(), []);
+
+  // Barcode State
+  const [isScanningBarcode, setIsScanningBarcode] = useState(false);
+  const [barcodeInput, setBarcodeInput] = useState('');
+  const [unknownBarcode, setUnknownBarcode] = useState<string | null>(null);
+  const [productDescription, setProductDescription] = useState('');
+  const [scannedBarcode, setScannedBarcode] = useState<string | null>(null); // Learned from what gets saved
 
   // Voice State
   const [isListening, setIsListening] = useState(false);
@@ -148,7 +155,9 @@ export const PantryView: React.FC = () => {
       return 'General';
   };
 
-  const handleCameraClick = async () => {
+  const handleCameraClick = async (mode: 'photo' | 'receipt' | 'barcode' = 'photo') => {
+      setScanMode(mode);
+
       // On web browsers, file input doesn't require permission check - just open it
       // The browser handles camera/photo access automatically
       const platform = detectPlatform();
@@ -279,6 +288,15 @@ export const PantryView: React.FC = () => {
       return;
     }
     
+    // Barcodes are read on the device, nothing to upload
+    if (scanMode === 'barcode') {
+      e.target.value = '';
+      const code = await readBarcodeFromImage(file);
+      if (code) lookUpBarcode(code);
+      else toast.error("Couldn't find a barcode in that photo. Get closer, or type the number.");
+      return;
+    }
+
     // Validate file size (max 10MB)
     if (file.size > 10 * 1024 * 1024) {
       toast.error("Image is too large. Please use an image under 10MB.");
@@ -295,18 +313,28 @@ export const PantryView: React.FC = () => {
     };
     
     reader.onloadend = async () => {
+      analyzeAbortRef.current?.abort();
+      const controller = new AbortController();
+      analyzeAbortRef.current = controller;
       try {
         const base64 = reader.result as string;
-        const items = await identifyItemsFromImage(base64);
+        // Receipts don't print expiry dates, so start from a typical shelf life
+        const items = scanMode === 'receipt'
+          ? (await scanReceipt(base64, controller.signal)).map(item => ({
+              ...item,
+              expiryDate: item.expiryDate || suggestExpiryDate(item.name, getDisplayCategory(item.category))
+            }))
+          : await identifyItemsFromImage(base64, controller.signal);
         if (items && items.length > 0) {
           setSnappedItems(items);
           setIsReviewingSnap(true);
         } else {
-          toast.error("No items detected. Try a clearer photo.");
+          toast.error(scanMode === 'receipt' ? "No groceries found. Try a flat, well-lit photo of the receipt." : "No items detected. Try a clearer photo.");
         }
       } catch (error) {
-        toast.error("Failed to analyze image. Please try again.");
+        if (!isAbortError(error)) toast.error(scanMode === 'receipt' ? "Failed to read receipt. Please try again." : "Failed to analyze image. Please try again.");
       } finally {
+        if (analyzeAbortRef.current === controller) analyzeAbortRef.current = null;
         setIsAnalyzing(false);
       }
     };
@@ -314,7 +342,63 @@ export const PantryView: React.FC = () => {
     e.target.value = '';
   };
 
-  const handleSnapItemChange = (index: number, field: string, value: string) => {
+  const closeBarcodeScan = () => {
+      setIsScanningBarcode(false);
+      setBarcodeInput('');
+      setUnknownBarcode(null);
+      setProductDescription('');
+  };
+
+  // Pre-fill the add form; saving it teaches the lookup table this code
+  const fillFromProduct = (code: string, product: ProductInfo) => {
+      const category = getDisplayCategory(product.category);
+      setNewItemName(product.name);
+      setNewItemQty(product.quantity !== undefined ? String(product.quantity) : '1');
+      setNewItemUnit(UNITS.find(u => u === product.unit) || 'pcs');
+      setNewItemCategory(category);
+      setNewItemExpiry(suggestExpiryDate(product.name, category));
+      setScannedBarcode(code);
+      closeBarcodeScan();
+  };
+
+  const lookUpBarcode = async (raw: string) => {
+      const code = normalizeBarcode(raw);
+      if (!code) {
+          toast.error("That doesn't look like a product barcode.");
+          return;
+      }
+      const product = await productLookup.lookup(code);
+      if (product) {
+          hapticSuccess();
+          fillFromProduct(code, product);
+      } else {
+          setUnknownBarcode(code);
+      }
+  };
+
+  // Unknown codes: the user says what it is and the voice parser reads it
+  const describeUnknownProduct = async () => {
+      if (!unknownBarcode || !productDescription.trim()) return;
+      setIsAnalyzing(true);
+      try {
+          const [item] = await parsePantryNaturalLanguage(productDescription);
+          if (!item) {
+              toast.error('Couldn\'t make sense of that. Try the name and size, e.g. "500 g spaghetti".');
+              return;
+          }
+          const quantity = parseFloat(item.quantity);
+          fillFromProduct(unknownBarcode, {
+              name: item.name,
+              category: item.category,
+              quantity: Number.isFinite(quantity) ? quantity : undefined,
+              unit: item.unit
+          });
+      } finally {
+          setIsAnalyzing(false);
+      }
+  };
+
+  const handleSnapItemChange = (index: number, field: keyof ScannedPantryItem, value: string) => {
     const newItems = [...snappedItems];
     newItems[index] = { ...newItems[index], [field]: value };
     setSnappedItems(newItems);
@@ -322,24 +406,33 @@ export const PantryView: React.FC = () => {
 
   const removeSnapItem = (index: number) => setSnappedItems(prev => prev.filter((_, i) => i !== index));
 
+  // Shopping list entries a scanned receipt covers, ticked off on add
+  const purchasedShoppingIds = useMemo(
+      () => isReviewingSnap && scanMode === 'receipt' ? matchPurchasedItems(snappedItems, shoppingList) : [],
+      [isReviewingSnap, scanMode, snappedItems, shoppingList]
+  );
+
+  const receiptTotal = snappedItems.reduce((sum, item) => sum + (item.price ?? 0), 0);
+
   const confirmBulkAdd = () => {
       hapticSuccess();
-      snappedItems.forEach(item => {
-          const cleanCategory = getDisplayCategory(item.category);
-          addPantryItem({
-              name: item.name,
-              quantity: item.quantity || '1',
-              unit: item.unit || 'pcs',
-              category: cleanCategory,
-              expiryDate: item.expiryDate || undefined
-          });
-      });
+      addPantryItems(snappedItems.map(item => ({
+          name: item.name,
+          quantity: item.quantity || '1',
+          unit: item.unit || 'pcs',
+          category: getDisplayCategory(item.category),
+          expiryDate: item.expiryDate || undefined
+      })), purchasedShoppingIds);
+      if (purchasedShoppingIds.length > 0) {
+          toast.success(`Ticked off ${purchasedShoppingIds.length} shopping list item${purchasedShoppingIds.length === 1 ? '' : 's'}`);
+      }
       setSnappedItems([]);
       setIsReviewingSnap(false);
       setIsAdding(false);
   };
 
   const resetForm = () => {
+    analyzeAbortRef.current?.abort();
     setNewItemName(''); 
     setNewItemQty(''); 
     setNewItemUnit('pcs'); 
@@ -348,6 +441,8 @@ export const PantryView: React.FC = () => {
     setEditingId(null); 
     setIsReviewingSnap(false); 
     setSnappedItems([]);
+    setScannedBarcode(null);
+    closeBarcodeScan();
   };
 
   const handleFabClick = (e: React.MouseEvent | React.TouchEvent) => {
@@ -363,6 +458,16 @@ export const PantryView: React.FC = () => {
     hapticSuccess();
     const itemData = { name: newItemName, quantity: newItemQty || '1', unit: newItemUnit, category: newItemCategory, expiryDate: newItemExpiry || undefined };
     if (editingId) updatePantryItem(editingId, itemData); else addPantryItem(itemData);
+    if (scannedBarcode && !editingId) {
+      // What was saved, corrections included, is what this code means from now on
+      const packageSize = parseFloat(itemData.quantity);
+      productLookup.learn(scannedBarcode, {
+        name: itemData.name,
+        category: itemData.category,
+        quantity: Number.isFinite(packageSize) ? packageSize : undefined,
+        unit: itemData.unit
+      });
+    }
     resetForm(); setIsAdding(false);
   };
 
@@ -506,6 +611,16 @@ export const PantryView: React.FC = () => {
                 {pantry.length} items{expiringCount > 0 && <span className="text-brand-secondary font-semibold"> · {expiringCount} expiring soon</span>}
               </p>
             </div>
+            {/* Recently removed: white/80 bg | Icon: black */}
+            {recentEmptyItems.length > 0 && (
+              <button
+                onClick={() => setShowRecentlyRemoved(true)}
+                aria-label="Recently removed items"
+                className="w-10 h-10 bg-white/80 rounded-full flex items-center justify-center text-black shadow-sm active:scale-95 transition"
+              >
+                <History size={20} />
+              </button>
+            )}
           </div>
           
           {/* Search bar in header - even spacing */}
@@ -573,7 +688,7 @@ export const PantryView: React.FC = () => {
                     <button onClick={() => { setIsAdding(false); resetForm(); }} aria-label="Close add item panel" className="absolute top-0 right-4 p-2 bg-brand-surface-secondary rounded-full text-brand-text-secondary active:opacity-70 z-20"><X size={20} /></button>
                     <div className="pb-8">
                     {/* Analyzing overlay: #1A1A1A/80 bg | Loader: #FFC244 (yellow) | Text: #FFFFFF */}
-                    {isAnalyzing && <div className="absolute inset-0 bg-brand-surface rounded-2xl"><Loader2 size={32} className="text-brand-primary animate-spin mb-2" /><span className="text-body font-semibold text-brand-text">Analyzing vibes...</span></div>}
+                    {isAnalyzing && <div className="absolute inset-0 bg-brand-surface rounded-2xl"><Loader2 size={32} className="text-brand-primary animate-spin mb-2" /><span className="text-body font-semibold text-brand-text">{scanMode === 'receipt' ? 'Reading receipt...' : 'Analyzing vibes...'}</span></div>}
                     {/* Voice listening overlay */}
 {/* Voice listening overlay: #1A1A1A/95 (surface with opacity) */}
                     {isListening && (
@@ -590,6 +705,8 @@ export const PantryView: React.FC = () => {
                             <div className="flex gap-4 w-full"><button onClick={cancelVoice} className="flex-1 py-3 text-red-500 font-bold bg-red-900/20 rounded-2xl text-body active:bg-red-900/30 transition">Cancel</button><button onClick={stopAndProcessVoice} disabled={!voiceText} className="flex-1 py-3 bg-brand-button-primary hover:bg-brand-button-primary-hover text-white font-bold rounded-2xl text-body shadow-lg shadow-purple-500/30 active:scale-95 transition disabled:opacity-50 disabled:shadow-none">Done</button></div>
                         </div>
                     )}
+                    {/* Shared by Snap, Receipt and Barcode, so it stays mounted whichever panel is open */}
+                    <input type="file" ref={fileInputRef} accept="image/jpeg,image/png,image/webp,image/*" capture="environment" className="hidden" onChange={handleFileChange} />
                     {/* Review snap section */}
                     {isReviewingSnap ? (
                         <div className="space-y-4 pt-2">
@@ -598,6 +715,18 @@ export const PantryView: React.FC = () => {
                             <div className="max-h-[50vh] overflow-y-auto space-y-3 -mx-2 px-2">
                                 {/* Empty state: #A0A0A0 */}
                                 {snappedItems.length === 0 && <p className="text-center text-body text-brand-text-secondary py-4">No items detected.</p>}
+                                {/* Receipt summary: #1A1A1A surface | Icon: #FFC244 yellow | Total: #FFFFFF */}
+                                {scanMode === 'receipt' && snappedItems.length > 0 && (
+                                    <div className="bg-brand-surface rounded-2xl p-3 border border-brand-divider flex items-center gap-3">
+                                        <ListChecks size={20} className="text-brand-primary shrink-0" />
+                                        <span className="flex-1 text-caption text-brand-text-secondary">
+                                            {purchasedShoppingIds.length > 0
+                                                ? `${purchasedShoppingIds.length} shopping list item${purchasedShoppingIds.length === 1 ? '' : 's'} will be ticked off`
+                                                : 'Nothing on your shopping list matches'}
+                                        </span>
+                                        {receiptTotal > 0 && <span className="text-body font-bold text-brand-text">{formatPrice(receiptTotal)}</span>}
+                                    </div>
+                                )}
 {/* Snapped items cards: #1A1A1A surface | Border: #333333 */}
                                 {snappedItems.map((item, idx) => (
                                     <div key={idx} className="bg-brand-surface rounded-2xl flex flex-col gap-2 relative shadow-sm border border-brand-divider">
@@ -610,24 +739,70 @@ export const PantryView: React.FC = () => {
                                                 <select value={item.unit} onChange={e => handleSnapItemChange(idx, 'unit', e.target.value)} className="bg-brand-background text-brand-text rounded-2xl px-2 py-1.5 text-body font-medium outline-none">{UNITS.map(u => <option key={u} value={u}>{u}</option>)}</select>
                                                 <select value={getDisplayCategory(item.category)} onChange={e => handleSnapItemChange(idx, 'category', e.target.value)} className="bg-brand-background text-brand-text rounded-2xl px-2 py-1.5 flex-1 text-body font-medium outline-none">{PANTRY_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}</select>
                                             </div>
+                                            {/* Receipt lines: suggested expiry + price paid (#A0A0A0) */}
+                                            {scanMode === 'receipt' && (
+                                                <div className="flex items-center gap-2">
+                                                    <span className="text-caption text-brand-text-secondary uppercase font-bold tracking-wider">Expires</span>
+                                                    <input type="date" value={item.expiryDate || ''} onChange={e => handleSnapItemChange(idx, 'expiryDate', e.target.value)} aria-label={`Expiry date for ${item.name}`} className="bg-brand-background text-brand-text rounded-2xl px-2 py-1.5 flex-1 text-body outline-none" />
+                                                    {item.price !== undefined && <span className="text-body font-medium text-brand-text-secondary">{formatPrice(item.price)}</span>}
+                                                </div>
+                                            )}
                                     </div>
                                 ))}
                             </div>
                             {/* Footer: border #6B6B6B/30 | Cancel: #2A2A2A bg, #FFFFFF text | Add All: #7C3AED purple */}
                             <div className="flex gap-3 mt-4 pt-4 border-t border-brand-text-tertiary/30"><button onClick={() => setIsReviewingSnap(false)} className="flex-1 py-3.5 bg-brand-surface-secondary text-brand-text font-bold rounded-2xl">Cancel</button><button onClick={confirmBulkAdd} className="flex-1 py-3.5 bg-brand-button-primary hover:bg-brand-button-primary-hover text-white font-bold rounded-2xl shadow-lg shadow-purple-500/30">Add All</button></div>
                         </div>
+                    ) : isScanningBarcode ? (
+                        <div className="space-y-5 pt-2">
+                            {/* Barcode panel */}
+                            {/* Title: #FFFFFF | Subtitle: #A0A0A0 */}
+                            <div>
+                                <h3 className="text-[22px] font-bold text-brand-text">{unknownBarcode ? 'New Product' : 'Scan a Barcode'}</h3>
+                                <p className="text-caption text-brand-text-secondary mt-1">
+                                    {unknownBarcode ? `I don't know ${unknownBarcode} yet. What is it? I'll remember next time.` : 'EAN or UPC, from the back of the pack'}
+                                </p>
+                            </div>
+                            {unknownBarcode ? (
+                                <>
+                                    {/* Description input: #1A1A1A bg | Text: #FFFFFF | Placeholder: #6B6B6B */}
+                                    <input type="text" autoFocus value={productDescription} onChange={e => setProductDescription(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); describeUnknownProduct(); } }} placeholder='e.g. "400 g jar of Nutella"' aria-label="Describe the product" className="w-full bg-brand-surface p-4 rounded-2xl text-h3 outline-none text-brand-text font-medium shadow-sm border border-transparent focus:border-brand-primary/30 transition-all placeholder-brand-text-tertiary" />
+                                    {/* Back: #2A2A2A bg | Fill in: #7C3AED purple */}
+                                    <div className="flex gap-3"><button type="button" onClick={() => { setUnknownBarcode(null); setProductDescription(''); }} className="flex-1 py-3.5 bg-brand-surface-secondary text-brand-text font-bold rounded-2xl">Back</button><button type="button" onClick={describeUnknownProduct} disabled={!productDescription.trim()} className="flex-1 py-3.5 bg-brand-button-primary hover:bg-brand-button-primary-hover text-white font-bold rounded-2xl shadow-lg shadow-purple-500/30 disabled:opacity-50 disabled:shadow-none">Fill in</button></div>
+                                </>
+                            ) : (
+                                <>
+                                    {/* Photo button: #1A1A1A bg | Icon: #FFC244 yellow | Border: #333333 (only where the browser can read barcodes) */}
+                                    {canReadBarcodes() && (
+                                        <button type="button" onClick={() => handleCameraClick('barcode')} className="w-full py-4 bg-brand-surface text-brand-primary rounded-2xl font-bold flex items-center justify-center gap-2 active:bg-brand-background shadow-sm border border-brand-divider"><Camera size={22} /> <span className="text-body">Photograph the barcode</span></button>
+                                    )}
+                                    {/* Code input: #1A1A1A bg | Text: #FFFFFF | Placeholder: #6B6B6B */}
+                                    <div>
+                                        <label htmlFor="barcode-number" className="block text-caption font-bold text-brand-text-secondary uppercase mb-1.5 ml-1">{canReadBarcodes() ? 'Or type the number' : 'Barcode number'}</label>
+                                        <input id="barcode-number" type="text" inputMode="numeric" value={barcodeInput} onChange={e => setBarcodeInput(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); lookUpBarcode(barcodeInput); } }} placeholder="e.g. 4006381333931" className="w-full bg-brand-surface p-4 rounded-2xl text-h3 outline-none text-brand-text font-bold tracking-wider shadow-sm border border-transparent focus:border-brand-primary/30 transition-all placeholder-brand-text-tertiary" />
+                                    </div>
+                                    {/* Cancel: #2A2A2A bg | Look up: #7C3AED purple */}
+                                    <div className="flex gap-3"><button type="button" onClick={closeBarcodeScan} className="flex-1 py-3.5 bg-brand-surface-secondary text-brand-text font-bold rounded-2xl">Cancel</button><button type="button" onClick={() => lookUpBarcode(barcodeInput)} disabled={!barcodeInput.trim()} className="flex-1 py-3.5 bg-brand-button-primary hover:bg-brand-button-primary-hover text-white font-bold rounded-2xl shadow-lg shadow-purple-500/30 disabled:opacity-50 disabled:shadow-none">Look up</button></div>
+                                </>
+                            )}
+                        </div>
                     ) : (
                         <form onSubmit={handleAddOrUpdate} className="pt-2">
                             {/* Add/Edit form */}
                             {/* Title: #FFFFFF (white) */}
-                            <h3 className="text-[22px] font-bold text-brand-text mb-6">{editingId ? 'Edit Item' : 'Add Item'}</h3>
+                            <h3 className={`text-[22px] font-bold text-brand-text ${scannedBarcode && !editingId ? 'mb-1' : 'mb-6'}`}>{editingId ? 'Edit Item' : 'Add Item'}</h3>
+                            {/* Scanned code caption: #A0A0A0 */}
+                            {scannedBarcode && !editingId && <p className="text-caption text-brand-text-secondary mb-6 flex items-center gap-1.5"><ScanBarcode size={14} /> {scannedBarcode} · fix anything wrong and I'll remember it</p>}
                             {!editingId && (
                                 <div className="flex gap-3 mb-8 overflow-x-auto no-scrollbar">
                                     {/* Snap button: #1A1A1A bg | Icon: #FFC244 yellow | Active: #0D0D0D | Border: #333333 */}
-                                    <button type="button" onClick={handleCameraClick} className="flex-1 min-w-[100px] py-4 bg-brand-surface text-brand-primary rounded-2xl font-bold flex flex-col items-center justify-center gap-1.5 active:bg-brand-background shadow-sm border border-brand-divider"><Camera size={26} /> <span className="text-caption uppercase tracking-wide">Snap</span></button>
+                                    <button type="button" onClick={() => handleCameraClick('photo')} className="flex-1 min-w-[100px] py-4 bg-brand-surface text-brand-primary rounded-2xl font-bold flex flex-col items-center justify-center gap-1.5 active:bg-brand-background shadow-sm border border-brand-divider"><Camera size={26} /> <span className="text-caption uppercase tracking-wide">Snap</span></button>
                                     {/* Voice button: #1A1A1A bg | Icon: #FFC244 yellow | Active: #0D0D0D | Border: #333333 */}
                                     <button type="button" onClick={startListening} className="flex-1 min-w-[100px] py-4 bg-brand-surface text-brand-primary rounded-2xl font-bold flex flex-col items-center justify-center gap-1.5 active:bg-brand-background shadow-sm border border-brand-divider"><Mic size={26} /> <span className="text-caption uppercase tracking-wide">Voice</span></button>
-                                    <input type="file" ref={fileInputRef} accept="image/jpeg,image/png,image/webp,image/*" capture="environment" className="hidden" onChange={handleFileChange} />
+                                    {/* Receipt button: #1A1A1A bg | Icon: #FFC244 yellow | Active: #0D0D0D | Border: #333333 */}
+                                    <button type="button" onClick={() => handleCameraClick('receipt')} className="flex-1 min-w-[100px] py-4 bg-brand-surface text-brand-primary rounded-2xl font-bold flex flex-col items-center justify-center gap-1.5 active:bg-brand-background shadow-sm border border-brand-divider"><ReceiptText size={26} /> <span className="text-caption uppercase tracking-wide">Receipt</span></button>
+                                    {/* Barcode button: #1A1A1A bg | Icon: #FFC244 yellow | Active: #0D0D0D | Border: #333333 */}
+                                    <button type="button" onClick={() => { setIsScanningBarcode(true); setScannedBarcode(null); }} className="flex-1 min-w-[100px] py-4 bg-brand-surface text-brand-primary rounded-2xl font-bold flex flex-col items-center justify-center gap-1.5 active:bg-brand-background shadow-sm border border-brand-divider"><ScanBarcode size={26} /> <span className="text-caption uppercase tracking-wide">Barcode</span></button>
                                 </div>
                             )}
                             {/* Form fields */}
@@ -653,6 +828,9 @@ export const PantryView: React.FC = () => {
         </>
       )}
       </AnimatePresence>
+      <AnimatePresence>
+        {showRecentlyRemoved && <RecentlyRemovedModal onClose={() => setShowRecentlyRemoved(false)} />}
+      </AnimatePresence>
       {/* FAB (Floating Action Button): #7C3AED purple bg | Shadow: purple/30 | Icon: white */}
       {typeof document !== 'undefined' && createPortal(
         <button 
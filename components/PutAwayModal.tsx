@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Check, PackageCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useInventory } from '../context/InventoryContext';
+import { PantryDraft, toPantryDraft } from '../services/shoppingListService';
+import { suggestExpiryDate } from '../services/shelfLifeService';
+import { ShoppingItem, UNITS, PANTRY_CATEGORIES } from '../types';
+import { hapticLight, hapticSuccess } from '../utils/hapticService';
+
+/**
+ * 🎨 PUT AWAY MODAL COLOR REFERENCE (Dark Mode)
+ * ==============================================
+ * Background:     #0D0D0D (modal background, field backgrounds)
+ * Surface:        #1A1A1A (header, item cards)
+ * Surface Alt:    #2A2A2A (close button)
+ * Brand Yellow:   #FFC244 (included check)
+ * Button Purple:  #7C3AED (put away button)
+ */
+
+const MotionDiv = motion.div as any;
+
+interface Props {
+  items: ShoppingItem[]; // Bought but not yet in the pantry
+  onClose: () => void;
+}
+
+interface DraftRow {
+  draft: PantryDraft;
+  included: boolean;
+  expiryEdited: boolean; // Stop re-suggesting once the date was picked by hand
+}
+
+export const PutAwayModal: React.FC<Props> = ({ items, onClose }) => {
+  const { putAwayShoppingItems } = useInventory();
+  const [rows, setRows] = useState<Record<string, DraftRow>>(() =>
+    Object.fromEntries(items.map(item => [item.id, { draft: toPantryDraft(item), included: true, expiryEdited: false }]))
+  );
+
+  const includedCount = items.filter(i => rows[i.id]?.included).length;
+
+  const updateDraft = (id: string, updates: Partial<PantryDraft>) => {
+    setRows(prev => {
+      const row = prev[id];
+      const draft = { ...row.draft, ...updates };
+      // A new category means a different typical shelf life
+      if (updates.category && !row.expiryEdited) draft.expiryDate = suggestExpiryDate(draft.name, updates.category);
+      return { ...prev, [id]: { ...row, draft, expiryEdited: row.expiryEdited || updates.expiryDate !== undefined } };
+    });
+  };
+
+  const toggleIncluded = (id: string) => {
+    hapticLight();
+    setRows(prev => ({ ...prev, [id]: { ...prev[id], included: !prev[id].included } }));
+  };
+
+  const handlePutAway = () => {
+    const entries = items
+      .filter(i => rows[i.id].included)
+      .map(i => {
+        const { draft } = rows[i.id];
+        return { id: i.id, item: { ...draft, quantity: draft.quantity.trim() || '1', expiryDate: draft.expiryDate || undefined } };
+      });
+    if (entries.length === 0) return;
+    hapticSuccess();
+    putAwayShoppingItems(entries);
+    toast.success(`Put ${entries.length} item${entries.length === 1 ? '' : 's'} away`);
+    onClose();
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <MotionDiv
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100]"
+      />
+
+      {/* Modal */}
+      <MotionDiv
+        initial={{ y: "100%" }}
+        animate={{ y: 0 }}
+        exit={{ y: "100%" }}
+        transition={{ type: "spring", damping: 25, stiffness: 200 }}
+        className="fixed bottom-0 left-0 right-0 z-[110] bg-brand-background rounded-t-[32px] overflow-hidden shadow-2xl h-[85vh] flex flex-col"
+      >
+        {/* Header */}
+        <div className="bg-brand-surface border-b border-brand-divider px-5 py-4 flex justify-between items-center">
+          <div>
+            <h2 className="text-h2 font-bold text-brand-text">Put Away</h2>
+            <p className="text-caption text-brand-text-secondary">Check the amounts and dates, then stock the pantry</p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="w-9 h-9 bg-brand-surface-secondary rounded-full flex items-center justify-center text-brand-text-secondary hover:text-brand-text hover:bg-brand-divider transition"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* ========== BOUGHT ITEMS ========== */}
+        <div className="flex-1 overflow-y-auto p-5 space-y-3">
+          {items.map(item => {
+            const { draft, included } = rows[item.id];
+            return (
+              <div key={item.id} className={`bg-brand-surface rounded-2xl border border-brand-divider p-3.5 space-y-2.5 transition ${included ? '' : 'opacity-50'}`}>
+                <button
+                  onClick={() => toggleIncluded(item.id)}
+                  aria-pressed={included}
+                  className="w-full flex items-center gap-3 text-left"
+                >
+                  <div className={`w-6 h-6 rounded-full flex items-center justify-center shrink-0 ${included ? 'bg-brand-primary text-black' : 'border-2 border-brand-divider'}`}>
+                    {included && <Check size={14} strokeWidth={3} />}
+                  </div>
+                  <span className="flex-1 font-semibold text-brand-text text-h3 truncate">{item.name}</span>
+                </button>
+
+                {included && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {/* Quantity + unit - #0D0D0D background */}
+                    <div className="flex items-center bg-brand-background rounded-xl px-2">
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={draft.quantity}
+                        onChange={e => updateDraft(item.id, { quantity: e.target.value })}
+                        aria-label={`Quantity of ${item.name}`}
+                        className="w-full min-w-0 bg-transparent py-2 text-body font-bold text-brand-text outline-none"
+                      />
+                      <select
+                        value={draft.unit}
+                        onChange={e => updateDraft(item.id, { unit: e.target.value })}
+                        aria-label={`Unit for ${item.name}`}
+                        className="bg-transparent py-2 text-body font-medium text-brand-text-secondary outline-none"
+                      >
+                        {UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+                      </select>
+                    </div>
+                    <select
+                      value={draft.category}
+                      onChange={e => updateDraft(item.id, { category: e.target.value })}
+                      aria-label={`Category for ${item.name}`}
+                      className="bg-brand-background rounded-xl px-3 py-2 text-body font-medium text-brand-text outline-none"
+                    >
+                      {PANTRY_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <div className="col-span-2 flex items-center bg-brand-background rounded-xl px-3">
+                      <span className="text-brand-text-secondary text-caption mr-2 uppercase font-bold tracking-wider">Expires</span>
+                      <input
+                        type="date"
+                        value={draft.expiryDate || ''}
+                        onChange={e => updateDraft(item.id, { expiryDate: e.target.value })}
+                        aria-label={`Expiry date for ${item.name}`}
+                        className="flex-1 bg-transparent py-2 text-body outline-none text-brand-text text-right"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-5 pt-3 pb-safe border-t border-brand-divider bg-brand-surface">
+          <button
+            onClick={handlePutAway}
+            disabled={includedCount === 0}
+            className="w-full py-3.5 bg-brand-button-primary hover:bg-brand-button-primary-hover text-white font-bold text-h3 rounded-full active:scale-95 transition flex items-center justify-center gap-2 disabled:opacity-40 disabled:active:scale-100"
+          >
+            <PackageCheck size={20} /> Put {includedCount} item{includedCount === 1 ? '' : 's'} away
+          </button>
+        </div>
+      </MotionDiv>
+    </>
+  );
+};
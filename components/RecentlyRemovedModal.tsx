@@ -0,0 +1,138 @@
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, RotateCcw, Trash2, History } from 'lucide-react';
+import { formatDistanceToNow, format, isPast } from 'date-fns';
+import { useInventory } from '../context/InventoryContext';
+import { hapticLight, hapticMedium } from '../utils/hapticService';
+
+/**
+ * 🎨 RECENTLY REMOVED MODAL COLOR REFERENCE (Dark Mode)
+ * =====================================================
+ * Surface:        #1A1A1A (item cards)
+ * Background:     #0D0D0D (modal background, icon buttons)
+ * Brand Yellow:   #FFC244 (restore)
+ * Error Red:      #E84142 (delete forever)
+ */
+
+const MotionDiv = motion.div as any;
+
+interface Props { onClose: () => void; }
+
+export const RecentlyRemovedModal: React.FC<Props> = ({ onClose }) => {
+  const { recentEmptyItems, restoreRemovedItem, purgeRemovedItem } = useInventory();
+  // Deleting forever takes a second tap
+  const [confirmPurgeId, setConfirmPurgeId] = useState<string | null>(null);
+
+  const items = [...recentEmptyItems].sort((a, b) => b.removedAt - a.removedAt);
+
+  const formatExpiry = (expiryDate?: string) => {
+    if (!expiryDate) return null;
+    const expiry = new Date(expiryDate);
+    if (isNaN(expiry.getTime())) return null;
+    return isPast(expiry) ? `Expired ${format(expiry, 'MMM d')}` : `Expires ${format(expiry, 'MMM d')}`;
+  };
+
+  const handleRestore = (id: string) => {
+    hapticLight();
+    restoreRemovedItem(id);
+  };
+
+  const handlePurge = (id: string) => {
+    if (confirmPurgeId !== id) {
+      setConfirmPurgeId(id);
+      return;
+    }
+    hapticMedium();
+    purgeRemovedItem(id);
+    setConfirmPurgeId(null);
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <MotionDiv
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100]"
+      />
+
+      {/* Modal */}
+      <MotionDiv
+        initial={{ y: "100%" }}
+        animate={{ y: 0 }}
+        exit={{ y: "100%" }}
+        transition={{ type: "spring", damping: 25, stiffness: 200 }}
+        className="fixed bottom-0 left-0 right-0 z-[110] bg-brand-background rounded-t-[32px] overflow-hidden shadow-2xl h-[85vh] flex flex-col"
+      >
+        {/* Header */}
+        <div className="bg-brand-surface border-b border-brand-divider px-5 py-4 flex justify-between items-center">
+          <div>
+            <h2 className="text-h2 font-bold text-brand-text">Recently Removed</h2>
+            <p className="text-caption text-brand-text-secondary">Kept for 30 days, then deleted for good</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-9 h-9 bg-brand-surface-secondary rounded-full flex items-center justify-center text-brand-text-secondary hover:text-brand-text hover:bg-brand-divider transition"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 pb-20">
+          {items.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="w-12 h-12 bg-brand-surface rounded-full flex items-center justify-center text-brand-text-tertiary mx-auto mb-3">
+                <History size={24} />
+              </div>
+              <p className="text-brand-text-secondary font-medium">Nothing removed lately</p>
+            </div>
+          ) : (
+            <div className="bg-brand-surface rounded-2xl border border-brand-divider divide-y divide-brand-divider">
+              {items.map(item => {
+                const expiryLabel = formatExpiry(item.expiryDate);
+                return (
+                  <div key={item.id} className="p-4 flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-semibold text-brand-text text-h3 truncate">{item.name}</div>
+                      <div className="text-body text-brand-text-secondary">
+                        {item.quantity} {item.unit}
+                        {expiryLabel && <span className="text-brand-text-tertiary"> · {expiryLabel}</span>}
+                      </div>
+                      <div className="text-caption text-brand-text-tertiary">Removed {formatDistanceToNow(item.removedAt)} ago</div>
+                    </div>
+                    <button
+                      onClick={() => handleRestore(item.id)}
+                      aria-label={`Restore ${item.name}`}
+                      className="w-9 h-9 flex items-center justify-center rounded-full bg-brand-background text-brand-primary active:bg-brand-surface-secondary transition"
+                    >
+                      <RotateCcw size={18} />
+                    </button>
+                    {confirmPurgeId === item.id ? (
+                      <button
+                        onClick={() => handlePurge(item.id)}
+                        className="px-3 h-9 rounded-full bg-brand-secondary text-white text-caption font-bold active:scale-95 transition"
+                      >
+                        Delete
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handlePurge(item.id)}
+                        aria-label={`Delete ${item.name} forever`}
+                        className="w-9 h-9 flex items-center justify-center rounded-full bg-brand-background text-brand-error active:bg-brand-surface-secondary transition"
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </MotionDiv>
+    </>
+  );
+};
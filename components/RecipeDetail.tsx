@@ -1,11 +1,15 @@
 
-import React, { useMemo, useState, useEffect } from 'react';
-import { Recipe, PantryItem } from '../types';
+import React, { useMemo, useState, useEffect, useRef } from 'react';
+import { Recipe, PantryItem, Quantity } from '../types';
 import { ArrowLeft, Clock, Flame, Check, Play, Heart, Share, Plus, ShoppingBag, Sparkles, Loader2, X, Info } from 'lucide-react';
 import { useInventory } from '../context/InventoryContext';
 import { useRecipes } from '../context/RecipeContext';
 import { PieChart, Pie, Cell } from 'recharts';
 import { askAiAboutStep, isBasicStaple } from '../services/geminiService';
+import { isAbortError } from '../services/api';
+import { getIngredientQuantity } from '../services/quantityService';
+import { findBestMatch } from '../services/ingredientMatching';
+import { buildShoppingList } from '../services/shoppingListService';
 import { ChefMode } from './ChefMode';
 import { PantryUpdateModal } from './PantryUpdateModal';
 import toast from 'react-hot-toast';
@@ -16,7 +20,7 @@ import { APP_NAME } from '../brand';
 interface Props { recipe: Recipe; onBack: () => void; }
 
 export const RecipeDetail: React.FC<Props> = ({ recipe, onBack }) => {
-  const { addToShoppingList, consumeIngredients, pantry } = useInventory();
+  const { addShoppingItems, consumeIngredients, pantry } = useInventory();
   const { addRecipeToHistory, toggleBookmark, isBookmarked } = useRecipes();
   const [currentRecipe] = useState<Recipe>(recipe);
   const [prepList, setPrepList] = useState<string[]>([]);
@@ -26,7 +30,11 @@ export const RecipeDetail: React.FC<Props> = ({ recipe, onBack }) => {
   const [showFinishModal, setShowFinishModal] = useState(false);
   const [cookingOrigin, setCookingOrigin] = useState<{ x: number, y: number } | null>(null);
 
+  // Substitution lookup still running when the page closes
+  const substAbortRef = useRef<AbortController | null>(null);
+
   useEffect(() => { window.scrollTo(0, 0); }, []);
+  useEffect(() => () => substAbortRef.current?.abort(), []);
 
   const isSaved = isBookmarked(currentRecipe.id);
   const { available, missing } = useMemo(() => {
@@ -38,13 +46,20 @@ export const RecipeDetail: React.FC<Props> = ({ recipe, onBack }) => {
 
   const matchedPantryItems = useMemo(() => {
     return currentRecipe.ingredients.filter(i => i.isAvailableInPantry).map(ing => {
-      const match = pantry.find(p => p.name.toLowerCase().includes(ing.name.toLowerCase()) || ing.name.toLowerCase().includes(p.name.toLowerCase()));
-      return match ? { ingredient: ing.name, amount: ing.amount, pantryItem: match } : null;
-    }).filter(Boolean) as { ingredient: string, amount: string, pantryItem: PantryItem }[];
+      const match = findBestMatch(ing.name, pantry);
+      return match ? { ingredient: ing.name, amount: ing.amount, used: getIngredientQuantity(ing), pantryItem: match } : null;
+    }).filter(Boolean) as { ingredient: string, amount: string, used: Quantity, pantryItem: PantryItem }[];
   }, [currentRecipe, pantry]);
 
-  const handleAddToShop = () => { hapticSuccess(); addToShoppingList(missing.map(i => i.name)); toast.success("Added missing items to shopping list"); };
-  const handleFinishCooking = (usage: { pantryId: string, usedAmount: string }[]) => { hapticSuccess(); consumeIngredients(usage); addRecipeToHistory(currentRecipe); setShowFinishModal(false); onBack(); };
+  const handleAddToShop = () => {
+    hapticSuccess();
+    // Amounts still needed after what's in the pantry, tagged with this recipe
+    const items = buildShoppingList([currentRecipe], pantry);
+    if (items.length === 0) { toast.success("Your pantry already has everything"); return; }
+    if (addShoppingItems(items) === 0) { toast.success("Already on your shopping list"); return; }
+    toast.success("Added missing items to shopping list");
+  };
+  const handleFinishCooking = (usage: { pantryId: string, used: Quantity }[]) => { hapticSuccess(); consumeIngredients(usage); addRecipeToHistory(currentRecipe); setShowFinishModal(false); onBack(); };
 
   const handleShare = async () => {
     const shareData = { title: currentRecipe.title, text: `Check out this recipe for ${currentRecipe.title} on ${APP_NAME}!`, url: window.location.href };
@@ -70,8 +85,9 @@ export const RecipeDetail: React.FC<Props> = ({ recipe, onBack }) => {
   const handleFindSubstitutions = async () => {
     if (isLoadingSubst) return; setIsLoadingSubst(true);
     const missingNames = missing.map(i => i.name).join(", ");
-    try { const result = await askAiAboutStep(currentRecipe.title, `Missing Ingredients: ${missingNames}`, "Suggest simple, common substitutions."); setSubstResult(result); }
-    catch (e) { setSubstResult("Could not fetch substitutions."); } finally { setIsLoadingSubst(false); }
+    const controller = new AbortController(); substAbortRef.current = controller;
+    try { const result = await askAiAboutStep(currentRecipe.title, `Missing Ingredients: ${missingNames}`, "Suggest simple, common substitutions.", controller.signal); setSubstResult(result); }
+    catch (e) { if (!isAbortError(e)) setSubstResult("Could not fetch substitutions."); } finally { setIsLoadingSubst(false); }
   };
 
   const macroData = useMemo(() => {
@@ -3,14 +3,16 @@ import React, { useState, useRef, useEffect } from 'react';
 import { useInventory } from '../context/InventoryContext';
 import { useUser } from '../context/UserContext';
 import { useRecipes } from '../context/RecipeContext';
-import { generateRecipes, isBasicStaple } from '../services/geminiService';
-import { Recipe, CUISINES } from '../types';
+import { generateRecipes, generateRecipeThumbnail, isBasicStaple } from '../services/geminiService';
+import { isAbortError } from '../services/api';
+import { Recipe, CUISINES, AiQuota } from '../types';
 import { Sparkles, Clock, Heart, ArrowLeft, ArrowDown, Flame, Loader2, Leaf, SlidersHorizontal, ChevronUp, ChevronDown, Users, Home, Plus, Minus, Trash2 } from 'lucide-react';
 import { RecipeDetail } from './RecipeDetail';
 import { CookingLoader } from './CookingLoader';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { AdUnit } from './AdUnit';
 import toast from 'react-hot-toast';
+import { formatDistanceToNow } from 'date-fns';
 import { motion, AnimatePresence } from 'framer-motion';
 import { getOptimizedImageUrl } from '../services/supabase';
 import { hapticMedium, hapticSuccess } from '../utils/hapticService';
@@ -49,8 +51,12 @@ export const RecipeGenerator: React.FC = () => {
   const { generatedRecipes, setGeneratedRecipes, bookmarkedRecipes, history, toggleBookmark } = useRecipes();
   
   const [loading, setLoading] = useState(false);
+  // Recipes received so far in the current request (the loader hides after the first)
+  const [receivedCount, setReceivedCount] = useState(0);
+  const [pendingThumbnails, setPendingThumbnails] = useState<Set<string>>(new Set());
   const recipes = generatedRecipes;
   const [error, setError] = useState<string | null>(null);
+  const [quota, setQuota] = useState<AiQuota | null>(null);
   
   // Basic Filters
   const [mealType, setMealType] = useState('Dinner');
@@ -72,9 +78,18 @@ export const RecipeGenerator: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
   const isMounted = useRef(true);
-  const abortRef = useRef(false);
+  // In-flight generation request, and the thumbnails for the cards on screen
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const thumbnailsAbortRef = useRef<AbortController>(new AbortController());
   
-  useEffect(() => { isMounted.current = true; return () => { isMounted.current = false }; }, []);
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+      generationAbortRef.current?.abort();
+      thumbnailsAbortRef.current.abort();
+    };
+  }, []);
 
   // Handle URL & State
   useEffect(() => {
@@ -115,6 +130,20 @@ export const RecipeGenerator: React.FC = () => {
     }
   }, [location, pantry, navigate]); 
 
+  // Fill in a card's image once its thumbnail is ready (never blocks the list)
+  const loadThumbnail = (recipe: Recipe) => {
+    setPendingThumbnails(prev => new Set(prev).add(recipe.id));
+    generateRecipeThumbnail(recipe, thumbnailsAbortRef.current.signal).then(image => {
+      if (!isMounted.current) return;
+      if (image) setGeneratedRecipes(prev => prev.map(r => r.id === recipe.id ? { ...r, generatedImage: image } : r));
+      setPendingThumbnails(prev => {
+        const next = new Set(prev);
+        next.delete(recipe.id);
+        return next;
+      });
+    });
+  };
+
   const handleGenerate = async (append = false) => {
     if (pantry.length === 0) {
       setError("Can't cook with vibes alone. Add some food!");
@@ -122,28 +151,48 @@ export const RecipeGenerator: React.FC = () => {
     }
     
     hapticMedium();
-    abortRef.current = false;
+    generationAbortRef.current?.abort();
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
     setLoading(true);
-    if (!append) { setError(null); setGeneratedRecipes([]); }
+    setReceivedCount(0);
+    if (!append) {
+      setError(null);
+      setGeneratedRecipes([]);
+      // Old cards are gone, so are their pending images
+      thumbnailsAbortRef.current.abort();
+      thumbnailsAbortRef.current = new AbortController();
+      setPendingThumbnails(new Set());
+    }
+    let received = 0;
     
     try {
       const existingTitles = append ? recipes.map(r => r.title) : [];
       const recipeCount = append ? 3 : 4;
       
-      const results = await generateRecipes(
+      // Cards render as each recipe streams in
+      await generateRecipes(
           pantry, 
           preferences, 
           { mealType, timeAvailable, cuisine, heroIngredient, prioritizeExpiring, servings, homeStyle }, 
           existingTitles,
-          recipeCount
+          recipeCount,
+          {
+            signal: controller.signal,
+            onQuota: (next) => { if (isMounted.current) setQuota(next); },
+            onRecipe: (recipe) => {
+              if (!isMounted.current || controller.signal.aborted) return;
+              if (received === 0) hapticSuccess();
+              received++;
+              setReceivedCount(received);
+              setGeneratedRecipes(prev => [...prev, recipe]);
+              loadThumbnail(recipe);
+            }
+          }
       );
-      
-      if (!isMounted.current || abortRef.current) return;
-
-      hapticSuccess();
-      setGeneratedRecipes(append ? [...recipes, ...results] : results);
     } catch (err: any) {
-      if(isMounted.current && !abortRef.current) {
+      // Recipes that already arrived stay on screen; only report a failure with nothing to show
+      if(isMounted.current && !controller.signal.aborted && !isAbortError(err) && received === 0) {
         console.error('Recipe generation error:', err);
         
         let errorMessage = "Chef's brain freeze. Try again?";
@@ -152,6 +201,10 @@ export const RecipeGenerator: React.FC = () => {
           errorMessage = "Taking too long... Check your connection and try again.";
         } else if (err.message?.includes('Network error') || err.message?.includes('network')) {
           errorMessage = "No connection. Check your internet and try again.";
+        } else if (err.code === 'DAILY_QUOTA_EXCEEDED') {
+          errorMessage = preferences.isPro
+            ? "That's all the cooking for today. Back at it tomorrow!"
+            : "That's all your free generations for today. Upgrade to Pro for more!";
         } else if (err.status === 429) {
           errorMessage = "Too many requests. Wait a moment and try again.";
         } else if (err.status === 500 || err.code === 'GENERATION_ERROR') {
@@ -164,12 +217,16 @@ export const RecipeGenerator: React.FC = () => {
         toast.error(errorMessage);
       }
     } finally {
-      if(isMounted.current && !abortRef.current) setLoading(false);
+      if(isMounted.current && generationAbortRef.current === controller) {
+        generationAbortRef.current = null;
+        setLoading(false);
+      }
     }
   };
 
   const handleCancel = () => {
-      abortRef.current = true;
+      generationAbortRef.current?.abort();
+      generationAbortRef.current = null;
       setLoading(false);
   };
 
@@ -479,6 +536,14 @@ export const RecipeGenerator: React.FC = () => {
             >
                 {loading ? <span className="flex items-center gap-2"><Loader2 className="animate-spin" /> Thinking...</span> : "Let's Cook"}
             </button>
+            {/* Daily quota: #A0A0A0 | Used up: #F87171 */}
+            {quota && quota.remaining !== null && (
+              <p className={`text-caption text-center mt-2 ${quota.remaining === 0 ? 'text-brand-error' : 'text-brand-text-secondary'}`}>
+                {quota.remaining === 0
+                  ? `No generations left today. Resets ${formatDistanceToNow(new Date(quota.resetAt), { addSuffix: true })}.`
+                  : `${quota.remaining} generation${quota.remaining === 1 ? '' : 's'} left today`}
+              </p>
+            )}
           </div>
 
           {/* Error message - red theme */}
@@ -497,12 +562,17 @@ export const RecipeGenerator: React.FC = () => {
                   onClick={() => setSelectedRecipe(recipe)} 
                   className="group relative h-[320px] w-full text-left rounded-[24px] overflow-hidden bg-brand-surface shadow-xl shadow-black/20 cursor-pointer active:scale-[0.98] transition-all focus:outline-none focus:ring-4 focus:ring-brand-primary/20"
                 >
-                    <img 
-                        src={getOptimizedImageUrl(recipe.generatedImage, 600) || `https://picsum.photos/seed/${recipe.id}/600/400`} 
-                        className="absolute inset-0 w-full h-full object-cover transition-transform duration-700 group-hover:scale-105" 
-                        loading={index < 2 ? "eager" : "lazy"} 
-                        decoding="async" 
-                    />
+                    {/* Thumbnail placeholder - #2A2A2A shimmer until the image arrives */}
+                    {!recipe.generatedImage && pendingThumbnails.has(recipe.id) ? (
+                        <div className="absolute inset-0 bg-brand-surface-secondary animate-pulse" />
+                    ) : (
+                        <img 
+                            src={getOptimizedImageUrl(recipe.generatedImage, 600) || `https://picsum.photos/seed/${recipe.id}/600/400`} 
+                            className="absolute inset-0 w-full h-full object-cover transition-transform duration-700 group-hover:scale-105 animate-in fade-in" 
+                            loading={index < 2 ? "eager" : "lazy"} 
+                            decoding="async" 
+                        />
+                    )}
                     {/* Gradient overlay */}
                     <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-black/40 to-transparent" />
                     
@@ -537,8 +607,22 @@ export const RecipeGenerator: React.FC = () => {
               </React.Fragment>
             )})}
             
+            {/* More recipes still streaming in - #1A1A1A surface | Stop: #2A2A2A */}
+            {loading && receivedCount > 0 && (
+              <div className="w-full py-3 pl-4 pr-3 bg-brand-surface rounded-2xl border border-black/5 flex items-center gap-2 text-brand-text-secondary text-body font-medium">
+                <Loader2 size={18} className="animate-spin text-brand-primary" />
+                <span className="flex-1">Cooking up more...</span>
+                <button
+                  onClick={handleCancel}
+                  className="px-4 py-1.5 bg-brand-surface-secondary text-brand-text rounded-full text-caption font-bold uppercase tracking-wide active:scale-95 transition"
+                >
+                  Stop
+                </button>
+              </div>
+            )}
+
             {/* Load More button - #1A1A1A surface, #FFC244 yellow text */}
-            {recipes.length > 0 && (
+            {recipes.length > 0 && !(loading && receivedCount > 0) && (
               <button 
                 onClick={handleLoadMore} 
                 disabled={loading} 
@@ -548,7 +632,7 @@ export const RecipeGenerator: React.FC = () => {
               </button>
             )}
           </div>
-          {loading && <CookingLoader onCancel={handleCancel} />}
+          {loading && receivedCount === 0 && <CookingLoader onCancel={handleCancel} />}
         </MotionDiv>
       )}
     </AnimatePresence>
@@ -0,0 +1,257 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { addDays, format, parseISO } from 'date-fns';
+import { X, ArrowLeft, Check, ChefHat, ListPlus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useInventory } from '../context/InventoryContext';
+import { useRecipes } from '../context/RecipeContext';
+import { useMealPlan, toPlanDate } from '../context/MealPlanContext';
+import { useUser } from '../context/UserContext';
+import { buildShoppingList, formatShoppingAmount, getAisleOrder, groupByAisle } from '../services/shoppingListService';
+import { getOptimizedImageUrl } from '../services/supabase';
+import { Recipe } from '../types';
+import { hapticLight, hapticSuccess } from '../utils/hapticService';
+
+/**
+ * 🎨 RECIPE SHOPPING MODAL COLOR REFERENCE (Dark Mode)
+ * =====================================================
+ * Background:     #0D0D0D (modal background, recipe rows)
+ * Surface:        #1A1A1A (header, preview cards)
+ * Surface Alt:    #2A2A2A (tabs, close button)
+ * Brand Yellow:   #FFC244 (active tab, selected check)
+ * Button Purple:  #7C3AED (build / add buttons)
+ */
+
+const MotionDiv = motion.div as any;
+
+type RecipeSource = 'plan' | 'saved' | 'generated';
+
+const SOURCE_TABS: { id: RecipeSource; label: string }[] = [
+  { id: 'plan', label: 'Next 7 days' },
+  { id: 'saved', label: 'Saved' },
+  { id: 'generated', label: 'Just generated' },
+];
+
+// A selectable row; a recipe planned twice is two rows (and bought for twice)
+interface RecipeOption {
+  key: string;
+  recipe: Recipe;
+  caption: string;
+}
+
+interface Props { onClose: () => void; }
+
+export const RecipeShoppingModal: React.FC<Props> = ({ onClose }) => {
+  const { pantry, addShoppingItems } = useInventory();
+  const { bookmarkedRecipes, generatedRecipes } = useRecipes();
+  const { plan } = useMealPlan();
+  const { preferences } = useUser();
+  const [selected, setSelected] = useState<Map<string, Recipe>>(new Map());
+  const [isReviewing, setIsReviewing] = useState(false);
+
+  const options = useMemo<Record<RecipeSource, RecipeOption[]>>(() => {
+    const today = toPlanDate(new Date());
+    const lastDay = toPlanDate(addDays(new Date(), 6));
+    const upcoming = plan
+      .filter(m => m.date >= today && m.date <= lastDay)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const toOption = (recipe: Recipe): RecipeOption => ({ key: `recipe:${recipe.id}`, recipe, caption: `${recipe.ingredients.length} ingredients` });
+    return {
+      plan: upcoming.map(m => ({ key: `plan:${m.id}`, recipe: m.recipe, caption: `${format(parseISO(m.date), 'EEE, MMM d')} · ${m.slot}` })),
+      saved: bookmarkedRecipes.map(toOption),
+      generated: generatedRecipes.map(toOption),
+    };
+  }, [plan, bookmarkedRecipes, generatedRecipes]);
+
+  // Start on whichever list has something in it
+  const [source, setSource] = useState<RecipeSource>(() =>
+    options.plan.length > 0 ? 'plan' : options.saved.length > 0 ? 'saved' : 'generated'
+  );
+
+  const preview = useMemo(
+    () => isReviewing ? buildShoppingList([...selected.values()], pantry) : [],
+    [isReviewing, selected, pantry]
+  );
+
+  // Same aisle order as the list itself
+  const previewByCategory = useMemo(() => {
+    const activeStore = preferences.storeLayouts.find(s => s.id === preferences.activeStoreId);
+    return groupByAisle(preview, getAisleOrder(activeStore));
+  }, [preview, preferences]);
+
+  const toggleOption = (option: RecipeOption) => {
+    hapticLight();
+    setSelected(prev => {
+      const next = new Map(prev);
+      if (next.has(option.key)) next.delete(option.key);
+      else next.set(option.key, option.recipe);
+      return next;
+    });
+  };
+
+  const handleAdd = () => {
+    hapticSuccess();
+    const added = addShoppingItems(preview);
+    toast.success(added === 0
+      ? "Already on your shopping list"
+      : `Added ${added} item${added === 1 ? '' : 's'} to your list`);
+    onClose();
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <MotionDiv
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100]"
+      />
+
+      {/* Modal */}
+      <MotionDiv
+        initial={{ y: "100%" }}
+        animate={{ y: 0 }}
+        exit={{ y: "100%" }}
+        transition={{ type: "spring", damping: 25, stiffness: 200 }}
+        className="fixed bottom-0 left-0 right-0 z-[110] bg-brand-background rounded-t-[32px] overflow-hidden shadow-2xl h-[85vh] flex flex-col"
+      >
+        {/* Header */}
+        <div className="bg-brand-surface border-b border-brand-divider px-5 py-4 flex justify-between items-center gap-3">
+          {isReviewing && (
+            <button
+              onClick={() => setIsReviewing(false)}
+              aria-label="Back to recipes"
+              className="w-9 h-9 bg-brand-surface-secondary rounded-full flex items-center justify-center text-brand-text-secondary hover:text-brand-text transition"
+            >
+              <ArrowLeft size={18} />
+            </button>
+          )}
+          <div className="flex-1 min-w-0">
+            <h2 className="text-h2 font-bold text-brand-text">{isReviewing ? 'Your Shopping List' : 'Shop for Recipes'}</h2>
+            <p className="text-caption text-brand-text-secondary">
+              {isReviewing
+                ? `For ${selected.size} recipe${selected.size === 1 ? '' : 's'}, minus what's in your pantry`
+                : 'Pick recipes to combine into one list'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="w-9 h-9 bg-brand-surface-secondary rounded-full flex items-center justify-center text-brand-text-secondary hover:text-brand-text hover:bg-brand-divider transition"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {!isReviewing ? (
+          <>
+            {/* ========== RECIPE SOURCE TABS ========== */}
+            <div className="flex gap-2 px-5 pt-4">
+              {SOURCE_TABS.map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => setSource(tab.id)}
+                  className={`px-3 py-1.5 rounded-full text-caption font-semibold transition ${source === tab.id ? 'bg-brand-primary text-black' : 'bg-brand-surface-secondary text-brand-text-secondary'}`}
+                >
+                  {tab.label} ({options[tab.id].length})
+                </button>
+              ))}
+            </div>
+
+            {/* ========== RECIPE PICKER ========== */}
+            <div className="flex-1 overflow-y-auto p-5 space-y-2">
+              {options[source].length === 0 ? (
+                <div className="text-center py-12">
+                  <ChefHat size={28} className="text-brand-text-secondary mx-auto mb-2" />
+                  <p className="text-body text-brand-text-secondary">
+                    {source === 'plan' ? 'Nothing planned for the next week.' : source === 'saved' ? 'No saved recipes yet.' : 'No fresh ideas yet.'}
+                  </p>
+                </div>
+              ) : (
+                options[source].map(option => {
+                  const isSelected = selected.has(option.key);
+                  return (
+                    <button
+                      key={option.key}
+                      onClick={() => toggleOption(option)}
+                      aria-pressed={isSelected}
+                      className={`w-full flex items-center gap-3 bg-brand-surface rounded-xl p-2 text-left border transition active:scale-[0.98] ${isSelected ? 'border-brand-primary' : 'border-brand-divider'}`}
+                    >
+                      <img
+                        src={getOptimizedImageUrl(option.recipe.generatedImage, 120) || `https://picsum.photos/seed/${option.recipe.id}/120/120`}
+                        alt=""
+                        className="w-12 h-12 rounded-lg object-cover shrink-0"
+                        loading="lazy"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="text-body font-medium text-brand-text truncate">{option.recipe.title}</div>
+                        <div className="text-caption text-brand-text-secondary capitalize">{option.caption}</div>
+                      </div>
+                      <div className={`w-6 h-6 rounded-full flex items-center justify-center shrink-0 mr-1 ${isSelected ? 'bg-brand-primary text-black' : 'border-2 border-brand-divider'}`}>
+                        {isSelected && <Check size={14} strokeWidth={3} />}
+                      </div>
+                    </button>
+                  );
+                })
+              )}
+            </div>
+
+            <div className="p-5 pt-3 pb-safe border-t border-brand-divider bg-brand-surface">
+              <button
+                onClick={() => setIsReviewing(true)}
+                disabled={selected.size === 0}
+                className="w-full py-3.5 bg-brand-button-primary hover:bg-brand-button-primary-hover text-white font-bold text-h3 rounded-full active:scale-95 transition disabled:opacity-40 disabled:active:scale-100"
+              >
+                {selected.size === 0 ? 'Select recipes' : `Build list for ${selected.size} recipe${selected.size === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            {/* ========== CONSOLIDATED PREVIEW ========== */}
+            <div className="flex-1 overflow-y-auto p-5 space-y-5">
+              {preview.length === 0 ? (
+                <div className="text-center py-12">
+                  <div className="w-12 h-12 bg-brand-surface rounded-full flex items-center justify-center text-brand-text-tertiary mx-auto mb-3">
+                    <Check size={24} />
+                  </div>
+                  <p className="text-brand-text-secondary font-medium">Your pantry already covers these recipes.</p>
+                </div>
+              ) : (
+                previewByCategory.map(group => (
+                  <div key={group.category}>
+                    <h3 className="text-caption font-bold text-brand-text-secondary uppercase tracking-wider px-1 mb-2">{group.category}</h3>
+                    <div className="bg-brand-surface rounded-2xl border border-brand-divider divide-y divide-brand-divider">
+                      {group.items.map(item => (
+                        <div key={`${item.name}-${item.unit}`} className="p-3.5 flex items-center gap-3">
+                          <div className="flex-1 min-w-0">
+                            <div className="font-semibold text-brand-text text-body truncate">{item.name}</div>
+                            <div className="text-caption text-brand-text-tertiary truncate">
+                              For {item.sourceRecipes?.map(r => r.title).join(', ')}
+                            </div>
+                          </div>
+                          <span className="text-body font-medium text-brand-text-secondary shrink-0">{formatShoppingAmount(item)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="p-5 pt-3 pb-safe border-t border-brand-divider bg-brand-surface">
+              <button
+                onClick={preview.length > 0 ? handleAdd : onClose}
+                className="w-full py-3.5 bg-brand-button-primary hover:bg-brand-button-primary-hover text-white font-bold text-h3 rounded-full active:scale-95 transition flex items-center justify-center gap-2"
+              >
+                {preview.length > 0 ? <><ListPlus size={20} /> Add {preview.length} item{preview.length === 1 ? '' : 's'}</> : 'Done'}
+              </button>
+            </div>
+          </>
+        )}
+      </MotionDiv>
+    </>
+  );
+};
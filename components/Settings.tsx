@@ -1,13 +1,17 @@
 
 import React, { useState, useEffect } from 'react';
 import { useUser } from '../context/UserContext';
-import { Diet, CUISINES } from '../types';
-import { Plus, Minus, X, Check, Flame, ChefHat, Tag, Star, Bug, FileText, ChevronRight, HelpCircle, User, LogOut, Settings as SettingsIcon, Sparkles, Sun, Moon, Monitor } from 'lucide-react';
+import { Diet, CUISINES, AiUsageEntry } from '../types';
+import { Plus, Minus, X, Check, Flame, ChefHat, Tag, Star, Bug, FileText, ChevronRight, HelpCircle, User, LogOut, Settings as SettingsIcon, Sparkles, Sun, Moon, Monitor, Users, BarChart3 } from 'lucide-react';
 import { useTheme } from '../context/ThemeContext';
 import { FeedbackModal } from './FeedbackModal';
 import { ManageAccountModal } from './ManageAccountModal';
+import { HouseholdModal } from './HouseholdModal';
+import { useHousehold } from '../context/HouseholdContext';
 import { CONFIG } from '../config';
 import { supabase } from '../services/supabase';
+import { loadAiUsageSummary } from '../services/storageService';
+import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 import { motion, AnimatePresence } from 'framer-motion';
 import { APP_NAME, MESSAGES, LINKS } from '../brand';
@@ -34,6 +38,17 @@ import { APP_NAME, MESSAGES, LINKS } from '../brand';
 
 const MotionDiv = motion.div as any;
 
+// AI features in the usage summary, in display order
+const USAGE_LABELS: Record<AiUsageEntry['endpoint'], string> = {
+    'generate-recipes': 'Recipe generations',
+    'generate-thumbnail': 'Recipe images',
+    'parse-pantry': 'Pantry scans',
+    'ask-step': 'Chef questions'
+};
+
+const formatTokens = (tokens: number): string =>
+    tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : tokens.toString();
+
 const APPLIANCES_LIST = ["Stove", "Oven", "Microwave", "Air Fryer", "Blender", "Food Processor", "Instant Pot", "Grill", "Toaster"];
 
 // Section component with optional icon
@@ -138,9 +153,12 @@ export const Settings: React.FC = () => {
   const { theme, setTheme, isDark } = useTheme();
   const [showFeedback, setShowFeedback] = useState(false);
   const [showAccountModal, setShowAccountModal] = useState(false);
+  const [showHouseholdModal, setShowHouseholdModal] = useState(false);
+  const { household, pendingInvites } = useHousehold();
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
   const [userEmail, setUserEmail] = useState<string | null>(null);
   const [userName, setUserName] = useState<string>('Chef');
+  const [aiUsage, setAiUsage] = useState<AiUsageEntry[] | null | undefined>(undefined); // undefined while loading
 
   useEffect(() => {
       supabase.auth.getSession().then(({ data: { session } }) => { 
@@ -148,8 +166,11 @@ export const Settings: React.FC = () => {
           const name = session?.user?.user_metadata?.full_name || session?.user?.email?.split('@')[0] || 'Chef';
           setUserName(name.split(' ')[0]);
       });
+      loadAiUsageSummary().then(setAiUsage);
   }, []);
 
+  const totalTokens = (aiUsage || []).reduce((sum, e) => sum + e.inputTokens + e.outputTokens, 0);
+
   const handleLogout = async () => { 
       setShowLogoutConfirm(false);
       try { 
@@ -305,6 +326,54 @@ export const Settings: React.FC = () => {
           </div>
         </Section>
 
+        {/* AI Usage - this month's ledger totals | Failed: #F87171 */}
+        <Section title="AI Usage" icon={<BarChart3 size={14} />} hint={format(new Date(), 'MMMM')}>
+          {aiUsage === null ? (
+            <div className="p-4 text-caption text-brand-text-secondary">Usage is available when you're online.</div>
+          ) : (
+            <div className="divide-y divide-brand-divider">
+              {(Object.keys(USAGE_LABELS) as AiUsageEntry['endpoint'][]).map(endpoint => {
+                const entry = aiUsage?.find(e => e.endpoint === endpoint);
+                return (
+                  <div key={endpoint} className="flex items-center justify-between px-4 py-3">
+                    <span className="text-body text-brand-text">{USAGE_LABELS[endpoint]}</span>
+                    <span className="text-body font-semibold text-brand-text">
+                      {aiUsage === undefined ? '–' : entry?.calls || 0}
+                      {!!entry?.failures && <span className="text-caption font-medium text-brand-error ml-1.5">({entry.failures} failed)</span>}
+                    </span>
+                  </div>
+                );
+              })}
+              {totalTokens > 0 && (
+                <div className="px-4 py-3 text-caption text-brand-text-tertiary">{formatTokens(totalTokens)} AI tokens used</div>
+              )}
+            </div>
+          )}
+        </Section>
+
+        {/* Household */}
+        <Section title="Household" icon={<Users size={14} />} hint="Shared pantry & list">
+          <button 
+            onClick={() => setShowHouseholdModal(true)} 
+            className="w-full flex items-center justify-between p-4 hover:bg-brand-background active:bg-brand-surface-secondary transition"
+          >
+            <div className="flex items-center gap-3">
+              <div className="w-9 h-9 bg-brand-primary/20 rounded-2xl flex items-center justify-center">
+                <Users size={16} className="text-brand-primary" />
+              </div>
+              <div className="text-left">
+                <span className="text-body font-semibold text-brand-text block">{household?.name || 'My Household'}</span>
+                <span className="text-caption text-brand-text-tertiary">
+                  {pendingInvites.length > 0
+                    ? `${pendingInvites.length} pending ${pendingInvites.length === 1 ? 'invite' : 'invites'}`
+                    : `${household?.members.length || 1} ${(household?.members.length || 1) === 1 ? 'member' : 'members'}`}
+                </span>
+              </div>
+            </div>
+            <ChevronRight size={16} className="text-brand-text-tertiary" />
+          </button>
+        </Section>
+
         {/* ========== PREFERENCES GROUP ========== */}
         <GroupHeader title="Preferences" emoji="⚙️" />
 
@@ -563,6 +632,7 @@ export const Settings: React.FC = () => {
       
       {showFeedback && <FeedbackModal onClose={() => setShowFeedback(false)} />}
       {showAccountModal && <ManageAccountModal onClose={() => setShowAccountModal(false)} />}
+      {showHouseholdModal && <HouseholdModal onClose={() => setShowHouseholdModal(false)} />}
       
       {/* Sign Out Confirmation Modal */}
       <AnimatePresence>
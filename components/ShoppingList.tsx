@@ -1,11 +1,17 @@
 
 import React, { useState, useMemo } from 'react';
 import { useInventory } from '../context/InventoryContext';
-import { Trash2, Circle, CheckCircle2, X, ShoppingBag, ChevronDown, ChevronRight, Share, Plus, RefreshCw } from 'lucide-react';
-import { UNITS, PANTRY_CATEGORIES } from '../types';
+import { useUser } from '../context/UserContext';
+import { Trash2, Circle, CheckCircle2, X, ShoppingBag, ChevronDown, ChevronRight, Share, Plus, RefreshCw, ListPlus, Tag, Pencil, Store as StoreIcon, PackageCheck } from 'lucide-react';
+import { UNITS, PANTRY_CATEGORIES, CATEGORY_ICONS, ShoppingItem, StoreLayout } from '../types';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
 import { hapticSuccess } from '../utils/hapticService';
+import { formatShoppingAmount, getAisleOrder, groupByAisle, toPantryDraft } from '../services/shoppingListService';
+import { suggestExpiryDate } from '../services/shelfLifeService';
+import { RecipeShoppingModal } from './RecipeShoppingModal';
+import { StoreLayoutModal } from './StoreLayoutModal';
+import { PutAwayModal } from './PutAwayModal';
 import { Share as CapacitorShare } from '@capacitor/share';
 import { Capacitor } from '@capacitor/core';
 
@@ -33,18 +39,34 @@ const MotionDiv = motion.div as any;
 const MotionButton = motion.button as any;
 
 export const ShoppingList: React.FC = () => {
-  const { shoppingList, addToShoppingList, toggleShoppingItem, removeShoppingItem, clearCheckedItems, addPantryItem, pantry, recentEmptyItems } = useInventory();
+  const { shoppingList, addToShoppingList, toggleShoppingItem, updateShoppingItem, removeShoppingItem, clearCheckedItems, putAwayShoppingItems, pantry, recentEmptyItems } = useInventory();
   const [newItem, setNewItem] = useState('');
   const [showCompleted, setShowCompleted] = useState(true);
-  const [confirmingItem, setConfirmingItem] = useState<{id: string, name: string} | null>(null);
+  const [confirmingItem, setConfirmingItem] = useState<ShoppingItem | null>(null);
   const [buyQty, setBuyQty] = useState('1');
   const [buyUnit, setBuyUnit] = useState('pcs');
   const [buyCategory, setBuyCategory] = useState('General');
   const [buyExpiry, setBuyExpiry] = useState('');
+  const [buyExpiryEdited, setBuyExpiryEdited] = useState(false);
+  const [puttingAway, setPuttingAway] = useState<ShoppingItem[] | null>(null);
   const [showRestock, setShowRestock] = useState(false);
+  const [showRecipeShopping, setShowRecipeShopping] = useState(false);
+  const [editingStore, setEditingStore] = useState<StoreLayout | 'new' | null>(null);
+  const { preferences, updatePreferences } = useUser();
 
   const activeItems = shoppingList.filter(i => !i.checked);
   const completedItems = shoppingList.filter(i => i.checked);
+  // Bought with "Just mark complete", still waiting to go in the pantry
+  const unstoredItems = completedItems.filter(i => !i.putAway);
+
+  // Unticked items in the order the chosen store's aisles are walked
+  const activeStore = preferences.storeLayouts.find(s => s.id === preferences.activeStoreId);
+  const aisles = useMemo(() => groupByAisle(activeItems, getAisleOrder(activeStore)), [shoppingList, activeStore]);
+
+  const selectStore = (storeId: string | undefined) => {
+      if (storeId === preferences.activeStoreId) return;
+      updatePreferences({ ...preferences, activeStoreId: storeId });
+  };
 
   const handleAdd = (e: React.FormEvent) => {
       e.preventDefault();
@@ -55,24 +77,36 @@ export const ShoppingList: React.FC = () => {
       }
   };
 
-  const handleItemClick = (item: any) => {
+  const handleItemClick = (item: ShoppingItem) => {
+      // Pre-fill from the list entry: its amount, aisle and a typical shelf life
+      const draft = toPantryDraft(item);
       setConfirmingItem(item);
-      setBuyQty('1'); setBuyUnit('pcs'); setBuyCategory('General'); setBuyExpiry('');
+      setBuyQty(draft.quantity); setBuyUnit(draft.unit); setBuyCategory(draft.category); setBuyExpiry(draft.expiryDate || '');
+      setBuyExpiryEdited(false);
+  };
+
+  const handleBuyCategoryChange = (category: string) => {
+      setBuyCategory(category);
+      if (confirmingItem && !buyExpiryEdited) setBuyExpiry(suggestExpiryDate(confirmingItem.name, category));
   };
 
   const confirmPurchase = (addToPantry: boolean) => {
       if (!confirmingItem) return;
       hapticSuccess();
       if (addToPantry) {
-          addPantryItem({
-              name: confirmingItem.name,
-              quantity: buyQty,
-              unit: buyUnit,
-              category: buyCategory,
-              expiryDate: buyExpiry || undefined
-          });
+          putAwayShoppingItems([{
+              id: confirmingItem.id,
+              item: {
+                  name: confirmingItem.name,
+                  quantity: buyQty.trim() || '1',
+                  unit: buyUnit,
+                  category: buyCategory,
+                  expiryDate: buyExpiry || undefined
+              }
+          }]);
+      } else {
+          toggleShoppingItem(confirmingItem.id);
       }
-      toggleShoppingItem(confirmingItem.id);
       setConfirmingItem(null);
   };
 
@@ -82,7 +116,7 @@ export const ShoppingList: React.FC = () => {
           return;
       }
       
-      const text = `🛒 The Haul (${new Date().toLocaleDateString()}):\n\n` + activeItems.map(i => `☐ ${i.name}`).join('\n');
+      const text = `🛒 The Haul (${new Date().toLocaleDateString()}):\n\n` + aisles.flatMap(aisle => aisle.items).map(i => `☐ ${i.name}${i.quantity !== undefined ? ` (${formatShoppingAmount(i)})` : ''}`).join('\n');
       
       const doCopy = async () => {
           try { 
@@ -184,16 +218,26 @@ export const ShoppingList: React.FC = () => {
                 {activeItems.length} to buy • {completedItems.length} done
               </p>
             </div>
-            {/* Share button - black bg on yellow header */}
-            {activeItems.length > 0 && (
+            <div className="flex items-center gap-2">
+              {/* From recipes button - black bg on yellow header */}
               <button 
-                onClick={handleShare} 
-                aria-label="Share shopping list" 
+                onClick={() => setShowRecipeShopping(true)} 
+                aria-label="Add ingredients from recipes" 
                 className="w-10 h-10 bg-black/10 rounded-full flex items-center justify-center text-black active:scale-90 transition"
               >
-                <Share size={20} strokeWidth={2.5} />
+                <ListPlus size={20} strokeWidth={2.5} />
               </button>
-            )}
+              {/* Share button - black bg on yellow header */}
+              {activeItems.length > 0 && (
+                <button 
+                  onClick={handleShare} 
+                  aria-label="Share shopping list" 
+                  className="w-10 h-10 bg-black/10 rounded-full flex items-center justify-center text-black active:scale-90 transition"
+                >
+                  <Share size={20} strokeWidth={2.5} />
+                </button>
+              )}
+            </div>
           </div>
           
           {/* Add item input in header - white bg */}
@@ -278,40 +322,105 @@ export const ShoppingList: React.FC = () => {
             </div>
         )}
 
-        {/* ========== ACTIVE ITEMS LIST ========== */}
+        {/* ========== STORE PICKER (AISLE ORDER) ========== */}
         {activeItems.length > 0 && (
-          <h2 className="text-caption font-bold text-brand-text-secondary uppercase tracking-wider px-1">
-            🛍️ To Buy ({activeItems.length})
-          </h2>
-        )}
-        <div className="space-y-3" role="list" aria-label="Shopping items">
-            {activeItems.map((item) => (
-              <div 
-                key={item.id} 
-                /* Item card - #1A1A1A surface */
-                className="group bg-brand-surface rounded-2xl p-4 shadow-sm border border-black/5 flex items-center justify-between" 
-                role="listitem"
+          <div className="space-y-2.5">
+            <h2 className="text-caption font-bold text-brand-text-secondary uppercase tracking-wider px-1">
+              🛍️ To Buy ({activeItems.length})
+            </h2>
+            <div className="flex items-center gap-2 overflow-x-auto no-scrollbar -mx-5 px-5">
+              {/* Store chips - active #FFC244 yellow, others #2A2A2A */}
+              <button
+                onClick={() => selectStore(undefined)}
+                className={`shrink-0 px-3 py-1.5 rounded-full text-caption font-semibold transition ${!activeStore ? 'bg-brand-primary text-black' : 'bg-brand-surface-secondary text-brand-text-secondary'}`}
               >
-                <button 
-                  onClick={() => handleItemClick(item)} 
-                  aria-label={`Mark ${item.name} as bought`} 
-                  className="flex items-center gap-3.5 flex-1 text-left"
-                >
-                  {/* Circle icon - #6B6B6B tertiary, hover #FFC244 yellow */}
-                  <div className="text-brand-text-tertiary group-hover:text-brand-primary transition-colors active:scale-90">
-                    <Circle size={26} strokeWidth={1.5} />
-                  </div>
-                  {/* Item name - #FFFFFF white */}
-                  <span className="text-h3 text-brand-text font-semibold leading-tight">{item.name}</span>
-                </button>
-                {/* Delete button - #6B6B6B tertiary, hover #F87171 red */}
-                <button 
-                  onClick={() => removeShoppingItem(item.id)} 
-                  aria-label={`Remove ${item.name} from list`} 
-                  className="text-brand-text-tertiary hover:text-brand-error transition p-2 -mr-2 active:scale-90"
+                Default order
+              </button>
+              {preferences.storeLayouts.map(store => (
+                <button
+                  key={store.id}
+                  onClick={() => store.id === activeStore?.id ? setEditingStore(store) : selectStore(store.id)}
+                  className={`shrink-0 px-3 py-1.5 rounded-full text-caption font-semibold transition flex items-center gap-1.5 ${store.id === activeStore?.id ? 'bg-brand-primary text-black' : 'bg-brand-surface-secondary text-brand-text-secondary'}`}
                 >
-                  <Trash2 size={20} strokeWidth={1.5} />
+                  <StoreIcon size={12} /> {store.name}
+                  {store.id === activeStore?.id && <Pencil size={11} className="opacity-60" />}
                 </button>
+              ))}
+              <button
+                onClick={() => setEditingStore('new')}
+                aria-label="Add a store layout"
+                className="shrink-0 px-3 py-1.5 rounded-full text-caption font-semibold bg-brand-surface-secondary text-brand-text-secondary flex items-center gap-1 active:scale-95 transition"
+              >
+                <Plus size={12} /> Store
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* ========== ACTIVE ITEMS BY AISLE ========== */}
+        <div className="space-y-5">
+            {aisles.map(aisle => (
+              <div key={aisle.category}>
+                {/* Aisle header - #A0A0A0 muted */}
+                <h3 className="flex items-center gap-1.5 text-caption font-bold text-brand-text-secondary uppercase tracking-wider px-1 mb-2">
+                  <span className="text-base">{CATEGORY_ICONS[aisle.category] || '📦'}</span>
+                  {aisle.category}
+                  <span className="text-brand-text-tertiary font-medium">({aisle.items.length})</span>
+                </h3>
+                <div className="space-y-3" role="list" aria-label={`${aisle.category} items`}>
+                  {aisle.items.map((item) => (
+                    <div 
+                      key={item.id} 
+                      /* Item card - #1A1A1A surface */
+                      className="group bg-brand-surface rounded-2xl p-4 shadow-sm border border-black/5 flex items-center justify-between" 
+                      role="listitem"
+                    >
+                      <button 
+                        onClick={() => handleItemClick(item)} 
+                        aria-label={`Mark ${item.name} as bought`} 
+                        className="flex items-center gap-3.5 flex-1 min-w-0 text-left"
+                      >
+                        {/* Circle icon - #6B6B6B tertiary, hover #FFC244 yellow */}
+                        <div className="text-brand-text-tertiary group-hover:text-brand-primary transition-colors active:scale-90">
+                          <Circle size={26} strokeWidth={1.5} />
+                        </div>
+                        <div className="min-w-0">
+                          {/* Item name - #FFFFFF white, amount - #A0A0A0 muted */}
+                          <div className="text-h3 text-brand-text font-semibold leading-tight">
+                            {item.name}
+                            {item.quantity !== undefined && <span className="text-body text-brand-text-secondary font-medium"> · {formatShoppingAmount(item)}</span>}
+                          </div>
+                          {/* Source recipes - #6B6B6B tertiary */}
+                          {item.sourceRecipes && item.sourceRecipes.length > 0 && (
+                            <div className="text-caption text-brand-text-tertiary truncate mt-0.5">
+                              For {item.sourceRecipes.map(r => r.title).join(', ')}
+                            </div>
+                          )}
+                        </div>
+                      </button>
+                      {/* Move to another aisle - #6B6B6B tertiary (native select over the icon) */}
+                      <div className="relative text-brand-text-tertiary hover:text-brand-text transition p-2">
+                        <Tag size={18} strokeWidth={1.5} />
+                        <select
+                          value={aisle.category}
+                          onChange={e => updateShoppingItem(item.id, { category: e.target.value })}
+                          aria-label={`Aisle for ${item.name}`}
+                          className="absolute inset-0 opacity-0 cursor-pointer"
+                        >
+                          {PANTRY_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                      </div>
+                      {/* Delete button - #6B6B6B tertiary, hover #F87171 red */}
+                      <button 
+                        onClick={() => removeShoppingItem(item.id)} 
+                        aria-label={`Remove ${item.name} from list`} 
+                        className="text-brand-text-tertiary hover:text-brand-error transition p-2 -mr-2 active:scale-90"
+                      >
+                        <Trash2 size={20} strokeWidth={1.5} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
               </div>
             ))}
         </div>
@@ -338,6 +447,15 @@ export const ShoppingList: React.FC = () => {
                     </button>
                   )}
                 </div>
+                {/* Put away button - #7C3AED purple */}
+                {unstoredItems.length > 0 && (
+                  <button 
+                    onClick={() => setPuttingAway(unstoredItems)} 
+                    className="w-full mb-3 py-3 bg-brand-button-primary hover:bg-brand-button-primary-hover text-white font-semibold text-body rounded-2xl active:scale-[0.98] transition flex items-center justify-center gap-2"
+                  >
+                    <PackageCheck size={18} /> Put all checked items away ({unstoredItems.length})
+                  </button>
+                )}
                 {/* Completed items container - #1A1A1A/50 semi-transparent */}
                 {showCompleted && (
                   <div className="bg-brand-surface/50 rounded-2xl overflow-hidden border border-black/5 backdrop-blur-sm">
@@ -362,6 +480,12 @@ export const ShoppingList: React.FC = () => {
                           <span className="flex-1 text-h3 text-brand-text-secondary line-through decoration-2 decoration-brand-text-secondary/30 font-medium">
                             {item.name}
                           </span>
+                          {/* In pantry badge - #2A2A2A secondary surface */}
+                          {item.putAway && (
+                            <span className="mr-3 px-2 py-0.5 rounded-full bg-brand-surface-secondary text-caption text-brand-text-secondary font-medium">
+                              In pantry
+                            </span>
+                          )}
                           {/* Remove button - #6B6B6B tertiary, hover #F87171 red */}
                           <button 
                             onClick={() => removeShoppingItem(item.id)} 
@@ -387,13 +511,40 @@ export const ShoppingList: React.FC = () => {
               {/* Empty title - #FFFFFF white */}
               <h3 className="text-[22px] font-bold text-brand-text mb-2">All stocked up. Nice.</h3>
               {/* Empty description - #A0A0A0 muted */}
-              <p className="text-brand-text-secondary max-w-[220px] leading-relaxed text-body">
+              <p className="text-brand-text-secondary max-w-[220px] leading-relaxed text-body mb-6">
                 Your list is empty. Add items or generate a shopping list from a recipe.
               </p>
+              {/* Shop for recipes button - #7C3AED purple */}
+              <button 
+                onClick={() => setShowRecipeShopping(true)} 
+                className="px-5 py-2.5 bg-brand-button-primary hover:bg-brand-button-primary-hover text-white font-semibold text-body rounded-full active:scale-95 transition flex items-center gap-2"
+              >
+                <ListPlus size={18} /> Shop for recipes
+              </button>
             </div>
         )}
       </div>
 
+      {/* ========== SHOP FOR RECIPES MODAL ========== */}
+      <AnimatePresence>
+        {showRecipeShopping && <RecipeShoppingModal onClose={() => setShowRecipeShopping(false)} />}
+      </AnimatePresence>
+
+      {/* ========== STORE LAYOUT MODAL ========== */}
+      <AnimatePresence>
+        {editingStore && (
+          <StoreLayoutModal
+            layout={editingStore === 'new' ? undefined : editingStore}
+            onClose={() => setEditingStore(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* ========== PUT AWAY MODAL ========== */}
+      <AnimatePresence>
+        {puttingAway && <PutAwayModal items={puttingAway} onClose={() => setPuttingAway(null)} />}
+      </AnimatePresence>
+
       {/* ========== PURCHASE CONFIRMATION MODAL ========== */}
       <AnimatePresence>
         {confirmingItem && (
@@ -446,7 +597,7 @@ export const ShoppingList: React.FC = () => {
                   <select 
                     className="w-full bg-brand-background rounded-2xl appearance-none outline-none border-none text-center" 
                     value={buyCategory} 
-                    onChange={e => setBuyCategory(e.target.value)}
+                    onChange={e => handleBuyCategoryChange(e.target.value)}
                   >
                     {PANTRY_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
                   </select>
@@ -458,7 +609,7 @@ export const ShoppingList: React.FC = () => {
                       type="date" 
                       className="flex-1 bg-transparent py-2.5 text-body outline-none text-brand-text text-center" 
                       value={buyExpiry} 
-                      onChange={e => setBuyExpiry(e.target.value)} 
+                      onChange={e => { setBuyExpiry(e.target.value); setBuyExpiryEdited(true); }} 
                     />
                   </div>
                 </div>
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, ChevronUp, ChevronDown, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useUser } from '../context/UserContext';
+import { getAisleOrder } from '../services/shoppingListService';
+import { StoreLayout, CATEGORY_ICONS } from '../types';
+import { generateId } from '../utils/helpers';
+import { hapticLight, hapticSuccess } from '../utils/hapticService';
+
+/**
+ * 🎨 STORE LAYOUT MODAL COLOR REFERENCE (Dark Mode)
+ * ==================================================
+ * Background:     #0D0D0D (modal background)
+ * Surface:        #1A1A1A (header, aisle list, name input)
+ * Surface Alt:    #2A2A2A (close and move buttons)
+ * Button Purple:  #7C3AED (save)
+ * Error Red:      #F87171 (delete store)
+ */
+
+const MotionDiv = motion.div as any;
+
+interface Props {
+  layout?: StoreLayout; // Edit this store, or create a new one
+  onClose: () => void;
+}
+
+export const StoreLayoutModal: React.FC<Props> = ({ layout, onClose }) => {
+  const { preferences, updatePreferences } = useUser();
+  const [name, setName] = useState(layout?.name || '');
+  const [aisleOrder, setAisleOrder] = useState<string[]>(() => getAisleOrder(layout));
+
+  const moveAisle = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= aisleOrder.length) return;
+    hapticLight();
+    setAisleOrder(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      toast.error('Give the store a name');
+      return;
+    }
+    hapticSuccess();
+    const saved: StoreLayout = { id: layout?.id || generateId(), name: trimmed, aisleOrder };
+    const storeLayouts = layout
+      ? preferences.storeLayouts.map(s => s.id === layout.id ? saved : s)
+      : [...preferences.storeLayouts, saved];
+    // A store you just set up is the one you're about to shop at
+    updatePreferences({ ...preferences, storeLayouts, activeStoreId: saved.id });
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!layout) return;
+    hapticLight();
+    updatePreferences({
+      ...preferences,
+      storeLayouts: preferences.storeLayouts.filter(s => s.id !== layout.id),
+      activeStoreId: preferences.activeStoreId === layout.id ? undefined : preferences.activeStoreId
+    });
+    onClose();
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <MotionDiv
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100]"
+      />
+
+      {/* Modal */}
+      <MotionDiv
+        initial={{ y: "100%" }}
+        animate={{ y: 0 }}
+        exit={{ y: "100%" }}
+        transition={{ type: "spring", damping: 25, stiffness: 200 }}
+        className="fixed bottom-0 left-0 right-0 z-[110] bg-brand-background rounded-t-[32px] overflow-hidden shadow-2xl h-[85vh] flex flex-col"
+      >
+        {/* Header */}
+        <div className="bg-brand-surface border-b border-brand-divider px-5 py-4 flex justify-between items-center">
+          <div>
+            <h2 className="text-h2 font-bold text-brand-text">{layout ? 'Edit Store' : 'New Store'}</h2>
+            <p className="text-caption text-brand-text-secondary">Put the aisles in the order you walk them</p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="w-9 h-9 bg-brand-surface-secondary rounded-full flex items-center justify-center text-brand-text-secondary hover:text-brand-text hover:bg-brand-divider transition"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+          {/* ========== STORE NAME ========== */}
+          <div>
+            <label htmlFor="store-name" className="block text-caption font-bold text-brand-text-secondary uppercase mb-1.5 ml-1">Store</label>
+            <input
+              id="store-name"
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="e.g. Corner market"
+              className="w-full bg-brand-surface text-brand-text p-4 rounded-2xl text-h3 outline-none font-medium shadow-sm placeholder-brand-text-tertiary"
+              autoFocus={!layout}
+            />
+          </div>
+
+          {/* ========== AISLE ORDER ========== */}
+          <div>
+            <h3 className="text-caption font-bold text-brand-text-secondary uppercase mb-1.5 ml-1">Aisle order</h3>
+            <div className="bg-brand-surface rounded-2xl border border-brand-divider divide-y divide-brand-divider">
+              {aisleOrder.map((category, index) => (
+                <div key={category} className="flex items-center gap-3 px-4 py-2.5">
+                  <span className="w-5 text-caption font-bold text-brand-text-tertiary">{index + 1}</span>
+                  <span className="text-base">{CATEGORY_ICONS[category] || '📦'}</span>
+                  <span className="flex-1 text-body font-medium text-brand-text">{category}</span>
+                  <button
+                    onClick={() => moveAisle(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${category} earlier`}
+                    className="w-8 h-8 rounded-full bg-brand-surface-secondary flex items-center justify-center text-brand-text active:scale-90 transition disabled:opacity-30"
+                  >
+                    <ChevronUp size={16} />
+                  </button>
+                  <button
+                    onClick={() => moveAisle(index, 1)}
+                    disabled={index === aisleOrder.length - 1}
+                    aria-label={`Move ${category} later`}
+                    className="w-8 h-8 rounded-full bg-brand-surface-secondary flex items-center justify-center text-brand-text active:scale-90 transition disabled:opacity-30"
+                  >
+                    <ChevronDown size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {layout && (
+            <button
+              onClick={handleDelete}
+              className="w-full py-3 flex items-center justify-center gap-2 text-brand-error font-semibold text-body active:opacity-60 transition"
+            >
+              <Trash2 size={16} /> Delete store
+            </button>
+          )}
+        </div>
+
+        <div className="p-5 pt-3 pb-safe border-t border-brand-divider bg-brand-surface">
+          <button
+            onClick={handleSave}
+            className="w-full py-3.5 bg-brand-button-primary hover:bg-brand-button-primary-hover text-white font-bold text-h3 rounded-full active:scale-95 transition"
+          >
+            Save store
+          </button>
+        </div>
+      </MotionDiv>
+    </>
+  );
+};
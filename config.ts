@@ -78,8 +78,11 @@ export const CONFIG = {
         generateThumbnail: '/generate-thumbnail',
         askStep: '/ask-step'
     },
-    timeout: 120000, // 2 minutes - allows time for recipe + image generation with large pantries
-    retries: 3
+    timeout: 30000, // Per request; streamed responses restart it whenever data arrives
+    generationTimeout: 90000, // Non-streamed recipe generation (native apps) returns everything at once
+    retries: 3,
+    // Calls that use the daily AI quota: server errors there aren't retried, only lost connections
+    meteredEndpoints: ['/parse-pantry', '/generate-recipes', '/generate-thumbnail', '/ask-step']
   },
 
   // Limits
@@ -0,0 +1,135 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { Household, HouseholdInvite, HouseholdRole } from '../types';
+import {
+  loadHousehold,
+  loadPendingInvites,
+  inviteMemberByEmail,
+  joinHouseholdByCode,
+  acceptHouseholdInvite,
+  leaveHousehold as rpcLeaveHousehold,
+  renameHousehold,
+  transferHouseholdOwnership
+} from '../services/householdService';
+import { localStore, LOCAL_KEYS } from '../services/localStore';
+import { syncQueue } from '../services/syncQueue';
+import { supabase } from '../services/supabase';
+import toast from 'react-hot-toast';
+
+interface HouseholdContextType {
+  household: Household | null;
+  pendingInvites: HouseholdInvite[];
+  role: HouseholdRole | null;
+  inviteByEmail: (email: string) => Promise<void>;
+  joinByCode: (code: string) => Promise<void>;
+  acceptInvite: (inviteId: string) => Promise<void>;
+  leaveHousehold: () => Promise<void>;
+  rename: (name: string) => Promise<void>;
+  transferOwnership: (userId: string) => Promise<void>;
+  isLoading: boolean;
+}
+
+const HouseholdContext = createContext<HouseholdContextType | undefined>(undefined);
+
+export const HouseholdProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [pendingInvites, setPendingInvites] = useState<HouseholdInvite[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = async () => {
+    try {
+      const [data, invites] = await Promise.all([loadHousehold(), loadPendingInvites()]);
+      setHousehold(data);
+      setPendingInvites(invites);
+      if (data) localStore.set(LOCAL_KEYS.household, data);
+    } catch (e) {
+      console.warn("Failed to load household", e);
+    }
+  };
+
+  useEffect(() => {
+    const init = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      setUserId(session?.user?.id || null);
+
+      // Cached copy first so the household id is known offline
+      const cached = await localStore.get<Household>(LOCAL_KEYS.household);
+      if (cached) setHousehold(cached);
+
+      await refresh();
+      setIsLoading(false);
+    };
+    init();
+  }, []);
+
+  /**
+   * Membership changes swap the pantry and shopping list underneath the app,
+   * so pending writes are pushed to the old household first.
+   */
+  const switchHousehold = async (action: () => Promise<void>, successMessage: string) => {
+    await syncQueue.flush();
+    if (syncQueue.pendingCount > 0) {
+      toast.error("Sync your pending changes before switching households");
+      return;
+    }
+    try {
+      await action();
+      await refresh();
+      toast.success(successMessage);
+    } catch (e: any) {
+      toast.error(e?.message || "Something went wrong");
+    }
+  };
+
+  const inviteByEmail = async (email: string) => {
+    try {
+      await inviteMemberByEmail(email);
+      toast.success(`${email} will see the invite when they open Plum. You can also share your invite code.`, { duration: 5000 });
+    } catch (e) {
+      toast.error("Failed to save invite");
+    }
+  };
+
+  const joinByCode = (code: string) => switchHousehold(() => joinHouseholdByCode(code), "Joined household");
+
+  const acceptInvite = (inviteId: string) => switchHousehold(() => acceptHouseholdInvite(inviteId), "Joined household");
+
+  const leaveHousehold = () => switchHousehold(rpcLeaveHousehold, "You left the household");
+
+  const rename = async (name: string) => {
+    try {
+      await renameHousehold(name);
+      await refresh();
+      toast.success("Household renamed");
+    } catch (e: any) {
+      toast.error(e?.message || "Failed to rename household");
+    }
+  };
+
+  const transferOwnership = async (newOwnerId: string) => {
+    try {
+      await transferHouseholdOwnership(newOwnerId);
+      await refresh();
+      toast.success("Ownership transferred");
+    } catch (e: any) {
+      toast.error(e?.message || "Failed to transfer ownership");
+    }
+  };
+
+  const role = household?.members.find(m => m.userId === userId)?.role || null;
+
+  return (
+    <HouseholdContext.Provider value={{
+        household, pendingInvites, role, isLoading,
+        inviteByEmail, joinByCode, acceptInvite, leaveHousehold, rename, transferOwnership
+    }}>
+      {children}
+    </HouseholdContext.Provider>
+  );
+};
+
+export const useHousehold = () => {
+  const context = useContext(HouseholdContext);
+  if (!context) throw new Error('useHousehold must be used within HouseholdProvider');
+  return context;
+};
@@ -1,71 +1,298 @@
 
-import React, { createContext, useContext, useEffect, useState } from 'react';
-import { PantryItem, ShoppingItem } from '../types';
-import { 
-    loadInventoryData, 
-    dbAddPantryItem, 
-    dbUpdatePantryItem, 
-    dbRemovePantryItem, 
-    dbUpsertShoppingItems,
-    dbRemoveShoppingItem,
-    dbClearCheckedShoppingItems,
-    dbClearAllShoppingItems
-} from '../services/storageService';
-import { calculateNewInventory, mergeQuantities } from '../services/quantityService';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { PantryItem, RemovedPantryItem, ShoppingItem, Quantity } from '../types';
+import { loadInventoryData, subscribeToInventoryChanges, RemoteChange } from '../services/storageService';
+import { localStore, LOCAL_KEYS } from '../services/localStore';
+import { syncQueue } from '../services/syncQueue';
+import { calculateNewInventory, mergeQuantities, getPantryQuantity, toPantryFields } from '../services/quantityService';
+import { isSameIngredient } from '../services/ingredientMatching';
+import { NewShoppingItem, mergeShoppingAmounts, mergeSources } from '../services/shoppingListService';
+import { categorizeIngredient } from '../services/categoryService';
 import { generateId } from '../utils/helpers';
+import { useHousehold } from './HouseholdContext';
 import toast from 'react-hot-toast';
 
 interface InventoryContextType {
   pantry: PantryItem[];
   shoppingList: ShoppingItem[];
-  recentEmptyItems: { id: string; name: string; category: string; removedAt: number }[];
+  recentEmptyItems: RemovedPantryItem[];
   addPantryItem: (item: Omit<PantryItem, 'id' | 'addedAt'>) => void;
   removePantryItem: (id: string) => void;
+  restoreRemovedItem: (id: string) => void;
+  purgeRemovedItem: (id: string) => void;
   updatePantryItem: (id: string, updates: Partial<PantryItem>) => void;
-  consumeIngredients: (usage: { pantryId: string, usedAmount: string }[]) => void;
+  consumeIngredients: (usage: { pantryId: string, used: Quantity }[]) => void;
   addToShoppingList: (names: string[]) => void;
+  addShoppingItems: (items: NewShoppingItem[]) => number; // How many entries were added or grown
   toggleShoppingItem: (id: string) => void;
+  updateShoppingItem: (id: string, updates: Partial<ShoppingItem>) => void;
+  addPantryItems: (items: Omit<PantryItem, 'id' | 'addedAt'>[], purchasedShoppingIds?: string[]) => void;
+  putAwayShoppingItems: (entries: { id: string; item: Omit<PantryItem, 'id' | 'addedAt'> }[]) => void;
   removeShoppingItem: (id: string) => void;
   clearShoppingList: () => void;
   clearCheckedItems: () => void;
+  undoLastAction: () => void;
+  canUndo: boolean;
   isLoading: boolean;
 }
 
 const InventoryContext = createContext<InventoryContextType | undefined>(undefined);
 
+interface InventorySnapshot {
+  pantry: PantryItem[];
+  shoppingList: ShoppingItem[];
+  recentEmptyItems: RemovedPantryItem[];
+}
+
+// How to reverse one destructive action (a whole recipe's deductions count as one)
+interface UndoEntry {
+  id: string;
+  revert: () => void;
+}
+
+// Older actions fall off the bottom of the stack
+const MAX_UNDO_DEPTH = 20;
+
 export const InventoryProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // Pantry and shopping list are shared by everyone in the household
+  const { household } = useHousehold();
+  const householdId = household?.id;
+  const previousHouseholdId = useRef<string | undefined>(undefined);
   const [pantry, setPantry] = useState<PantryItem[]>([]);
   const [shoppingList, setShoppingList] = useState<ShoppingItem[]>([]);
-  const [recentEmptyItems, setRecentEmptyItems] = useState<any[]>([]);
+  const [recentEmptyItems, setRecentEmptyItems] = useState<RemovedPantryItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
+  // Latest state for realtime handlers (they are registered once)
+  const pantryRef = useRef(pantry);
+  const shoppingListRef = useRef(shoppingList);
+  pantryRef.current = pantry;
+  shoppingListRef.current = shoppingList;
+
+  // Local edits not yet echoed back by the server (id -> edit time)
+  const unsyncedEdits = useRef(new Map<string, number>());
+
+  const markEdited = (id: string) => {
+    const now = Date.now();
+    unsyncedEdits.current.set(id, now);
+    return now;
+  };
+
+  const undoStack = useRef<UndoEntry[]>([]);
+  const [canUndo, setCanUndo] = useState(false);
+
   useEffect(() => {
     const init = async () => {
-        const data = await loadInventoryData();
-        setPantry(data.pantry);
-        setShoppingList(data.shoppingList);
-        setRecentEmptyItems(data.recentEmptyItems);
+        // 1. Show the local copy immediately (works offline)
+        const cached = await localStore.get<InventorySnapshot>(LOCAL_KEYS.inventory);
+        if (cached) {
+            setPantry(cached.pantry);
+            setShoppingList(cached.shoppingList);
+            setRecentEmptyItems(cached.recentEmptyItems);
+            setIsLoading(false);
+        }
+
+        // 2. Push any offline edits before reading the server copy
+        await syncQueue.flush();
+
+        // 3. Only replace local state when nothing is still waiting to sync,
+        //    otherwise the server copy would hide those edits
+        if (syncQueue.pendingCount === 0) {
+            const data = await loadInventoryData();
+            if (data) {
+                setPantry(data.pantry);
+                setShoppingList(data.shoppingList);
+                setRecentEmptyItems(data.recentEmptyItems);
+            }
+        }
         setIsLoading(false);
     };
     init();
   }, []);
 
-  const addPantryItem = async (item: Omit<PantryItem, 'id' | 'addedAt'>) => {
-    // Check for existing item with same name (case-insensitive)
-    const existingItem = pantry.find(p => 
-      p.name.toLowerCase().trim() === item.name.toLowerCase().trim()
-    );
+  // --- REALTIME SYNC ---
+  /**
+   * Last-writer-wins check for a remote row against our copy.
+   * Returns false when the local version is newer and should be kept.
+   */
+  const acceptRemote = (id: string, name: string, remoteUpdatedAt?: number, localUpdatedAt?: number): boolean => {
+    const remoteAt = remoteUpdatedAt || 0;
+    if (localUpdatedAt && localUpdatedAt > remoteAt) return false;
+
+    const pendingEdit = unsyncedEdits.current.get(id);
+    if (pendingEdit !== undefined) {
+      unsyncedEdits.current.delete(id);
+      // Not our own echo: another device wrote after us
+      if (pendingEdit !== remoteAt) toast(`${name} was changed on another device`, { icon: '🔄' });
+    }
+    return true;
+  };
+
+  const handlePantryChange = (change: RemoteChange<PantryItem>) => {
+    if (change.type === 'delete') {
+      const local = pantryRef.current.find(i => i.id === change.id);
+      if (!local) return;
+      // Restored (undo) after this delete was made
+      if (change.item && local.updatedAt && local.updatedAt > (change.item.updatedAt || 0)) return;
+      unsyncedEdits.current.delete(change.id);
+      setPantry(prev => prev.filter(i => i.id !== change.id));
+      if (change.item) {
+        const removed = change.item;
+        setRecentEmptyItems(prev => [{ ...removed, removedAt: Date.now() }, ...prev.filter(e => e.id !== removed.id)].slice(0, 50));
+      }
+      return;
+    }
+
+    const remote = change.item;
+    const local = pantryRef.current.find(i => i.id === remote.id);
+    if (!local) {
+      setPantry(prev => prev.some(i => i.id === remote.id) ? prev : [...prev, remote]);
+      return;
+    }
+    if (!acceptRemote(remote.id, remote.name, remote.updatedAt, local.updatedAt)) return;
+    setPantry(prev => prev.map(i => i.id === remote.id ? remote : i));
+  };
+
+  const handleShoppingChange = (change: RemoteChange<ShoppingItem>) => {
+    if (change.type === 'delete') {
+      unsyncedEdits.current.delete(change.id);
+      setShoppingList(prev => prev.filter(i => i.id !== change.id));
+      return;
+    }
+
+    const remote = change.item;
+    const local = shoppingListRef.current.find(i => i.id === remote.id);
+    if (!local) {
+      setShoppingList(prev => prev.some(i => i.id === remote.id) ? prev : [...prev, remote]);
+      return;
+    }
+    if (!acceptRemote(remote.id, remote.name, remote.updatedAt, local.updatedAt)) return;
+    setShoppingList(prev => prev.map(i => i.id === remote.id ? remote : i));
+  };
+
+  useEffect(() => {
+    if (!householdId) return;
+    let unsubscribe: (() => void) | null = null;
+    let isActive = true;
+    subscribeToInventoryChanges({ onPantryChange: handlePantryChange, onShoppingChange: handleShoppingChange })
+      .then(unsub => {
+        if (isActive) unsubscribe = unsub;
+        else unsub();
+      })
+      .catch(e => console.warn("Realtime inventory sync unavailable", e));
+    return () => {
+      isActive = false;
+      unsubscribe?.();
+    };
+  }, [householdId]);
+
+  // Joining or leaving a household swaps the whole pantry and shopping list
+  useEffect(() => {
+    if (!householdId) return;
+    const previous = previousHouseholdId.current;
+    previousHouseholdId.current = householdId;
+    if (!previous || previous === householdId) return;
+
+    unsyncedEdits.current.clear();
+    undoStack.current = [];
+    setCanUndo(false);
+    loadInventoryData().then(data => {
+        if (!data) return;
+        setPantry(data.pantry);
+        setShoppingList(data.shoppingList);
+        setRecentEmptyItems(data.recentEmptyItems);
+    });
+  }, [householdId]);
+
+  // Keep the local copy in step with every change
+  useEffect(() => {
+    if (isLoading) return;
+    localStore.set<InventorySnapshot>(LOCAL_KEYS.inventory, { pantry, shoppingList, recentEmptyItems });
+  }, [pantry, shoppingList, recentEmptyItems, isLoading]);
+
+  // --- UNDO ---
+  const runUndo = (entryId: string) => {
+    const entry = undoStack.current.find(e => e.id === entryId);
+    if (!entry) return;
+    undoStack.current = undoStack.current.filter(e => e.id !== entryId);
+    setCanUndo(undoStack.current.length > 0);
+    toast.dismiss(entryId);
+    entry.revert();
+  };
+
+  /**
+   * Remember how to reverse a destructive action and offer it in a toast.
+   * Reverts only use functional state updates, so they stay valid after later edits.
+   */
+  const pushUndo = (message: string, revert: () => void) => {
+    const id = generateId();
+    undoStack.current = [...undoStack.current, { id, revert }].slice(-MAX_UNDO_DEPTH);
+    setCanUndo(true);
+    toast(() => (
+      <span className="flex items-center gap-3">
+        {message}
+        <button onClick={() => runUndo(id)} className="font-bold text-brand-primary">
+          Undo
+        </button>
+      </span>
+    ), { id, duration: 5000 });
+  };
+
+  const undoLastAction = () => {
+    const last = undoStack.current[undoStack.current.length - 1];
+    if (last) runUndo(last.id);
+  };
+
+  // Soft delete (deleted_at) without recording an undo step
+  const deletePantryItem = (item: PantryItem) => {
+    setRecentEmptyItems(prev => [{ ...item, removedAt: Date.now() }, ...prev.filter(e => e.id !== item.id)].slice(0, 50));
+    setPantry(prev => prev.filter(i => i.id !== item.id));
+    syncQueue.enqueue({ type: 'removePantryItem', id: item.id });
+  };
+
+  // Clear deleted_at on soft-deleted rows and put them back as they were
+  const restorePantryItems = (items: PantryItem[]) => {
+    const ids = new Set(items.map(i => i.id));
+    const restored = items.map(item => ({ ...item, updatedAt: markEdited(item.id) }));
+    setPantry(prev => [...prev.filter(i => !ids.has(i.id)), ...restored]);
+    setRecentEmptyItems(prev => prev.filter(e => !ids.has(e.id)));
+    restored.forEach(item => syncQueue.enqueue({ type: 'restorePantryItem', id: item.id, updatedAt: item.updatedAt }));
+  };
+
+  // Put back the stock levels of items that were only partly used
+  const restorePantryQuantities = (items: PantryItem[]) => {
+    items.forEach(item => {
+      // Legacy rows have no measure; derive it so the server's deducted measure is overwritten too
+      const updates: Partial<PantryItem> = { quantity: item.quantity, unit: item.unit, measure: getPantryQuantity(item), updatedAt: markEdited(item.id) };
+      setPantry(prev => prev.map(i => i.id === item.id ? { ...i, ...updates } : i));
+      syncQueue.enqueue({ type: 'updatePantryItem', id: item.id, updates });
+    });
+  };
+
+  // Re-add cleared shopping items under new ids so late delete events for the old rows can't remove them again
+  const restoreShoppingItems = (items: ShoppingItem[]) => {
+    const restored = items.map(item => ({ ...item, id: generateId(), updatedAt: Date.now() }));
+    setShoppingList(prev => [...prev, ...restored]);
+    syncQueue.enqueue({ type: 'upsertShoppingItems', items: restored });
+  };
+
+  /**
+   * How a new item lands in a pantry: merged into the same ingredient when the
+   * units convert (keeping the earlier expiry), otherwise as a new entry.
+   */
+  const planPantryAdd = (
+    item: Omit<PantryItem, 'id' | 'addedAt'>,
+    current: PantryItem[]
+  ): { type: 'update'; id: string; updates: Partial<PantryItem> } | { type: 'add'; item: PantryItem } => {
+    // Check for an existing item that is the same ingredient ("Eggs" = "egg", "Scallions" = "Green Onion")
+    const existingItem = current.find(p => isSameIngredient(p.name, item.name));
 
     if (existingItem) {
       // Try to merge quantities if units are compatible
-      const mergedQty = mergeQuantities(
-        existingItem.quantity, existingItem.unit,
-        item.quantity, item.unit
-      );
+      const mergedQty = mergeQuantities(getPantryQuantity(existingItem), getPantryQuantity(item), existingItem.name);
       
       if (mergedQty !== null) {
-        // Merge successful - update existing item
-        const updates: Partial<PantryItem> = { quantity: mergedQty };
+        const updates: Partial<PantryItem> = toPantryFields(mergedQty);
         
         // Use the earlier expiry date if both have one
         if (item.expiryDate && existingItem.expiryDate) {
@@ -79,119 +306,235 @@ export const InventoryProvider: React.FC<{ children: React.ReactNode }> = ({ chi
           updates.expiryDate = item.expiryDate;
         }
         
-        // Update existing item instead of creating new
-        const original = existingItem;
-        setPantry(prev => prev.map(i => i.id === existingItem.id ? { ...i, ...updates } : i));
-        try { 
-          await dbUpdatePantryItem(existingItem.id, updates);
-          toast.success(`Updated ${item.name} quantity`);
-        } catch (e) { 
-          toast.error("Failed to update item"); 
-          setPantry(prev => prev.map(i => i.id === existingItem.id ? original : i));
-        }
-        return;
+        updates.updatedAt = markEdited(existingItem.id);
+        return { type: 'update', id: existingItem.id, updates };
       }
       // If units incompatible, fall through to create new entry
     }
 
     // No existing item or incompatible units - create new entry
-    const newItem: PantryItem = { ...item, id: generateId(), addedAt: Date.now() };
-    setPantry(prev => [...prev, newItem]);
-    try { await dbAddPantryItem(newItem); } 
-    catch (e) { 
-        toast.error("Failed to save item"); 
-        setPantry(prev => prev.filter(i => i.id !== newItem.id)); 
+    return { type: 'add', item: { ...item, measure: getPantryQuantity(item), id: generateId(), addedAt: Date.now(), updatedAt: Date.now() } };
+  };
+
+  const applyPantryChange = (list: PantryItem[], change: ReturnType<typeof planPantryAdd>): PantryItem[] =>
+    change.type === 'update'
+      ? list.map(i => i.id === change.id ? { ...i, ...change.updates } : i)
+      : [...list, change.item];
+
+  const addPantryItem = (item: Omit<PantryItem, 'id' | 'addedAt'>) => {
+    const change = planPantryAdd(item, pantry);
+    if (change.type === 'update') {
+      // Update existing item instead of creating new
+      setPantry(prev => prev.map(i => i.id === change.id ? { ...i, ...change.updates } : i));
+      syncQueue.enqueue({ type: 'updatePantryItem', id: change.id, updates: change.updates });
+      toast.success(`Updated ${item.name} quantity`);
+      return;
     }
+    setPantry(prev => [...prev, change.item]);
+    syncQueue.enqueue({ type: 'addPantryItem', item: change.item });
   };
 
-  const removePantryItem = async (id: string) => {
+  const removePantryItem = (id: string) => {
     const itemToRemove = pantry.find(i => i.id === id);
     if (!itemToRemove) return;
     
-    // Optimistic: Add to recent empty, Remove from pantry
-    setRecentEmptyItems(prev => [{ id: generateId(), name: itemToRemove.name, category: itemToRemove.category, removedAt: Date.now() }, ...prev].slice(0, 50));
-    setPantry(prev => prev.filter(i => i.id !== id));
-
-    try { await dbRemovePantryItem(id); }
-    catch (e) {
-        toast.error("Failed to delete item");
-        setPantry(prev => [...prev, itemToRemove]);
-    }
+    deletePantryItem(itemToRemove);
+    pushUndo(`Removed ${itemToRemove.name}`, () => restorePantryItems([itemToRemove]));
+  };
+
+  // --- RECENTLY REMOVED ---
+  const restoreRemovedItem = (id: string) => {
+    const removed = recentEmptyItems.find(e => e.id === id);
+    if (!removed) return;
+    const { removedAt, ...item } = removed;
+    restorePantryItems([item]);
+    toast.success(`${item.name} is back in your pantry`);
   };
 
-  const updatePantryItem = async (id: string, updates: Partial<PantryItem>) => {
+  const purgeRemovedItem = (id: string) => {
+    setRecentEmptyItems(prev => prev.filter(e => e.id !== id));
+    syncQueue.enqueue({ type: 'purgePantryItem', id });
+  };
+
+  const updatePantryItem = (id: string, updates: Partial<PantryItem>) => {
     const original = pantry.find(i => i.id === id);
     if (!original) return;
-    setPantry(prev => prev.map(i => i.id === id ? { ...i, ...updates } : i));
-    try { await dbUpdatePantryItem(id, updates); }
-    catch (e) {
-        toast.error("Failed to update item");
-        setPantry(prev => prev.map(i => i.id === id ? original : i));
+    const stamped = { ...updates, updatedAt: markEdited(id) };
+    // Free-text edits (quantity/unit fields) re-derive the structured form
+    if ((updates.quantity !== undefined || updates.unit !== undefined) && !updates.measure) {
+      stamped.measure = getPantryQuantity({ ...original, ...updates, measure: undefined });
     }
+    setPantry(prev => prev.map(i => i.id === id ? { ...i, ...stamped } : i));
+    syncQueue.enqueue({ type: 'updatePantryItem', id, updates: stamped });
   };
 
-  const consumeIngredients = (usage: { pantryId: string, usedAmount: string }[]) => {
-    usage.forEach(({ pantryId, usedAmount }) => {
+  const consumeIngredients = (usage: { pantryId: string, used: Quantity }[]) => {
+    // Stock after each deduction, so two ingredients drawing on one item both count
+    const after = new Map<string, Quantity | null>(); // null: used up
+
+    usage.forEach(({ pantryId, used }) => {
       const item = pantry.find(p => p.id === pantryId);
-      if (!item) return;
-      const { newQuantity, shouldRemove } = calculateNewInventory(item.quantity, item.unit || 'pcs', usedAmount);
-      if (shouldRemove) removePantryItem(pantryId); 
-      else updatePantryItem(pantryId, { quantity: newQuantity }); 
+      if (!item || after.get(pantryId) === null) return;
+      const current = after.get(pantryId) ?? getPantryQuantity(item);
+      const { remaining, shouldRemove, skipped } = calculateNewInventory(current, used, item.name);
+      if (skipped) return;
+      after.set(pantryId, shouldRemove ? null : remaining);
+    });
+
+    // Originals, so the whole recipe can be undone in one step
+    const usedUp: PantryItem[] = [];
+    const reduced: PantryItem[] = [];
+
+    after.forEach((remaining, pantryId) => {
+      const item = pantry.find(p => p.id === pantryId)!;
+      if (remaining === null) {
+        deletePantryItem(item);
+        usedUp.push(item);
+      } else {
+        updatePantryItem(pantryId, toPantryFields(remaining));
+        reduced.push(item);
+      }
+    });
+
+    const count = usedUp.length + reduced.length;
+    if (count === 0) return;
+    pushUndo(`Updated ${count} pantry item${count === 1 ? '' : 's'}`, () => {
+      restorePantryItems(usedUp);
+      restorePantryQuantities(reduced);
     });
   };
 
-  const addToShoppingList = async (names: string[]) => {
-    const newItems = names.map(name => ({ id: generateId(), name, checked: false }));
-    setShoppingList(prev => [...prev, ...newItems]);
-    try { await dbUpsertShoppingItems(newItems); }
-    catch (e) {
-        toast.error("Failed to update list");
-        const newIds = new Set(newItems.map(i => i.id));
-        setShoppingList(prev => prev.filter(i => !newIds.has(i.id)));
-    }
+  /**
+   * Add entries to the list. An entry for something already on the list (and
+   * not yet ticked) is folded into it: amounts are summed when the units
+   * convert, and the source recipes are combined. Adding the same recipe's
+   * ingredients again changes nothing, so amounts aren't counted twice.
+   */
+  const addShoppingItems = (items: NewShoppingItem[]): number => {
+    const next = [...shoppingList];
+    const changedIds = new Set<string>();
+
+    items.forEach(item => {
+      const sources = item.sourceRecipes || [];
+      const alreadyListed = sources.length > 0 && next.some(i =>
+        !i.checked && isSameIngredient(i.name, item.name) && sources.every(s => i.sourceRecipes?.some(r => r.id === s.id))
+      );
+      if (alreadyListed) return;
+
+      // Different units we can't add together stay separate entries
+      const index = next.findIndex(i => !i.checked && isSameIngredient(i.name, item.name) && mergeShoppingAmounts(i, item) !== null);
+      if (index !== -1) {
+        const existing = next[index];
+        next[index] = {
+          ...existing,
+          ...mergeShoppingAmounts(existing, item),
+          category: existing.category || item.category || categorizeIngredient(existing.name),
+          sourceRecipes: mergeSources(existing.sourceRecipes, item.sourceRecipes),
+          updatedAt: markEdited(existing.id)
+        };
+        changedIds.add(existing.id);
+        return;
+      }
+
+      const added: ShoppingItem = {
+        ...item,
+        id: generateId(),
+        checked: false,
+        category: item.category || categorizeIngredient(item.name),
+        updatedAt: Date.now()
+      };
+      next.push(added);
+      changedIds.add(added.id);
+    });
+
+    if (changedIds.size === 0) return 0;
+    setShoppingList(next);
+    syncQueue.enqueue({ type: 'upsertShoppingItems', items: next.filter(i => changedIds.has(i.id)) });
+    return changedIds.size;
   };
 
-  const toggleShoppingItem = async (id: string) => {
+  const addToShoppingList = (names: string[]) => addShoppingItems(names.map(name => ({ name })));
+
+  const toggleShoppingItem = (id: string) => {
     const item = shoppingList.find(i => i.id === id);
     if (!item) return;
-    setShoppingList(prev => prev.map(i => i.id === id ? { ...i, checked: !i.checked } : i));
-    try { await dbUpsertShoppingItems([{ ...item, checked: !item.checked }]); }
-    catch (e) {
-        toast.error("Connection failed");
-        setShoppingList(prev => prev.map(i => i.id === id ? item : i));
-    }
+    // Ticking here only marks it bought; putAwayShoppingItems stores it
+    const toggled = { ...item, checked: !item.checked, putAway: false, updatedAt: markEdited(id) };
+    setShoppingList(prev => prev.map(i => i.id === id ? toggled : i));
+    syncQueue.enqueue({ type: 'upsertShoppingItems', items: [toggled] });
+  };
+
+  const updateShoppingItem = (id: string, updates: Partial<ShoppingItem>) => {
+    const item = shoppingList.find(i => i.id === id);
+    if (!item) return;
+    const updated = { ...item, ...updates, id, updatedAt: markEdited(id) };
+    setShoppingList(prev => prev.map(i => i.id === id ? updated : i));
+    syncQueue.enqueue({ type: 'upsertShoppingItems', items: [updated] });
+  };
+
+  /**
+   * Store several items in the pantry as one batch, so two entries for the
+   * same ingredient merge into each other. Shopping items they were bought
+   * for are ticked off as put away.
+   */
+  const addPantryItems = (items: Omit<PantryItem, 'id' | 'addedAt'>[], purchasedShoppingIds: string[] = []) => {
+    if (items.length === 0) return;
+
+    let current = pantry;
+    const changes = items.map(item => {
+      const change = planPantryAdd(item, current);
+      current = applyPantryChange(current, change);
+      return change;
+    });
+    setPantry(prev => changes.reduce(applyPantryChange, prev));
+    changes.forEach(change => syncQueue.enqueue(change.type === 'update'
+      ? { type: 'updatePantryItem', id: change.id, updates: change.updates }
+      : { type: 'addPantryItem', item: change.item }));
+
+    const ids = new Set(purchasedShoppingIds);
+    const stored = shoppingList
+      .filter(i => ids.has(i.id))
+      .map(i => ({ ...i, checked: true, putAway: true, updatedAt: markEdited(i.id) }));
+    if (stored.length === 0) return;
+    setShoppingList(prev => prev.map(i => stored.find(s => s.id === i.id) ?? i));
+    syncQueue.enqueue({ type: 'upsertShoppingItems', items: stored });
   };
 
-  const removeShoppingItem = async (id: string) => {
+  // Store bought shopping items in the pantry
+  const putAwayShoppingItems = (entries: { id: string; item: Omit<PantryItem, 'id' | 'addedAt'> }[]) =>
+    addPantryItems(entries.map(e => e.item), entries.map(e => e.id));
+
+  const removeShoppingItem = (id: string) => {
     const item = shoppingList.find(i => i.id === id);
     if (!item) return;
     setShoppingList(prev => prev.filter(i => i.id !== id));
-    try { await dbRemoveShoppingItem(id); }
-    catch (e) {
-        toast.error("Failed to remove item");
-        setShoppingList(prev => [...prev, item]);
-    }
+    syncQueue.enqueue({ type: 'removeShoppingItem', id });
   };
 
-  const clearShoppingList = async () => {
-    const old = shoppingList;
-    setShoppingList([]);
-    try { await dbClearAllShoppingItems(); }
-    catch (e) { toast.error("Failed to clear"); setShoppingList(old); }
+  const clearShoppingList = () => {
+    const cleared = shoppingList;
+    if (cleared.length === 0) return;
+    const ids = cleared.map(i => i.id);
+    setShoppingList(prev => prev.filter(i => !ids.includes(i.id)));
+    syncQueue.enqueue({ type: 'removeShoppingItems', ids });
+    pushUndo('Shopping list cleared', () => restoreShoppingItems(cleared));
   };
 
-  const clearCheckedItems = async () => {
-    const old = shoppingList;
-    setShoppingList(prev => prev.filter(i => !i.checked));
-    try { await dbClearCheckedShoppingItems(); }
-    catch (e) { toast.error("Failed to clear"); setShoppingList(old); }
+  const clearCheckedItems = () => {
+    const cleared = shoppingList.filter(i => i.checked);
+    if (cleared.length === 0) return;
+    const ids = cleared.map(i => i.id);
+    setShoppingList(prev => prev.filter(i => !ids.includes(i.id)));
+    syncQueue.enqueue({ type: 'removeShoppingItems', ids });
+    pushUndo(`Cleared ${cleared.length} checked item${cleared.length === 1 ? '' : 's'}`, () => restoreShoppingItems(cleared));
   };
 
   return (
     <InventoryContext.Provider value={{ 
         pantry, shoppingList, recentEmptyItems, isLoading,
-        addPantryItem, removePantryItem, updatePantryItem, consumeIngredients,
-        addToShoppingList, toggleShoppingItem, removeShoppingItem, clearShoppingList, clearCheckedItems
+        addPantryItem, addPantryItems, removePantryItem, restoreRemovedItem, purgeRemovedItem, updatePantryItem, consumeIngredients,
+        addToShoppingList, addShoppingItems, toggleShoppingItem, updateShoppingItem, putAwayShoppingItems, removeShoppingItem, clearShoppingList, clearCheckedItems,
+        undoLastAction, canUndo
     }}>
       {children}
     </InventoryContext.Provider>
@@ -0,0 +1,102 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { format, startOfWeek, subWeeks } from 'date-fns';
+import { MealSlot, PlannedMeal, Recipe } from '../types';
+import { loadMealPlan } from '../services/storageService';
+import { uploadRecipeImage } from '../services/supabase';
+import { localStore, LOCAL_KEYS } from '../services/localStore';
+import { syncQueue } from '../services/syncQueue';
+import { generateId } from '../utils/helpers';
+
+interface MealPlanContextType {
+  plan: PlannedMeal[];
+  earliestDate: string; // Older days are not loaded
+  getMeal: (date: string, slot: MealSlot) => PlannedMeal | undefined;
+  assignMeal: (date: string, slot: MealSlot, recipe: Recipe) => void;
+  removeMeal: (id: string) => void;
+  tonight: PlannedMeal | undefined;
+  isLoading: boolean;
+}
+
+const MealPlanContext = createContext<MealPlanContextType | undefined>(undefined);
+
+// How far back past weeks stay visible in the planner
+const WEEKS_OF_HISTORY = 4;
+
+export const toPlanDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const MealPlanProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [plan, setPlan] = useState<PlannedMeal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [earliestDate] = useState(() => toPlanDate(subWeeks(startOfWeek(new Date(), { weekStartsOn: 1 }), WEEKS_OF_HISTORY)));
+
+  useEffect(() => {
+    const init = async () => {
+        // 1. Local copy first so the plan is available offline
+        const cached = await localStore.get<PlannedMeal[]>(LOCAL_KEYS.mealPlan);
+        if (cached) {
+            setPlan(cached);
+            setIsLoading(false);
+        }
+
+        // 2. Sync pending edits, then refresh from the server if nothing is left over
+        await syncQueue.flush();
+        if (syncQueue.pendingCount === 0) {
+            const meals = await loadMealPlan(earliestDate);
+            if (meals) setPlan(meals);
+        }
+        setIsLoading(false);
+    };
+    init();
+  }, [earliestDate]);
+
+  // Keep the local copy in step with every change
+  useEffect(() => {
+    if (isLoading) return;
+    localStore.set<PlannedMeal[]>(LOCAL_KEYS.mealPlan, plan);
+  }, [plan, isLoading]);
+
+  const getMeal = (date: string, slot: MealSlot) => plan.find(m => m.date === date && m.slot === slot);
+
+  const assignMeal = async (date: string, slot: MealSlot, recipe: Recipe) => {
+    const existing = getMeal(date, slot);
+    const meal: PlannedMeal = { id: existing?.id || generateId(), date, slot, recipe, updatedAt: Date.now() };
+
+    // Optimistic: one meal per slot
+    setPlan(prev => [...prev.filter(m => !(m.date === date && m.slot === slot)), meal]);
+
+    // Freshly generated recipes may still carry a Base64 image; store it before saving the plan
+    let persisted = meal;
+    if (recipe.generatedImage?.startsWith('data:')) {
+      try {
+        const publicUrl = await uploadRecipeImage(recipe.id, recipe.generatedImage);
+        if (publicUrl) {
+          persisted = { ...meal, recipe: { ...recipe, generatedImage: publicUrl } };
+          setPlan(prev => prev.map(m => m.id === meal.id ? persisted : m));
+        }
+      } catch (error) {
+        console.error("Background image upload failed", error);
+      }
+    }
+
+    syncQueue.enqueue({ type: 'upsertPlannedMeal', meal: persisted });
+  };
+
+  const removeMeal = (id: string) => {
+    setPlan(prev => prev.filter(m => m.id !== id));
+    syncQueue.enqueue({ type: 'removePlannedMeal', id });
+  };
+
+  const tonight = getMeal(toPlanDate(new Date()), 'dinner');
+
+  return (
+    <MealPlanContext.Provider value={{ plan, earliestDate, getMeal, assignMeal, removeMeal, tonight, isLoading }}>
+      {children}
+    </MealPlanContext.Provider>
+  );
+};
+
+export const useMealPlan = () => {
+  const context = useContext(MealPlanContext);
+  if (!context) throw new Error('useMealPlan must be used within MealPlanProvider');
+  return context;
+};
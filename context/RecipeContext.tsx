@@ -1,16 +1,17 @@
 
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { Recipe } from '../types';
-import { loadRecipeData, dbUpsertRecipe, dbDeleteRecipe, dbUpdateRecipeFlags } from '../services/storageService';
+import { loadRecipeData } from '../services/storageService';
 import { uploadRecipeImage } from '../services/supabase';
+import { localStore, LOCAL_KEYS } from '../services/localStore';
+import { syncQueue } from '../services/syncQueue';
 import { useUser } from './UserContext';
-import toast from 'react-hot-toast';
 
 interface RecipeContextType {
   history: Recipe[];
   bookmarkedRecipes: Recipe[];
   generatedRecipes: Recipe[];
-  setGeneratedRecipes: (recipes: Recipe[]) => void;
+  setGeneratedRecipes: React.Dispatch<React.SetStateAction<Recipe[]>>;
   addRecipeToHistory: (recipe: Recipe) => void;
   toggleBookmark: (recipe: Recipe) => void;
   isBookmarked: (id: string) => boolean;
@@ -19,6 +20,11 @@ interface RecipeContextType {
 
 const RecipeContext = createContext<RecipeContextType | undefined>(undefined);
 
+interface RecipeSnapshot {
+  history: Recipe[];
+  bookmarkedRecipes: Recipe[];
+}
+
 export const RecipeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { preferences, isLoading: isUserLoading } = useUser();
   const [history, setHistory] = useState<Recipe[]>([]);
@@ -30,14 +36,34 @@ export const RecipeProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   useEffect(() => {
     if (isUserLoading) return;
     const init = async () => {
-        const data = await loadRecipeData(preferences?.isPro || false);
-        setHistory(data.history);
-        setBookmarkedRecipes(data.bookmarkedRecipes);
+        // 1. Local copy first so saved recipes are available offline
+        const cached = await localStore.get<RecipeSnapshot>(LOCAL_KEYS.recipes);
+        if (cached) {
+            setHistory(cached.history);
+            setBookmarkedRecipes(cached.bookmarkedRecipes);
+            setIsLoading(false);
+        }
+
+        // 2. Sync pending edits, then refresh from the server if nothing is left over
+        await syncQueue.flush();
+        if (syncQueue.pendingCount === 0) {
+            const data = await loadRecipeData(preferences?.isPro || false);
+            if (data) {
+                setHistory(data.history);
+                setBookmarkedRecipes(data.bookmarkedRecipes);
+            }
+        }
         setIsLoading(false);
     };
     init();
   }, [isUserLoading, preferences?.isPro]);
 
+  // Keep the local copy in step with every change
+  useEffect(() => {
+    if (isLoading) return;
+    localStore.set<RecipeSnapshot>(LOCAL_KEYS.recipes, { history, bookmarkedRecipes });
+  }, [history, bookmarkedRecipes, isLoading]);
+
   // Helper: Persist Base64 image to Storage if needed
   const handleImagePersist = async (recipe: Recipe): Promise<Recipe> => {
       // Check if generatedImage is a Base64 string (starts with data:)
@@ -59,31 +85,24 @@ export const RecipeProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   const addRecipeToHistory = async (recipe: Recipe) => {
     const isAlreadyBookmarked = bookmarkedRecipes.some(r => r.id === recipe.id);
     const updatedRecipe = { ...recipe, lastCooked: new Date().toISOString() };
-    const prevHistory = history;
     
     // Optimistic Update (shows instantly with Base64 if present)
     setHistory(prev => [updatedRecipe, ...prev.filter(r => r.id !== recipe.id)]);
     
-    try { 
-        // 1. Upload Image to Storage (if Base64)
-        const persistedRecipe = await handleImagePersist(updatedRecipe);
-
-        // 2. Update local state with new URL if it changed (replaces Base64 to free memory)
-        if (persistedRecipe.generatedImage !== updatedRecipe.generatedImage) {
-             setHistory(prev => prev.map(r => r.id === recipe.id ? persistedRecipe : r));
-             setGeneratedRecipes(prev => prev.map(r => r.id === recipe.id ? persistedRecipe : r));
-             if (isAlreadyBookmarked) {
-                 setBookmarkedRecipes(prev => prev.map(r => r.id === recipe.id ? persistedRecipe : r));
-             }
-        }
-
-        // 3. Save to DB (URL is now short string)
-        await dbUpsertRecipe(persistedRecipe, true, isAlreadyBookmarked); 
-    }
-    catch (e) {
-        toast.error("Failed to save history");
-        setHistory(prevHistory);
+    // 1. Upload Image to Storage (if Base64)
+    const persistedRecipe = await handleImagePersist(updatedRecipe);
+
+    // 2. Update local state with new URL if it changed (replaces Base64 to free memory)
+    if (persistedRecipe.generatedImage !== updatedRecipe.generatedImage) {
+         setHistory(prev => prev.map(r => r.id === recipe.id ? persistedRecipe : r));
+         setGeneratedRecipes(prev => prev.map(r => r.id === recipe.id ? persistedRecipe : r));
+         if (isAlreadyBookmarked) {
+             setBookmarkedRecipes(prev => prev.map(r => r.id === recipe.id ? persistedRecipe : r));
+         }
     }
+
+    // 3. Queue the save (URL is now short string, or Base64 if offline)
+    syncQueue.enqueue({ type: 'upsertRecipe', recipe: persistedRecipe, isHistory: true, isBookmarked: isAlreadyBookmarked });
   };
 
   const toggleBookmark = async (recipe: Recipe) => {
@@ -97,33 +116,26 @@ export const RecipeProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         setBookmarkedRecipes(prev => [recipe, ...prev]);
     }
 
-    try {
-        if (isCurrentlyBookmarked) {
-             // REMOVING
-             if (!isCurrentlyInHistory) await dbDeleteRecipe(recipe.id);
-             else await dbUpdateRecipeFlags(recipe.id, { is_bookmarked: false });
-        } else {
-             // ADDING
-             // 1. Upload Image if needed
-             const persistedRecipe = await handleImagePersist(recipe);
-
-             // 2. Update local state if URL changed
-             if (persistedRecipe.generatedImage !== recipe.generatedImage) {
-                 setBookmarkedRecipes(prev => prev.map(r => r.id === recipe.id ? persistedRecipe : r));
-                 setGeneratedRecipes(prev => prev.map(r => r.id === recipe.id ? persistedRecipe : r));
-                 if (isCurrentlyInHistory) {
-                     setHistory(prev => prev.map(r => r.id === recipe.id ? persistedRecipe : r));
-                 }
+    if (isCurrentlyBookmarked) {
+         // REMOVING
+         if (!isCurrentlyInHistory) syncQueue.enqueue({ type: 'deleteRecipe', recipeId: recipe.id });
+         else syncQueue.enqueue({ type: 'updateRecipeFlags', recipeId: recipe.id, flags: { is_bookmarked: false } });
+    } else {
+         // ADDING
+         // 1. Upload Image if needed
+         const persistedRecipe = await handleImagePersist(recipe);
+
+         // 2. Update local state if URL changed
+         if (persistedRecipe.generatedImage !== recipe.generatedImage) {
+             setBookmarkedRecipes(prev => prev.map(r => r.id === recipe.id ? persistedRecipe : r));
+             setGeneratedRecipes(prev => prev.map(r => r.id === recipe.id ? persistedRecipe : r));
+             if (isCurrentlyInHistory) {
+                 setHistory(prev => prev.map(r => r.id === recipe.id ? persistedRecipe : r));
              }
+         }
 
-             // 3. Save
-             await dbUpsertRecipe(persistedRecipe, isCurrentlyInHistory, true);
-        }
-    } catch (e) {
-        toast.error("Failed to update bookmark");
-        // Rollback
-        if (isCurrentlyBookmarked) setBookmarkedRecipes(prev => [recipe, ...prev]);
-        else setBookmarkedRecipes(prev => prev.filter(r => r.id !== recipe.id));
+         // 3. Queue the save
+         syncQueue.enqueue({ type: 'upsertRecipe', recipe: persistedRecipe, isHistory: isCurrentlyInHistory, isBookmarked: true });
     }
   };
 
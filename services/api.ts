@@ -4,11 +4,13 @@ import { Capacitor } from '@capacitor/core';
 import { CONFIG } from '../config';
 import { logger } from './loggerService';
 import { supabase } from './supabase';
+import { AiQuota } from '../types';
 
 interface ApiError {
     message: string;
     code?: string;
     status?: number;
+    quota?: AiQuota; // Sent with rate limit errors
 }
 
 // Check if we're running in a native Capacitor app vs web browser
@@ -16,6 +18,83 @@ const isNativeApp = (): boolean => {
     return Capacitor.isNativePlatform();
 };
 
+const createAbortError = (): Error => {
+    const error = new Error('Request cancelled');
+    error.name = 'AbortError';
+    return error;
+};
+
+/**
+ * True when a request was cancelled by the caller (not a timeout).
+ * UI code uses this to stay quiet instead of showing an error.
+ */
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+/**
+ * Sleep that wakes up early (rejecting) when the signal aborts
+ */
+const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) { reject(createAbortError()); return; }
+        const onAbort = () => { clearTimeout(timer); reject(createAbortError()); };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+/**
+ * Settle with the promise, or reject as soon as the signal aborts.
+ * CapacitorHttp requests can't be cancelled natively, so their result is dropped instead.
+ */
+const raceWithAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(createAbortError());
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(createAbortError());
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
+
+/**
+ * Whether a call counts against the AI quota (see CONFIG.api.meteredEndpoints)
+ */
+const isMeteredEndpoint = (endpoint: string): boolean =>
+    CONFIG.api.meteredEndpoints.some(path => endpoint.split('?')[0].endsWith(path));
+
+/**
+ * One controller per request that aborts on the caller's signal or on timeout,
+ * remembering which of the two happened.
+ */
+const createRequestController = (timeoutMs: number, callerSignal?: AbortSignal) => {
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const restartTimer = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs);
+    };
+    const onCallerAbort = () => controller.abort();
+
+    if (callerSignal?.aborted) controller.abort();
+    else callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+    restartTimer();
+
+    return {
+        signal: controller.signal,
+        get timedOut() { return timedOut; },
+        restartTimer,
+        dispose: () => {
+            clearTimeout(timer);
+            callerSignal?.removeEventListener('abort', onCallerAbort);
+        }
+    };
+};
+
 /**
  * Core API Client
  * Handles HTTP communication with the backend services.
@@ -30,45 +109,52 @@ class ApiClient {
 
     /**
      * Get authentication token using Supabase's session management
-     * This ensures token refresh is handled automatically
+     * This ensures token refresh is handled automatically.
+     * Edge functions refuse the anon key, so without a session the request
+     * fails here instead of on the server.
      */
     private async getAuthToken(): Promise<string> {
+        let token: string | undefined;
         try {
             const { data: { session } } = await supabase.auth.getSession();
-            return session?.access_token || CONFIG.supabase.anonKey;
+            token = session?.access_token;
         } catch (error) {
-            logger.warn('Failed to get session, using anon key', error);
-            return CONFIG.supabase.anonKey;
+            logger.warn('Failed to get session', error);
         }
+        if (!token) {
+            const error: ApiError = { message: 'Please sign in to use this feature.', status: 401, code: 'UNAUTHORIZED' };
+            throw error;
+        }
+        return token;
     }
 
     /**
-     * Create abort controller with timeout
-     */
-    private createTimeoutController(timeoutMs: number): AbortController {
-        const controller = new AbortController();
-        setTimeout(() => controller.abort(), timeoutMs);
-        return controller;
-    }
-
-    /**
-     * Retry logic with exponential backoff
+     * Retry logic with exponential backoff.
+     * Stops immediately (no further attempts or sleeps) once the signal aborts.
+     * With retryServerErrors off, only failures that never got a response are retried.
      */
     private async retryWithBackoff<T>(
         fn: () => Promise<T>,
+        signal?: AbortSignal,
+        retryServerErrors: boolean = true,
         maxRetries: number = CONFIG.api.retries || 3,
         baseDelay: number = 1000
     ): Promise<T> {
         let lastError: any;
         
         for (let attempt = 0; attempt <= maxRetries; attempt++) {
+            if (signal?.aborted) throw createAbortError();
             try {
                 return await fn();
             } catch (error: any) {
                 lastError = error;
                 
-                // Don't retry on 4xx errors (client errors)
-                if (error.status >= 400 && error.status < 500) {
+                // Cancelled requests and 4xx errors (client errors) aren't retried
+                if (isAbortError(error) || (error.status >= 400 && error.status < 500)) {
+                    throw error;
+                }
+                // Each attempt at a metered endpoint costs quota
+                if (!retryServerErrors && error.status >= 500) {
                     throw error;
                 }
                 
@@ -79,13 +165,133 @@ class ApiClient {
                 
                 // Exponential backoff: 1s, 2s, 4s
                 const delay = baseDelay * Math.pow(2, attempt);
-                await new Promise(resolve => setTimeout(resolve, delay));
+                await abortableDelay(delay, signal);
             }
         }
         
         throw lastError;
     }
 
+    /**
+     * Streamed responses need fetch + ReadableStream. Native apps go through
+     * CapacitorHttp, which only hands back complete bodies.
+     */
+    get supportsStreaming(): boolean {
+        return !isNativeApp() && typeof ReadableStream !== 'undefined';
+    }
+
+    /**
+     * POST that reads a newline-delimited JSON response and calls onEvent for
+     * each line as it arrives. The timeout is an idle timeout (restarted on
+     * every chunk). Only the connection is retried: once events have been
+     * delivered, a failure is passed to the caller.
+     */
+    async postStream<E>(
+        endpoint: string,
+        body: any,
+        onEvent: (event: E) => void,
+        options?: {
+            timeout?: number;
+            signal?: AbortSignal;
+        }
+    ): Promise<void> {
+        const isAbsolute = endpoint.startsWith('http');
+        const url = isAbsolute ? endpoint : `${this.baseUrl}${endpoint}`;
+        const token = await this.getAuthToken();
+
+        const headers: any = {
+            'Content-Type': 'application/json',
+            'Accept': 'application/x-ndjson',
+            'X-App-Version': CONFIG.version,
+            'apikey': CONFIG.supabase.anonKey,
+            'Authorization': `Bearer ${token}`
+        };
+
+        const idleTimeout = options?.timeout || CONFIG.api.timeout || 30000;
+        // Controller of the latest attempt, disposed when the stream ends
+        let request: ReturnType<typeof createRequestController> | undefined;
+
+        const toApiError = (error: any, timedOut: boolean) => {
+            if (isAbortError(error)) {
+                return timedOut ? new Error('Request timeout') : createAbortError();
+            }
+            if (!error?.status) return new Error('Network error. Please check your connection.');
+            return error;
+        };
+
+        const connect = async () => {
+            // Fresh controller for every attempt; one that timed out stays aborted
+            request?.dispose();
+            const attempt = createRequestController(idleTimeout, options?.signal);
+            request = attempt;
+            try {
+                const response = await fetch(url, {
+                    method: 'POST',
+                    headers,
+                    body: JSON.stringify(body),
+                    signal: attempt.signal,
+                });
+                if (response.status >= 400) {
+                    const responseData = await response.json().catch(() => null);
+                    const error: ApiError = {
+                        message: responseData?.error || responseData?.message || `API Error: ${response.status}`,
+                        status: response.status,
+                        code: responseData?.code,
+                        quota: responseData?.quota
+                    };
+                    throw error;
+                }
+                return { response, attempt };
+            } catch (error: any) {
+                throw toApiError(error, attempt.timedOut);
+            }
+        };
+
+        const emitLines = (text: string) => {
+            text.split('\n').filter(line => line.trim()).forEach(line => onEvent(JSON.parse(line)));
+        };
+
+        try {
+            // The reader loop restarts the idle timer of the attempt that connected
+            const { response, attempt: live } = await this.retryWithBackoff(connect, options?.signal, !isMeteredEndpoint(endpoint));
+
+            if (!response.body) {
+                emitLines(await response.text());
+                return;
+            }
+
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let pending = '';
+            try {
+                while (true) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    live.restartTimer();
+                    pending += decoder.decode(value, { stream: true });
+                    const lastBreak = pending.lastIndexOf('\n');
+                    if (lastBreak === -1) continue;
+                    emitLines(pending.slice(0, lastBreak));
+                    pending = pending.slice(lastBreak + 1);
+                }
+                emitLines(pending + decoder.decode());
+            } catch (error: any) {
+                throw toApiError(error, live.timedOut);
+            }
+        } catch (error: any) {
+            if (!isAbortError(error)) {
+                logger.error(`API stream failed for ${isAbsolute ? endpoint.split('?')[0] : endpoint}`, {
+                    status: error.status,
+                    code: error.code,
+                    message: error.message
+                });
+            }
+            throw error;
+        } finally {
+            request?.dispose();
+        }
+    }
+
     /**
      * Generic POST request wrapper with security best practices
      */
@@ -113,23 +319,23 @@ class ApiClient {
         };
 
         const timeout = options?.timeout || CONFIG.api.timeout || 30000;
-        const timeoutController = options?.signal 
-            ? null 
-            : this.createTimeoutController(timeout);
-        const signal = options?.signal || timeoutController?.signal;
 
         const makeRequest = async (): Promise<T> => {
+            // Fresh timeout for every attempt; the caller's signal cancels all of them
+            const request = createRequestController(timeout, options?.signal);
             try {
                 let responseData: any;
                 let responseStatus: number;
 
                 if (isNativeApp()) {
                     // Use CapacitorHttp for native apps (bypasses CORS)
-                    const response = await CapacitorHttp.post({
+                    const response = await raceWithAbort(CapacitorHttp.post({
                         url,
                         headers,
                         data: body,
-                    });
+                        connectTimeout: timeout,
+                        readTimeout: timeout,
+                    }), request.signal);
                     responseData = response.data;
                     responseStatus = response.status;
                 } else {
@@ -138,7 +344,7 @@ class ApiClient {
                         method: 'POST',
                         headers,
                         body: JSON.stringify(body),
-                        signal,
+                        signal: request.signal,
                     });
                     responseStatus = response.status;
                     responseData = await response.json();
@@ -148,7 +354,8 @@ class ApiClient {
                     const error: ApiError = {
                         message: responseData?.error || responseData?.message || `API Error: ${responseStatus}`,
                         status: responseStatus,
-                        code: responseData?.code
+                        code: responseData?.code,
+                        quota: responseData?.quota
                     };
                     throw error;
                 }
@@ -165,17 +372,19 @@ class ApiClient {
 
                 return responseData;
             } catch (error: any) {
-                // Handle timeout
-                if (timeoutController?.signal.aborted || error.name === 'AbortError') {
-                    throw new Error('Request timeout');
+                // Handle cancellation and timeout
+                if (isAbortError(error) || request.signal.aborted) {
+                    throw request.timedOut ? new Error('Request timeout') : createAbortError();
                 }
                 
                 // Handle network errors
-                if (!error.status && error.message !== 'Request timeout') {
+                if (!error.status) {
                     throw new Error('Network error. Please check your connection.');
                 }
                 
                 throw error;
+            } finally {
+                request.dispose();
             }
         };
 
@@ -184,8 +393,11 @@ class ApiClient {
             if (options?.skipRetry) {
                 return await makeRequest();
             }
-            return await this.retryWithBackoff(makeRequest);
+            return await this.retryWithBackoff(makeRequest, options?.signal, !isMeteredEndpoint(endpoint));
         } catch (error: any) {
+            // Cancelled by the caller: expected, not worth an error log
+            if (isAbortError(error)) throw error;
+
             // Sanitize URL in logs (don't expose full endpoint structure)
             const sanitizedUrl = isAbsolute 
                 ? endpoint.split('?')[0] // Remove query params
@@ -0,0 +1,83 @@
+/**
+ * Ingredient Categories
+ * Guesses the PANTRY_CATEGORIES entry for an ingredient name from keywords,
+ * for items that never went through the AI scanner (recipe ingredients,
+ * typed shopping list entries). Unknown names fall back to "General".
+ */
+
+import { singularize } from './ingredientMatching';
+
+// Singular, lowercase. The longest keyword found in a name wins,
+// so "peanut butter" is a snack and "chili powder" a spice.
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  Produce: [
+    'onion', 'garlic', 'tomato', 'potato', 'carrot', 'lettuce', 'spinach', 'kale', 'cabbage', 'broccoli',
+    'cauliflower', 'pepper', 'bell pepper', 'capsicum', 'chili', 'chilli', 'cucumber', 'zucchini', 'courgette',
+    'eggplant', 'aubergine', 'mushroom', 'ginger', 'lemon', 'lime', 'orange', 'apple', 'banana', 'berry',
+    'strawberry', 'grape', 'mango', 'avocado', 'herb', 'basil', 'cilantro', 'coriander', 'parsley', 'mint',
+    'dill', 'celery', 'leek', 'pea', 'green bean', 'corn', 'squash', 'pumpkin', 'beet', 'beetroot', 'radish',
+    'arugula', 'asparagus', 'scallion', 'green onion', 'spring onion', 'shallot', 'fruit', 'vegetable', 'salad',
+    'pineapple', 'melon', 'peach', 'pear', 'plum', 'cherry', 'sprout', 'okra', 'yam', 'sweet potato'
+  ],
+  Dairy: [
+    'milk', 'cheese', 'butter', 'yogurt', 'yoghurt', 'curd', 'cream', 'egg', 'ghee', 'paneer', 'mozzarella',
+    'parmesan', 'feta', 'cheddar', 'ricotta', 'buttermilk', 'sour cream', 'mascarpone', 'halloumi'
+  ],
+  Meat: [
+    'chicken', 'beef', 'pork', 'lamb', 'mutton', 'turkey', 'bacon', 'ham', 'sausage', 'mince', 'steak',
+    'fish', 'salmon', 'tuna', 'shrimp', 'prawn', 'cod', 'tilapia', 'crab', 'lobster', 'anchovy', 'chorizo',
+    'prosciutto', 'salami', 'duck', 'tofu', 'tempeh'
+  ],
+  Grains: [
+    'rice', 'pasta', 'spaghetti', 'penne', 'noodle', 'flour', 'oat', 'oats', 'quinoa', 'couscous', 'barley',
+    'lentil', 'dal', 'bean', 'chickpea', 'cereal', 'cornmeal', 'polenta', 'semolina', 'macaroni', 'bulgur',
+    'breadcrumb', 'panko'
+  ],
+  Bakery: [
+    'bread', 'bun', 'roll', 'bagel', 'croissant', 'tortilla', 'wrap', 'pita', 'naan', 'baguette', 'brioche',
+    'muffin', 'cake', 'sourdough', 'roti', 'chapati'
+  ],
+  Spices: [
+    'salt', 'black pepper', 'peppercorn', 'cumin', 'turmeric', 'paprika', 'cinnamon', 'oregano', 'thyme',
+    'rosemary', 'chili powder', 'chili flake', 'chilli powder', 'chilli flake', 'garam masala', 'curry powder',
+    'nutmeg', 'clove', 'cardamom', 'coriander seed', 'coriander powder', 'bay leaf', 'saffron', 'vanilla',
+    'seasoning', 'spice', 'mustard seed', 'fennel seed', 'sesame seed'
+  ],
+  Beverages: ['juice', 'coffee', 'tea', 'soda', 'cola', 'water', 'beer', 'wine', 'kombucha', 'lemonade', 'smoothie'],
+  Frozen: ['frozen', 'ice cream', 'sorbet', 'fish finger', 'fish stick'],
+  Snacks: [
+    'chip', 'crisp', 'cracker', 'cookie', 'biscuit', 'chocolate', 'popcorn', 'pretzel', 'granola bar', 'candy',
+    'nut', 'almond', 'cashew', 'peanut', 'peanut butter', 'walnut', 'pistachio', 'raisin'
+  ]
+};
+
+const nameWords = (name: string): string[] =>
+  name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize);
+
+/**
+ * Best-guess category for an ingredient or shopping list name
+ */
+export const categorizeIngredient = (name: string): string => {
+  const words = nameWords(name);
+  // Anything sold frozen lives in the freezer aisle, whatever it is
+  if (words.includes('frozen')) return 'Frozen';
+
+  const text = ` ${words.join(' ')} `;
+  let best = 'General';
+  let bestLength = 0;
+  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+    for (const keyword of keywords) {
+      if (keyword.length > bestLength && text.includes(` ${keyword} `)) {
+        best = category;
+        bestLength = keyword.length;
+      }
+    }
+  }
+  return best;
+};
@@ -1,10 +1,13 @@
 
-import { UserPreferences, PantryItem, Recipe } from "../types";
+import { UserPreferences, PantryItem, Recipe, ScannedPantryItem, AiQuota, MealSlot, MEAL_SLOTS } from "../types";
+import { differenceInCalendarDays } from "date-fns";
 import { logger } from "./loggerService";
 import { CONFIG } from "../config";
-import { api } from "./api";
+import { api, isAbortError } from "./api";
 import { generateId } from "../utils/helpers";
 import { startSpanAsync } from "./monitoringService";
+import { normalizeUnit, parseQuantity } from "./quantityService";
+import { GeneratedRecipe, validateList, validateRecipe, validateScannedItem } from "./validationService";
 
 // Helper for Staples
 export const isBasicStaple = (itemName: string): boolean => {
@@ -17,37 +20,41 @@ export const isBasicStaple = (itemName: string): boolean => {
     return false;
 };
 
-export const generateThumbnail = async (title: string, description: string): Promise<string | undefined> => {
+export const generateThumbnail = async (title: string, description: string, signal?: AbortSignal): Promise<string | undefined> => {
   return startSpanAsync(
     { op: 'ai.generate', name: 'Generate Recipe Thumbnail', attributes: { recipeTitle: title } },
     async () => {
       try {
-        const res = await api.post<{ image: string }>(CONFIG.api.endpoints.generateThumbnail, { title, description });
+        const res = await api.post<{ image?: string; url?: string }>(CONFIG.api.endpoints.generateThumbnail, { title, description }, { signal });
+        // Cached or stored thumbnails come back as a public URL
+        if (res.url) return res.url;
         if (res.image && !res.image.startsWith('data:')) {
           return `data:image/jpeg;base64,${res.image}`;
         }
         return res.image;
       } catch (e) {
-        logger.error("Thumbnail generation failed", e);
+        if (!isAbortError(e)) logger.error("Thumbnail generation failed", e);
         return undefined;
       }
     }
   );
 };
 
-export const identifyItemsFromImage = async (base64Image: string): Promise<any[]> => {
+export const identifyItemsFromImage = async (base64Image: string, signal?: AbortSignal): Promise<ScannedPantryItem[]> => {
   return startSpanAsync(
     { op: 'ai.parse', name: 'Scan Pantry Image', attributes: { inputType: 'image' } },
     async () => {
       const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
 
       try {
-        const res = await api.post<{ items: any[] }>(CONFIG.api.endpoints.parsePantry, { 
+        const res = await api.post<{ items: unknown }>(CONFIG.api.endpoints.parsePantry, { 
           type: 'image', 
           data: cleanBase64 
-        });
-        return res.items;
+        }, { signal });
+        return validateList(res.items, validateScannedItem, 'pantry scan');
       } catch (e) {
+        // Cancellation is passed on so the caller doesn't report "no items found"
+        if (isAbortError(e)) throw e;
         logger.error("Backend image parse failed", e);
         return [];
       }
@@ -55,13 +62,34 @@ export const identifyItemsFromImage = async (base64Image: string): Promise<any[]
   );
 };
 
-export const parsePantryNaturalLanguage = async (text: string): Promise<any[]> => {
+export const scanReceipt = async (base64Image: string, signal?: AbortSignal): Promise<ScannedPantryItem[]> => {
+  return startSpanAsync(
+    { op: 'ai.parse', name: 'Scan Receipt', attributes: { inputType: 'receipt' } },
+    async () => {
+      const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
+
+      try {
+        const res = await api.post<{ items: unknown }>(CONFIG.api.endpoints.parsePantry, {
+          type: 'receipt',
+          data: cleanBase64
+        }, { signal });
+        return validateList(res.items, validateScannedItem, 'receipt scan');
+      } catch (e) {
+        if (isAbortError(e)) throw e;
+        logger.error("Backend receipt parse failed", e);
+        return [];
+      }
+    }
+  );
+};
+
+export const parsePantryNaturalLanguage = async (text: string): Promise<ScannedPantryItem[]> => {
   return startSpanAsync(
     { op: 'ai.parse', name: 'Parse Voice Input', attributes: { inputType: 'voice', textLength: text.length } },
     async () => {
       try {
-        const res = await api.post<{ items: any[] }>(CONFIG.api.endpoints.parsePantry, { type: 'text', data: text });
-        return res.items;
+        const res = await api.post<{ items: unknown }>(CONFIG.api.endpoints.parsePantry, { type: 'text', data: text });
+        return validateList(res.items, validateScannedItem, 'voice parse');
       } catch (e) {
         logger.error("Voice parse failed", e);
         return [];
@@ -70,6 +98,49 @@ export const parsePantryNaturalLanguage = async (text: string): Promise<any[]> =
   );
 };
 
+// Streamed generate-recipes events (newline-delimited JSON)
+type RecipeStreamEvent =
+  | { type: 'recipe'; recipe: any }
+  | { type: 'done'; count: number; quota?: AiQuota }
+  | { type: 'error'; error: string; code?: string };
+
+/**
+ * Client-side shape for a validated recipe from the edge function:
+ * id, structured ingredient amounts and pantry match score.
+ */
+const prepareRecipe = (raw: GeneratedRecipe): Recipe => {
+  const ingredients = raw.ingredients.map(({ quantity, unit, ...i }) => ({
+      ...i,
+      // Structured amount from the schema; parse the text for older responses
+      measure: typeof quantity === 'number' && unit
+          ? { val: quantity, unit: normalizeUnit(unit) }
+          : parseQuantity(i.amount),
+      isAvailableInPantry: i.isAvailableInPantry || isBasicStaple(i.name)
+  }));
+  const total = ingredients.length;
+  const available = ingredients.filter(i => i.isAvailableInPantry).length;
+  return {
+      ...raw,
+      id: generateId(),
+      ingredients,
+      matchScore: total > 0 ? Math.round((available / total) * 100) : 0
+  };
+};
+
+/**
+ * Thumbnail for a generated recipe. Uses imagePrompt (visual description)
+ * instead of description (witty text) for better images.
+ */
+export const generateRecipeThumbnail = (recipe: Recipe, signal?: AbortSignal): Promise<string | undefined> =>
+  generateThumbnail(recipe.title, recipe.imagePrompt || recipe.description, signal);
+
+/**
+ * Generate recipes from the pantry. On the web the edge function streams
+ * recipes as they are written and onRecipe fires for each one straight away;
+ * native apps get them all at once. Thumbnails are not generated here, so
+ * callers can show cards first and fill images in with generateRecipeThumbnail.
+ * onQuota reports the remaining daily generations, also when the quota is used up.
+ */
 export const generateRecipes = async (
   pantry: PantryItem[],
   preferences: UserPreferences,
@@ -83,8 +154,10 @@ export const generateRecipes = async (
     homeStyle?: boolean; 
   },
   existingTitles: string[] = [],
-  count: number = 4
+  count: number = 4,
+  options: { onRecipe?: (recipe: Recipe) => void; onQuota?: (quota: AiQuota) => void; signal?: AbortSignal } = {}
 ): Promise<Recipe[]> => {
+  const { onRecipe, onQuota, signal } = options;
   return startSpanAsync(
     { 
       op: 'ai.generate', 
@@ -97,37 +170,66 @@ export const generateRecipes = async (
       } 
     },
     async () => {
-  let recipes: Recipe[] = [];
+  const recipes: Recipe[] = [];
+
+  // Safety: Ensure we only use the requested number of recipes, and only ones that can be cooked
+  const accept = (raw: unknown) => {
+    if (recipes.length >= count) return;
+    const { value, issues } = validateRecipe(raw);
+    if (issues.length > 0) logger.warn(value ? "Repaired generated recipe" : "Dropped invalid generated recipe", { issues });
+    if (!value) return;
+    const recipe = prepareRecipe(value);
+    recipes.push(recipe);
+    onRecipe?.(recipe);
+  };
 
   try {
-    const res = await api.post<{ recipes: any[] }>(CONFIG.api.endpoints.generateRecipes, {
+    const payload = {
       pantry: pantry.map(p => ({ name: p.name, quantity: p.quantity, unit: p.unit })),
       preferences,
       context,
       existingTitles,
-      count
-    });
-    
-    // Check if response has recipes
-    if (!res || !res.recipes || !Array.isArray(res.recipes)) {
-      logger.error("Invalid response format from generate-recipes", res);
-      throw new Error("Invalid response from server. Please try again.");
+      count,
+      // "Load more" skips the server cache so it never repeats a cached batch
+      fresh: existingTitles.length > 0
+    };
+
+    if (api.supportsStreaming) {
+      let streamError: { error: string; code?: string } | null = null;
+      await api.postStream<RecipeStreamEvent | { recipes?: any[] }>(CONFIG.api.endpoints.generateRecipes, { ...payload, stream: true }, event => {
+        if ('type' in event) {
+          if (event.type === 'recipe') accept(event.recipe);
+          else if (event.type === 'done' && event.quota) onQuota?.(event.quota);
+          else if (event.type === 'error') streamError = event;
+        } else if (Array.isArray(event.recipes)) {
+          // Function deployed without streaming support answers with one JSON body
+          event.recipes.forEach(accept);
+        }
+      }, { signal });
+      // Keep whatever arrived before a mid-stream failure
+      if (streamError && recipes.length === 0) {
+        const { error, code } = streamError;
+        throw { message: error, code, status: 500 };
+      }
+    } else {
+      const res = await api.post<{ recipes: any[]; quota?: AiQuota }>(CONFIG.api.endpoints.generateRecipes, payload, { timeout: CONFIG.api.generationTimeout, signal });
+      if (res?.quota) onQuota?.(res.quota);
+
+      // Check if response has recipes
+      if (!res || !res.recipes || !Array.isArray(res.recipes)) {
+        logger.error("Invalid response format from generate-recipes", res);
+        throw new Error("Invalid response from server. Please try again.");
+      }
+      res.recipes.forEach(accept);
     }
     
-    // Safety: Ensure we only use the requested number of recipes
-    const limitedRecipes = res.recipes.slice(0, count);
-    
-    if (limitedRecipes.length === 0) {
+    if (recipes.length === 0) {
       logger.warn("No recipes returned from API");
       throw new Error("No recipes generated. Try adjusting your filters or adding more items to your pantry.");
     }
-    
-    recipes = limitedRecipes.map((r: any) => ({
-      ...r,
-      id: generateId(),
-      matchScore: 0 
-    }));
   } catch (e: any) {
+    if (isAbortError(e)) throw e;
+    if (e?.quota) onQuota?.(e.quota);
     logger.error("Backend generation failed", {
       error: e,
       message: e?.message,
@@ -137,52 +239,84 @@ export const generateRecipes = async (
     throw e;
   }
 
-  // --- POST-PROCESSING ---
-  recipes = recipes.map(r => {
-      const ingredients = r.ingredients.map((i: any) => ({
-          ...i,
-          isAvailableInPantry: i.isAvailableInPantry || isBasicStaple(i.name)
-      }));
-      const total = ingredients.length;
-      const available = ingredients.filter((i: any) => i.isAvailableInPantry).length;
-      return {
-          ...r,
-          ingredients,
-          matchScore: total > 0 ? Math.round((available / total) * 100) : 0
-      };
-  });
-
-  recipes.sort((a, b) => {
+  return [...recipes].sort((a, b) => {
       if (context.prioritizeExpiring) {
           if (a.usesExpiringIngredients && !b.usesExpiringIngredients) return -1;
           if (!a.usesExpiringIngredients && b.usesExpiringIngredients) return 1;
       }
       return b.matchScore - a.matchScore;
   });
+    }
+  );
+};
+
+// One meal of a generated plan; day 1 is the first day planned
+export interface GeneratedPlanEntry {
+  day: number;
+  slot: MealSlot;
+  recipe: Recipe;
+}
+
+/**
+ * Generate a multi-day meal plan in one request (generate-recipes planning mode).
+ * The whole pantry goes along with days until expiry, counted from the plan's
+ * first day, so the model can schedule the most perishable food first and
+ * share ingredients between days. Entry day 1 is plan.start.
+ */
+export const generateMealPlan = async (
+  pantry: PantryItem[],
+  preferences: UserPreferences,
+  plan: { days: number; meals: MealSlot[]; start: Date },
+  options: { onQuota?: (quota: AiQuota) => void; signal?: AbortSignal } = {}
+): Promise<GeneratedPlanEntry[]> => {
+  const { onQuota, signal } = options;
+  return startSpanAsync(
+    { op: 'ai.generate', name: 'Generate Meal Plan', attributes: { pantryItemCount: pantry.length, days: plan.days, meals: plan.meals.length } },
+    async () => {
+      const payload = {
+        mode: 'plan',
+        pantry: pantry.map(p => ({
+          name: p.name,
+          quantity: p.quantity,
+          unit: p.unit,
+          ...(p.expiryDate ? { expiresInDays: differenceInCalendarDays(new Date(p.expiryDate), plan.start) } : {})
+        })),
+        preferences,
+        plan: {
+          days: plan.days,
+          meals: plan.meals,
+          startsInDays: Math.max(0, differenceInCalendarDays(plan.start, new Date()))
+        }
+      };
 
-  // --- IMAGE GENERATION (Parallel) ---
-  // Generate all thumbnails in parallel for better performance
-  // Promise.allSettled ensures one failure doesn't block others
-  // Use imagePrompt (visual description) instead of description (witty text) for better images
-  await Promise.allSettled(recipes.map(async (recipe) => {
       try {
-          const imageDescription = recipe.imagePrompt || recipe.description;
-          const rawImage = await generateThumbnail(recipe.title, imageDescription);
-          if (rawImage) {
-             recipe.generatedImage = rawImage; // Base64 WebP
-          }
-      } catch (error) {
-          // Individual failures don't block other images
-          logger.warn(`Failed to generate thumbnail for ${recipe.title}`, error);
-      }
-  }));
+        const res = await api.post<{ plan: unknown; quota?: AiQuota }>(CONFIG.api.endpoints.generateRecipes, payload, { timeout: CONFIG.api.generationTimeout, signal });
+        if (res?.quota) onQuota?.(res.quota);
+
+        const entries: GeneratedPlanEntry[] = [];
+        for (const raw of Array.isArray(res?.plan) ? res.plan : []) {
+          const slot = MEAL_SLOTS.find(s => s === raw?.slot);
+          const { value, issues } = validateRecipe(raw?.recipe);
+          if (issues.length > 0) logger.warn(value ? "Repaired planned recipe" : "Dropped invalid planned recipe", { issues });
+          if (!slot || !value || !Number.isInteger(raw?.day)) continue;
+          entries.push({ day: raw.day, slot, recipe: prepareRecipe(value) });
+        }
 
-  return recipes;
+        if (entries.length === 0) {
+          throw new Error("No meal plan generated. Try adding more items to your pantry.");
+        }
+        return entries;
+      } catch (e: any) {
+        if (isAbortError(e)) throw e;
+        if (e?.quota) onQuota?.(e.quota);
+        logger.error("Meal plan generation failed", { error: e, message: e?.message, status: e?.status, code: e?.code });
+        throw e;
+      }
     }
   );
 };
 
-export const askAiAboutStep = async (title: string, step: string, question?: string): Promise<string> => {
+export const askAiAboutStep = async (title: string, step: string, question?: string, signal?: AbortSignal): Promise<string> => {
   return startSpanAsync(
     { op: 'ai.assist', name: 'Ask AI About Step', attributes: { recipeTitle: title, hasQuestion: !!question } },
     async () => {
@@ -198,13 +332,14 @@ export const askAiAboutStep = async (title: string, step: string, question?: str
         }
         
         // If not cached, make API call
-        const res = await api.post<{ answer: string }>(CONFIG.api.endpoints.askStep, { title, step, question });
+        const res = await api.post<{ answer: string }>(CONFIG.api.endpoints.askStep, { title, step, question }, { signal });
         
         // Cache the answer for future use
         await askStepCache.setCachedAnswer(title, step, res.answer, question);
         
         return res.answer;
       } catch (e) {
+        if (isAbortError(e)) throw e;
         logger.error("Ask step failed", e);
         return "Chef is disconnected.";
       }
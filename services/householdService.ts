@@ -0,0 +1,132 @@
+/**
+ * Household Service
+ * A household owns the shared pantry and shopping list. Each user belongs to
+ * exactly one household; a personal one is created on first use.
+ * Membership changes go through RPCs so ownership rules are enforced server-side.
+ */
+
+import { Household, HouseholdInvite, HouseholdMember } from '../types';
+import { supabase } from './supabase';
+import { localStore, LOCAL_KEYS } from './localStore';
+
+// Cached per signed-in user so every pantry/shopping query doesn't round-trip
+let cachedHousehold: { userId: string; householdId: string } | null = null;
+
+/**
+ * Resolve the current user's household id (creating a personal household if needed).
+ * When the server can't be reached the id saved by HouseholdContext is used;
+ * without one the error is thrown with status 0 so queued writes are retried later.
+ */
+export const getHouseholdId = async (): Promise<string | null> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) return null;
+    const userId = session.user.id;
+    if (cachedHousehold?.userId === userId) return cachedHousehold.householdId;
+
+    const { data, error, status } = await supabase.rpc('ensure_household');
+    if (error) {
+        // No response at all (status 0) is a network failure, not a rejection
+        if (status === 0) {
+            const saved = await localStore.get<Household>(LOCAL_KEYS.household);
+            if (saved?.members.some(m => m.userId === userId)) return saved.id;
+        }
+        throw Object.assign(error, { status });
+    }
+    cachedHousehold = { userId, householdId: data as string };
+    return cachedHousehold.householdId;
+};
+
+const resetHouseholdCache = () => {
+    cachedHousehold = null;
+};
+
+export const loadHousehold = async (): Promise<Household | null> => {
+    const householdId = await getHouseholdId();
+    if (!householdId) return null;
+
+    const [householdRes, membersRes] = await Promise.all([
+        supabase.from('households').select('*').eq('id', householdId).single(),
+        supabase.from('household_members').select('*').eq('household_id', householdId).order('joined_at', { ascending: true })
+    ]);
+    if (householdRes.error) throw householdRes.error;
+    if (membersRes.error) throw membersRes.error;
+
+    const members: HouseholdMember[] = (membersRes.data || []).map((row: any) => ({
+        userId: row.user_id,
+        email: row.email || undefined,
+        role: row.role,
+        joinedAt: row.joined_at
+    }));
+
+    return {
+        id: householdRes.data.id,
+        name: householdRes.data.name,
+        inviteCode: householdRes.data.invite_code,
+        ownerId: householdRes.data.owner_id,
+        members
+    };
+};
+
+/**
+ * Invites addressed to the signed-in user's email
+ */
+export const loadPendingInvites = async (): Promise<HouseholdInvite[]> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const email = session?.user?.email;
+    if (!email) return [];
+
+    const { data, error } = await supabase.from('household_invites').select('*').ilike('email', email);
+    if (error) throw error;
+    return (data || []).map((row: any) => ({
+        id: row.id,
+        householdId: row.household_id,
+        email: row.email,
+        createdAt: row.created_at
+    }));
+};
+
+export const inviteMemberByEmail = async (email: string) => {
+    const householdId = await getHouseholdId();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!householdId || !session?.user) return;
+
+    // Re-inviting an address is a no-op (invites have no update policy)
+    const { error } = await supabase.from('household_invites').upsert(
+        { household_id: householdId, email: email.trim().toLowerCase(), invited_by: session.user.id },
+        { onConflict: 'household_id,email', ignoreDuplicates: true }
+    );
+    if (error) throw error;
+};
+
+export const joinHouseholdByCode = async (inviteCode: string) => {
+    const { data, error } = await supabase.rpc('join_household', { p_invite_code: inviteCode });
+    resetHouseholdCache();
+    if (error) throw error;
+    // A wrong code comes back empty so the server can count the failed attempt
+    if (!data) throw new Error('Invalid invite code');
+};
+
+export const acceptHouseholdInvite = async (inviteId: string) => {
+    const { error } = await supabase.rpc('accept_household_invite', { p_invite_id: inviteId });
+    resetHouseholdCache();
+    if (error) throw error;
+};
+
+/**
+ * Leave the shared household. The user starts over with an empty personal household.
+ */
+export const leaveHousehold = async () => {
+    const { error } = await supabase.rpc('leave_household');
+    resetHouseholdCache();
+    if (error) throw error;
+};
+
+export const renameHousehold = async (name: string) => {
+    const { error } = await supabase.rpc('rename_household', { p_name: name.trim() });
+    if (error) throw error;
+};
+
+export const transferHouseholdOwnership = async (newOwnerId: string) => {
+    const { error } = await supabase.rpc('transfer_household_ownership', { p_new_owner: newOwnerId });
+    if (error) throw error;
+};
@@ -0,0 +1,102 @@
+/**
+ * Ingredient Knowledge
+ * Physical data used for cross-unit conversion: density (g per ml) for
+ * volume <-> mass, and typical weight of one piece for pcs <-> mass.
+ * Values are kitchen averages, good enough for pantry bookkeeping.
+ */
+
+export interface IngredientFacts {
+  name: string;
+  aliases?: string[];
+  densityGPerMl?: number;
+  pieceWeightG?: number;
+}
+
+export const INGREDIENT_KNOWLEDGE: IngredientFacts[] = [
+  // Baking & dry goods (1 cup flour ~ 125 g)
+  { name: 'flour', aliases: ['all-purpose flour', 'plain flour', 'wheat flour', 'maida', 'atta'], densityGPerMl: 0.53 },
+  { name: 'bread flour', densityGPerMl: 0.55 },
+  { name: 'whole wheat flour', aliases: ['wholemeal flour'], densityGPerMl: 0.51 },
+  { name: 'cornstarch', aliases: ['corn starch', 'cornflour'], densityGPerMl: 0.54 },
+  { name: 'sugar', aliases: ['white sugar', 'granulated sugar', 'caster sugar'], densityGPerMl: 0.85 },
+  { name: 'brown sugar', densityGPerMl: 0.93 },
+  { name: 'powdered sugar', aliases: ['icing sugar', 'confectioners sugar'], densityGPerMl: 0.51 },
+  { name: 'cocoa powder', aliases: ['cocoa'], densityGPerMl: 0.42 },
+  { name: 'baking powder', densityGPerMl: 0.9 },
+  { name: 'baking soda', aliases: ['bicarbonate of soda'], densityGPerMl: 0.96 },
+  { name: 'salt', aliases: ['table salt', 'sea salt'], densityGPerMl: 1.2 },
+  { name: 'kosher salt', densityGPerMl: 0.54 },
+  { name: 'rice', aliases: ['basmati rice', 'jasmine rice', 'white rice', 'brown rice'], densityGPerMl: 0.85 },
+  { name: 'oats', aliases: ['rolled oats', 'oatmeal'], densityGPerMl: 0.41 },
+  { name: 'lentils', aliases: ['dal', 'red lentils'], densityGPerMl: 0.85 },
+  { name: 'breadcrumbs', aliases: ['panko'], densityGPerMl: 0.45 },
+  { name: 'pasta', aliases: ['spaghetti', 'penne', 'macaroni'], densityGPerMl: 0.45 },
+  { name: 'quinoa', densityGPerMl: 0.72 },
+
+  // Liquids & fats
+  { name: 'water', densityGPerMl: 1.0 },
+  { name: 'milk', aliases: ['whole milk', 'skim milk'], densityGPerMl: 1.03 },
+  { name: 'cream', aliases: ['heavy cream', 'double cream', 'whipping cream'], densityGPerMl: 0.99 },
+  { name: 'yogurt', aliases: ['yoghurt', 'curd', 'greek yogurt'], densityGPerMl: 1.03 },
+  { name: 'oil', aliases: ['vegetable oil', 'olive oil', 'canola oil', 'sunflower oil', 'cooking oil'], densityGPerMl: 0.92 },
+  { name: 'butter', densityGPerMl: 0.96 },
+  { name: 'ghee', densityGPerMl: 0.91 },
+  { name: 'honey', densityGPerMl: 1.42 },
+  { name: 'maple syrup', densityGPerMl: 1.32 },
+  { name: 'soy sauce', densityGPerMl: 1.2 },
+  { name: 'vinegar', densityGPerMl: 1.01 },
+  { name: 'peanut butter', densityGPerMl: 1.08 },
+  { name: 'tomato paste', densityGPerMl: 1.1 },
+  { name: 'grated cheese', aliases: ['shredded cheese', 'parmesan'], densityGPerMl: 0.42 },
+
+  // Countable produce & proteins
+  { name: 'egg', pieceWeightG: 50 },
+  { name: 'garlic', aliases: ['garlic clove'], pieceWeightG: 5 },
+  { name: 'onion', aliases: ['red onion', 'yellow onion', 'white onion'], pieceWeightG: 150 },
+  { name: 'spring onion', aliases: ['green onion', 'scallion'], pieceWeightG: 15 },
+  { name: 'shallot', pieceWeightG: 40 },
+  { name: 'potato', pieceWeightG: 170 },
+  { name: 'sweet potato', pieceWeightG: 200 },
+  { name: 'tomato', pieceWeightG: 120 },
+  { name: 'cherry tomato', pieceWeightG: 15 },
+  { name: 'carrot', pieceWeightG: 60 },
+  { name: 'cabbage', pieceWeightG: 900 },
+  { name: 'cauliflower', pieceWeightG: 600 },
+  { name: 'broccoli', pieceWeightG: 350 },
+  { name: 'lettuce', pieceWeightG: 500 },
+  { name: 'cucumber', pieceWeightG: 300 },
+  { name: 'zucchini', aliases: ['courgette'], pieceWeightG: 200 },
+  { name: 'bell pepper', aliases: ['capsicum', 'red pepper', 'green pepper'], pieceWeightG: 160 },
+  { name: 'chili', aliases: ['chilli', 'green chili', 'jalapeno'], pieceWeightG: 15 },
+  { name: 'mushroom', pieceWeightG: 15 },
+  { name: 'ginger', pieceWeightG: 15 },
+  { name: 'lemon', pieceWeightG: 100 },
+  { name: 'lime', pieceWeightG: 65 },
+  { name: 'apple', pieceWeightG: 180 },
+  { name: 'banana', pieceWeightG: 120 },
+  { name: 'avocado', pieceWeightG: 170 },
+  { name: 'chicken breast', pieceWeightG: 200 },
+  { name: 'chicken thigh', pieceWeightG: 120 },
+  { name: 'bread', aliases: ['bread slice', 'toast'], pieceWeightG: 30 },
+  { name: 'tortilla', aliases: ['wrap', 'roti', 'chapati'], pieceWeightG: 45 }
+];
+
+// Every name/alias -> facts, longest first so "sweet potato" wins over "potato"
+const LOOKUP = INGREDIENT_KNOWLEDGE
+  .flatMap(facts => [facts.name, ...(facts.aliases || [])].map(alias => ({ alias, facts })))
+  .sort((a, b) => b.alias.length - a.alias.length);
+
+/**
+ * Find facts for an ingredient name ("2 large eggs" -> egg, "All-Purpose Flour" -> flour).
+ * Matches whole words and simple plurals.
+ */
+export const lookupIngredient = (name?: string): IngredientFacts | null => {
+  if (!name) return null;
+  const text = ` ${name.toLowerCase().replace(/[^a-z\s-]/g, ' ').replace(/\s+/g, ' ').trim()} `;
+
+  for (const { alias, facts } of LOOKUP) {
+    const escaped = alias.replace(/[-]/g, '\\-');
+    if (new RegExp(`\\s${escaped}(e?s)?\\s`).test(text)) return facts;
+  }
+  return null;
+};
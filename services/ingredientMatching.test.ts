@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { findBestMatch, ingredientSimilarity, isSameIngredient, MATCH_THRESHOLD } from './ingredientMatching';
+
+const pantry = (...names: string[]) => names.map(name => ({ name }));
+
+describe('isSameIngredient', () => {
+  it('treats plural and singular as the same ingredient', () => {
+    expect(isSameIngredient('Eggs', 'egg')).toBe(true);
+    expect(isSameIngredient('Tomatoes', 'tomato')).toBe(true);
+    expect(isSameIngredient('Berries', 'berry')).toBe(true);
+  });
+
+  it('maps regional names through the synonym dictionary', () => {
+    expect(isSameIngredient('Green Onion', 'Scallions')).toBe(true);
+    expect(isSameIngredient('Spring onions', 'green onion')).toBe(true);
+    expect(isSameIngredient('Coriander', 'cilantro')).toBe(true);
+    expect(isSameIngredient('Courgette', 'Zucchini')).toBe(true);
+  });
+
+  it('ignores descriptors and preparation words', () => {
+    expect(isSameIngredient('Fresh chopped cilantro', 'Cilantro')).toBe(true);
+    expect(isSameIngredient('2 large organic eggs (optional)', 'Eggs')).toBe(true);
+  });
+
+  it('keeps words that change the ingredient', () => {
+    expect(isSameIngredient('Oil', 'Olive Oil')).toBe(false);
+    expect(isSameIngredient('Sugar', 'Brown sugar')).toBe(false);
+    expect(isSameIngredient('Hummus', 'Hummu')).toBe(false);
+  });
+
+  it('keeps frozen, canned and dried stock apart from fresh', () => {
+    expect(isSameIngredient('Frozen peas', 'Peas')).toBe(false);
+    expect(isSameIngredient('Canned tomatoes', 'Tomatoes')).toBe(false);
+    expect(isSameIngredient('Tinned tomatoes', 'Canned tomatoes')).toBe(true);
+    expect(isSameIngredient('Dried basil', 'Fresh basil')).toBe(false);
+    expect(isSameIngredient('Frozen peas', 'frozen pea')).toBe(true);
+  });
+
+  it('never matches an empty name', () => {
+    expect(isSameIngredient('', '')).toBe(false);
+  });
+});
+
+describe('findBestMatch', () => {
+  it('finds the pantry item for a recipe ingredient', () => {
+    const items = pantry('Olive Oil', 'Eggs', 'Scallions');
+    expect(findBestMatch('egg', items)?.name).toBe('Eggs');
+    expect(findBestMatch('Green Onion', items)?.name).toBe('Scallions');
+  });
+
+  it('does not let a partial overlap like "Oil" match "Olive Oil"', () => {
+    expect(ingredientSimilarity('Oil', 'Olive Oil')).toBe(0.5);
+    expect(findBestMatch('Oil', pantry('Olive Oil'))).toBeNull();
+  });
+
+  it('prefers the exact match over a close one', () => {
+    const items = pantry('Chicken breast fillet', 'Chicken breast');
+    expect(findBestMatch('chicken breasts', items)?.name).toBe('Chicken breast');
+  });
+
+  it('matches at exactly the threshold and not below it', () => {
+    // 3 shared tokens of 5 = 0.6
+    expect(ingredientSimilarity('red chili pepper', 'red chili pepper sauce mix')).toBeCloseTo(MATCH_THRESHOLD);
+    expect(findBestMatch('red chili pepper', pantry('Red chili pepper sauce mix'))).not.toBeNull();
+    // 2 shared tokens of 4 = 0.5
+    expect(findBestMatch('red chili', pantry('Red chili sauce mix'))).toBeNull();
+  });
+
+  it('honours a custom threshold', () => {
+    expect(findBestMatch('Oil', pantry('Olive Oil'), 0.5)?.name).toBe('Olive Oil');
+  });
+
+  it('returns null when nothing is close', () => {
+    expect(findBestMatch('Flour', pantry('Milk', 'Butter'))).toBeNull();
+    expect(findBestMatch('Flour', [])).toBeNull();
+  });
+});
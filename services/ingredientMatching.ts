@@ -0,0 +1,144 @@
+/**
+ * Ingredient Matching
+ * One canonical identity for ingredient names so recipes, the pantry and
+ * dedupe all agree: "Eggs" = "egg", "Scallions" = "Green Onion",
+ * but "Oil" != "Olive Oil".
+ */
+
+// Descriptors that don't change what the ingredient is. Preservation states
+// (dried, frozen, canned, tinned) are left out on purpose: frozen peas and
+// fresh peas are separate pantry stock with different expiry dates.
+const STOP_WORDS = new Set([
+  'fresh', 'freshly', 'organic', 'large', 'small', 'medium', 'big', 'ripe', 'raw',
+  'chopped', 'diced', 'minced', 'sliced', 'grated', 'shredded', 'crushed', 'peeled',
+  'boneless', 'skinless', 'whole', 'finely', 'roughly', 'thinly', 'cut', 'into',
+  'pieces', 'piece', 'of', 'and', 'or', 'the', 'a', 'an', 'to', 'taste', 'for',
+  'garnish', 'optional', 'cooked', 'uncooked',
+  'pack', 'packet', 'can', 'jar', 'bottle', 'bag', 'unsalted', 'extra', 'plain',
+  'clove', 'sprig', 'stalk', 'bunch', 'head'
+]);
+
+// Regional and alternate names -> canonical name (singular, lowercase)
+const SYNONYMS: Record<string, string> = {
+  'scallion': 'green onion',
+  'spring onion': 'green onion',
+  'coriander': 'cilantro',
+  'coriander leaf': 'cilantro',
+  'capsicum': 'bell pepper',
+  'courgette': 'zucchini',
+  'aubergine': 'eggplant',
+  'brinjal': 'eggplant',
+  'garbanzo': 'chickpea',
+  'garbanzo bean': 'chickpea',
+  'chana': 'chickpea',
+  'curd': 'yogurt',
+  'yoghurt': 'yogurt',
+  'maida': 'flour',
+  'all purpose flour': 'flour',
+  'plain flour': 'flour',
+  'caster sugar': 'sugar',
+  'granulated sugar': 'sugar',
+  'icing sugar': 'powdered sugar',
+  'confectioner sugar': 'powdered sugar',
+  'double cream': 'heavy cream',
+  'whipping cream': 'heavy cream',
+  'prawn': 'shrimp',
+  'minced meat': 'ground beef',
+  'mince': 'ground beef',
+  'rocket': 'arugula',
+  'chilli': 'chili',
+  'chile': 'chili',
+  'paneer cheese': 'paneer',
+  'beetroot': 'beet',
+  'mangetout': 'snow pea',
+  'tinned': 'canned'
+};
+
+// Words ending in "s" that aren't plurals
+const INVARIANT = new Set(['hummus', 'couscous', 'asparagus', 'molasses', 'swiss', 'citrus', 'octopus', 'series', 'grits', 'oats', 'lemongrass']);
+
+/**
+ * Simple English singularization for food words
+ */
+export const singularize = (word: string): string => {
+  if (word.length <= 3 || INVARIANT.has(word)) return word;
+  if (word.endsWith('ies')) return word.slice(0, -3) + 'y'; // berries
+  if (word.endsWith('oes')) return word.slice(0, -2); // tomatoes
+  if (/^(lea|hal|loa|kni|cal)ves$/.test(word)) return word.slice(0, -3) + 'f'; // leaves, halves
+  if (/(ches|shes|xes|sses)$/.test(word)) return word.slice(0, -2); // peaches, radishes
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1); // eggs
+  return word;
+};
+
+/**
+ * Canonical tokens for an ingredient name (stop-words removed, singular, synonyms applied)
+ */
+export const ingredientTokens = (name: string): string[] => {
+  const allWords = name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ') // "(optional)", "(400g)"
+    .replace(/[^a-z\s-]/g, ' ')
+    .replace(/-/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize);
+  const meaningful = allWords.filter(w => !STOP_WORDS.has(w));
+  // Names made only of stop-words ("Cloves", "Head") keep their words
+  const words = meaningful.length > 0 ? meaningful : allWords;
+
+  const phrase = words.join(' ');
+  const canonical = SYNONYMS[phrase] ?? phrase;
+
+  // Synonyms for a single word inside a longer name ("chopped scallions" already handled above)
+  return canonical
+    .split(' ')
+    .filter(Boolean)
+    .flatMap(w => (SYNONYMS[w] ?? w).split(' '));
+};
+
+export const normalizeIngredientName = (name: string): string => ingredientTokens(name).join(' ');
+
+/**
+ * Token similarity in [0, 1] (Jaccard). Partial overlaps like "oil" vs "olive oil"
+ * score 0.5 and stay below the match threshold.
+ */
+export const ingredientSimilarity = (a: string, b: string): number => {
+  const tokensA = new Set(ingredientTokens(a));
+  const tokensB = new Set(ingredientTokens(b));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  tokensA.forEach(t => { if (tokensB.has(t)) shared++; });
+  return shared / (tokensA.size + tokensB.size - shared);
+};
+
+export const MATCH_THRESHOLD = 0.6;
+
+/**
+ * Same ingredient for dedupe purposes (canonical names equal)
+ */
+export const isSameIngredient = (a: string, b: string): boolean => {
+  const normA = normalizeIngredientName(a);
+  return normA !== '' && normA === normalizeIngredientName(b);
+};
+
+/**
+ * Best-scoring named candidate (pantry item, ingredient) at or above the threshold, or null
+ */
+export const findBestMatch = <T extends { name: string }>(
+  name: string,
+  candidates: T[],
+  threshold: number = MATCH_THRESHOLD
+): T | null => {
+  let best: T | null = null;
+  let bestScore = threshold;
+  for (const candidate of candidates) {
+    const score = ingredientSimilarity(name, candidate.name);
+    if (score >= bestScore) {
+      if (score === 1) return candidate;
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+};
@@ -0,0 +1,143 @@
+/**
+ * Local Persistent Store
+ * Keeps a device-side copy of the user's data so the app works offline.
+ * Uses IndexedDB on web (no localStorage quota issues with recipe images)
+ * and Capacitor Preferences on native apps.
+ */
+
+import { Capacitor } from '@capacitor/core';
+import { Preferences } from '@capacitor/preferences';
+import { logger } from './loggerService';
+
+const DB_NAME = 'plum-local';
+const STORE_NAME = 'kv';
+const KEY_PREFIX = 'plum_local:';
+
+// Platform detection - with safety check
+const isNative = (): boolean => {
+    try {
+        if (typeof window === 'undefined') return false;
+        return Capacitor.isNativePlatform();
+    } catch (error) {
+        return false;
+    }
+};
+
+const hasIndexedDB = (): boolean => typeof indexedDB !== 'undefined';
+
+class LocalStore {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    /**
+     * Open (or create) the IndexedDB database once and reuse the connection
+     */
+    private openDb(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, 1);
+                request.onupgradeneeded = () => {
+                    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                        request.result.createObjectStore(STORE_NAME);
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.dbPromise = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return this.dbPromise;
+    }
+
+    /**
+     * Run a single request against the key-value object store
+     */
+    private async withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        const db = await this.openDb();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(STORE_NAME, mode);
+            const request = fn(tx.objectStore(STORE_NAME));
+            tx.oncomplete = () => resolve(request.result);
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+
+    async get<T>(key: string): Promise<T | null> {
+        try {
+            if (isNative()) {
+                const result = await Preferences.get({ key: KEY_PREFIX + key });
+                return result.value ? JSON.parse(result.value) : null;
+            }
+            if (hasIndexedDB()) {
+                const value = await this.withStore('readonly', store => store.get(key));
+                return (value as T) ?? null;
+            }
+            const raw = localStorage.getItem(KEY_PREFIX + key);
+            return raw ? JSON.parse(raw) : null;
+        } catch (error) {
+            logger.warn(`Local store read failed for ${key}`, error);
+            return null;
+        }
+    }
+
+    async set<T>(key: string, value: T): Promise<void> {
+        try {
+            if (isNative()) {
+                await Preferences.set({ key: KEY_PREFIX + key, value: JSON.stringify(value) });
+            } else if (hasIndexedDB()) {
+                await this.withStore('readwrite', store => store.put(value, key));
+            } else {
+                localStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+            }
+        } catch (error) {
+            logger.warn(`Local store write failed for ${key}`, error);
+        }
+    }
+
+    async remove(key: string): Promise<void> {
+        try {
+            if (isNative()) {
+                await Preferences.remove({ key: KEY_PREFIX + key });
+            } else if (hasIndexedDB()) {
+                await this.withStore('readwrite', store => store.delete(key));
+            } else {
+                localStorage.removeItem(KEY_PREFIX + key);
+            }
+        } catch (error) {
+            logger.warn(`Local store remove failed for ${key}`, error);
+        }
+    }
+
+    /**
+     * Wipe everything (used on sign out so the next account starts clean)
+     */
+    async clear(): Promise<void> {
+        try {
+            if (isNative()) {
+                const { keys } = await Preferences.keys();
+                await Promise.all(keys.filter(k => k.startsWith(KEY_PREFIX)).map(key => Preferences.remove({ key })));
+            } else if (hasIndexedDB()) {
+                await this.withStore('readwrite', store => store.clear());
+            } else {
+                Object.keys(localStorage).filter(k => k.startsWith(KEY_PREFIX)).forEach(k => localStorage.removeItem(k));
+            }
+        } catch (error) {
+            logger.warn('Local store clear failed', error);
+        }
+    }
+}
+
+export const localStore = new LocalStore();
+
+// Well-known keys
+export const LOCAL_KEYS = {
+    inventory: 'inventory',
+    recipes: 'recipes',
+    household: 'household',
+    mealPlan: 'mealPlan',
+    products: 'products',
+    outbox: 'outbox',
+    outboxFailed: 'outboxFailed'
+};
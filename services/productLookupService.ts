@@ -0,0 +1,131 @@
+/**
+ * Product Lookup
+ * Resolves packaged-goods barcodes (EAN-13, EAN-8, UPC-A) to what goes in
+ * the pantry. Sources are pluggable and asked in order; the built-in one is
+ * a device-side table the user builds up by saving (and correcting) scans.
+ */
+
+import { localStore, LOCAL_KEYS } from './localStore';
+import { logger } from './loggerService';
+
+export interface ProductInfo {
+  name: string;
+  category: string;
+  quantity?: number; // Package size, e.g. 400 g
+  unit?: string;
+}
+
+// Anything that can name a product from its barcode (local table, product database API, ...)
+export interface ProductSource {
+  id: string;
+  lookup: (code: string) => Promise<ProductInfo | null>;
+}
+
+/**
+ * Canonical form of a scanned or typed barcode, or null if it isn't a valid
+ * one (wrong length or check digit). UPC-A codes get the leading zero of
+ * their EAN-13 form, so both spellings of a product share one entry.
+ */
+export const normalizeBarcode = (raw: string): string | null => {
+  let digits = raw.replace(/\D/g, '');
+  if (digits.length === 12) digits = `0${digits}`;
+  if (digits.length === 14 && digits.startsWith('0')) digits = digits.slice(1); // GTIN-14 of a single unit
+  if (digits.length !== 8 && digits.length !== 13) return null;
+
+  // GS1 check digit: weights 3, 1, 3, ... from the right, excluding the check digit
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    sum += Number(body[body.length - 1 - i]) * (i % 2 === 0 ? 3 : 1);
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]) ? digits : null;
+};
+
+/**
+ * Products this device has learned, keyed by normalized barcode. Read fresh
+ * each time so signing out (which wipes the local store) forgets them too.
+ */
+class LearnedProductTable implements ProductSource {
+  readonly id = 'learned';
+
+  private async load(): Promise<Record<string, ProductInfo>> {
+    return (await localStore.get<Record<string, ProductInfo>>(LOCAL_KEYS.products)) || {};
+  }
+
+  async lookup(code: string): Promise<ProductInfo | null> {
+    return (await this.load())[code] ?? null;
+  }
+
+  async learn(code: string, product: ProductInfo): Promise<void> {
+    const table = await this.load();
+    await localStore.set(LOCAL_KEYS.products, { ...table, [code]: product });
+  }
+}
+
+class ProductLookupService {
+  private learned = new LearnedProductTable();
+  private sources: ProductSource[] = [this.learned];
+
+  /**
+   * Add a source, asked after the learned table (so the user's corrections win)
+   */
+  register(source: ProductSource): void {
+    if (!this.sources.some(s => s.id === source.id)) this.sources.push(source);
+  }
+
+  /**
+   * First source that knows the code; a failing source is skipped
+   */
+  async lookup(code: string): Promise<(ProductInfo & { source: string }) | null> {
+    for (const source of this.sources) {
+      try {
+        const product = await source.lookup(code);
+        if (product) return { ...product, source: source.id };
+      } catch (error) {
+        logger.warn(`Product lookup via ${source.id} failed`, error);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Remember what a code turned out to be (what the user saved after a scan)
+   */
+  learn(code: string, product: ProductInfo): Promise<void> {
+    return this.learned.learn(code, product);
+  }
+}
+
+export const productLookup = new ProductLookupService();
+
+// --- READING BARCODES ---
+
+// Retail formats normalizeBarcode understands (UPC-E is left out, it's compressed)
+const RETAIL_FORMATS = ['ean_13', 'ean_8', 'upc_a'];
+
+/**
+ * Whether the browser can read barcodes from images (Shape Detection API,
+ * Chrome on Android and most Chromium builds)
+ */
+export const canReadBarcodes = (): boolean =>
+  typeof window !== 'undefined' && 'BarcodeDetector' in window;
+
+/**
+ * Raw value of the first retail barcode in a photo, or null if none was found
+ */
+export const readBarcodeFromImage = async (image: Blob): Promise<string | null> => {
+  if (!canReadBarcodes()) return null;
+  let bitmap: ImageBitmap | undefined;
+  try {
+    // Rejects for formats the browser can't decode (HEIC on most of them) or corrupt files
+    bitmap = await createImageBitmap(image);
+    const detector = new (window as any).BarcodeDetector({ formats: RETAIL_FORMATS });
+    const codes: { rawValue: string }[] = await detector.detect(bitmap);
+    return codes[0]?.rawValue ?? null;
+  } catch (error) {
+    logger.warn('Barcode detection failed', error);
+    return null;
+  } finally {
+    bitmap?.close();
+  }
+};
@@ -1,9 +1,9 @@
 
 
-export interface Quantity {
-  val: number;
-  unit: string;
-}
+import { Quantity, PantryItem, Ingredient } from '../types';
+import { lookupIngredient } from './ingredientKnowledge';
+
+export type { Quantity };
 
 // Normalize units to standard codes
 export const normalizeUnit = (u: string): string => {
@@ -21,85 +21,207 @@ export const normalizeUnit = (u: string): string => {
   return unit;
 };
 
+// --- QUANTITY GRAMMAR ---
+// quantity := [approx] (amount | range) [ "(" amount ")" ] [unit] [ "of" ]
+//           | small-measure ("a pinch") | non-measurable ("to taste")
+// amount   := mixed ("1 1/2") | fraction ("1/2", "½") | decimal | word ("a", "one", "half")
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4', '⅕': '1/5', '⅖': '2/5',
+  '⅗': '3/5', '⅘': '4/5', '⅙': '1/6', '⅚': '5/6', '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8'
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, half: 0.5, dozen: 12
+};
+
+// Tiny amounts we can still put a number on
+const SMALL_MEASURES: Record<string, Quantity> = {
+  pinch: { val: 0.0625, unit: 'tsp' },
+  dash: { val: 0.125, unit: 'tsp' },
+  smidgen: { val: 0.03125, unit: 'tsp' },
+  drizzle: { val: 1, unit: 'tbsp' },
+  splash: { val: 1, unit: 'tbsp' }
+};
+
+const NON_MEASURABLE = /\b(handful|few|sprinkle|couple)\b/;
+const APPROXIMATE = /^(about|approx\.?|approximately|around|roughly|~|generous|heaping|heaped|scant|rounded)\s*/;
+
+const AMOUNT = String.raw`(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?|(?:${Object.keys(NUMBER_WORDS).join('|')})\b)`;
+const PACKAGE = String.raw`(?:\s*\(\s*${AMOUNT}\s*([a-z]+)\.?\s*\))?`;
+const QUANTITY_PATTERN = new RegExp(
+  String.raw`^${AMOUNT}(?:\s*(?:-|–|to|or)\s*${AMOUNT})?${PACKAGE}\s*(?:an?\s+)?([a-z%]+)?\.?${PACKAGE}`
+);
+
+const parseAmount = (token: string): number => {
+  if (token in NUMBER_WORDS) return NUMBER_WORDS[token];
+  const mixed = token.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return parseInt(mixed[1]) + parseInt(mixed[2]) / parseInt(mixed[3]);
+  const fraction = token.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return parseInt(fraction[1]) / parseInt(fraction[2]);
+  return parseFloat(token.replace(',', '.'));
+};
+
+// Words after the number that are really counts ("2 cloves", "1 can")
+const toUnit = (word: string | undefined): string => {
+  if (!word || word === 'of') return 'pcs';
+  const unit = normalizeUnit(word);
+  return ['g', 'kg', 'ml', 'l', 'lb', 'oz', 'cups', 'tbsp', 'tsp', 'pcs'].includes(unit) ? unit : 'pcs';
+};
+
+/**
+ * Parse free text like "1 1/2 cups", "½ tsp", "2-3 cloves", "1 (400g) can" or "to taste".
+ * Uncertainty is reported on the result (min/max, approximate, unmeasurable)
+ * instead of silently guessing.
+ */
 export const parseQuantity = (input: string): Quantity => {
-  // Matches "200g", "200 g", "1.5 kg", "1/2 cup"
-  const fractionMatch = input.match(/^(\d+)\/(\d+)\s*([a-zA-Z]+)?/);
-  if (fractionMatch) {
-    return {
-      val: parseInt(fractionMatch[1]) / parseInt(fractionMatch[2]),
-      unit: normalizeUnit(fractionMatch[3] || 'pcs')
-    };
+  let text = input.toLowerCase().trim();
+
+  // 1. Unicode fractions -> "1/2" (with a space so "1½" becomes a mixed number)
+  text = text.replace(/[½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞]/g, f => ` ${UNICODE_FRACTIONS[f]}`).replace(/⁄/g, '/').trim();
+
+  // 2. Approximation words
+  let approximate = false;
+  const approx = text.match(APPROXIMATE);
+  if (approx) {
+    approximate = true;
+    text = text.slice(approx[0].length);
   }
 
-  const match = input.match(/^([\d.]+)\s*([a-zA-Z%]+)?/);
-  if (match) {
-    return {
-      val: parseFloat(match[1]),
-      unit: normalizeUnit(match[2] || 'pcs')
-    };
+  // 3. "a pinch", "a dash of"
+  const small = text.match(/^(?:a |an |1 )?(pinch|dash|smidgen|drizzle|splash)(?:es)?\b/);
+  if (small) return { ...SMALL_MEASURES[small[1]], approximate: true };
+
+  // 4. Amount, optional range, optional package size, unit
+  const match = text.match(QUANTITY_PATTERN);
+  if (match && !NON_MEASURABLE.test(match[0])) {
+    const [, first, second, packageBefore, packageUnitBefore, rawUnit, packageAfter, packageUnitAfter] = match;
+    const packageAmount = packageBefore || packageAfter;
+    const packageUnit = packageUnitBefore || packageUnitAfter;
+    // "a dozen eggs"
+    const multiplier = rawUnit === 'dozen' ? 12 : 1;
+    const unitWord = rawUnit === 'dozen' ? undefined : rawUnit;
+    const min = parseAmount(first) * multiplier;
+    const max = second ? parseAmount(second) * multiplier : undefined;
+    if (!isNaN(min)) {
+      const count = max !== undefined ? (min + max) / 2 : min;
+
+      // "1 (400g) can" -> 400 g, remembering it is 1 piece
+      if (packageAmount && packageUnit && toUnit(packageUnit) !== 'pcs') {
+        const size = parseAmount(packageAmount);
+        return { val: count * size, unit: toUnit(packageUnit), pieces: count, ...(approximate && { approximate }) };
+      }
+
+      return {
+        val: count,
+        unit: toUnit(unitWord),
+        ...(max !== undefined && { min, max }),
+        ...((approximate || max !== undefined) && { approximate: true })
+      };
+    }
   }
-  
-  return { val: 1, unit: 'pcs' }; // Fallback
+
+  // 5. Nothing we can measure ("to taste", "a handful", "salt")
+  return { val: 1, unit: 'pcs', unmeasurable: true };
 };
 
-// Average weight per piece for common produce (in grams)
+// Average weight per piece when the ingredient isn't in the knowledge table (in grams)
 const AVG_PIECE_WEIGHT_G = 150; // ~150g is average for potato, onion, tomato, apple, etc.
 
+const MASS_FACTORS: Record<string, number> = { g: 1, kg: 1000, oz: 28.3495, lb: 453.592 };
+const VOLUME_FACTORS: Record<string, number> = { ml: 1, l: 1000, cups: 236.588, tbsp: 14.7868, tsp: 4.9289 };
+
 // Format quantity nicely for display
-const formatQuantity = (val: number): string => {
+export const formatQuantity = (val: number): string => {
   if (Number.isInteger(val)) return val.toString();
   // Round to 1 decimal place and remove trailing .0
   return val.toFixed(1).replace(/\.0$/, '');
 };
 
-// Convert quantity to target unit (exported for merging)
-export const convert = (q: Quantity, targetUnit: string): number | null => {
+/**
+ * Convert quantity to target unit (exported for merging).
+ * Pass the ingredient name to enable volume <-> mass (density) and
+ * accurate pcs <-> mass (piece weight) conversions.
+ */
+export const convert = (q: Quantity, targetUnit: string, ingredientName?: string): number | null => {
   const base = normalizeUnit(q.unit);
   const target = normalizeUnit(targetUnit);
 
   if (base === target) return q.val;
 
+  // Packaged amounts know their piece count ("1 (400g) can" is 1 pcs)
+  if (target === 'pcs' && q.pieces !== undefined) return q.pieces;
+
   // Mass conversions (base g)
-  const massFactors: Record<string, number> = { g: 1, kg: 1000, oz: 28.3495, lb: 453.592 };
-  if (massFactors[base] && massFactors[target]) {
-    return (q.val * massFactors[base]) / massFactors[target];
+  if (MASS_FACTORS[base] && MASS_FACTORS[target]) {
+    return (q.val * MASS_FACTORS[base]) / MASS_FACTORS[target];
   }
 
   // Volume conversions (base ml)
-  const volFactors: Record<string, number> = { ml: 1, l: 1000, cups: 236.588, tbsp: 14.7868, tsp: 4.9289 };
-  if (volFactors[base] && volFactors[target]) {
-    return (q.val * volFactors[base]) / volFactors[target];
+  if (VOLUME_FACTORS[base] && VOLUME_FACTORS[target]) {
+    return (q.val * VOLUME_FACTORS[base]) / VOLUME_FACTORS[target];
   }
 
-  // Cross-type estimation: pcs <-> mass (useful when AI uses different units than pantry)
-  // Convert pcs to grams first, then to target mass unit
-  if (base === 'pcs' && massFactors[target]) {
-    const gramsEquivalent = q.val * AVG_PIECE_WEIGHT_G;
-    return gramsEquivalent / massFactors[target];
-  }
-  
-  // Convert mass to pcs (estimate how many pieces the mass represents)
-  if (massFactors[base] && target === 'pcs') {
-    const gramsUsed = q.val * massFactors[base];
-    return gramsUsed / AVG_PIECE_WEIGHT_G;
-  }
+  const facts = lookupIngredient(ingredientName);
+  const density = facts?.densityGPerMl;
+  const pieceWeight = facts?.pieceWeightG ?? AVG_PIECE_WEIGHT_G;
+
+  // Express the amount in grams, then in the target unit
+  let grams: number | null = null;
+  if (MASS_FACTORS[base]) grams = q.val * MASS_FACTORS[base];
+  else if (VOLUME_FACTORS[base] && density) grams = q.val * VOLUME_FACTORS[base] * density;
+  else if (base === 'pcs') grams = q.val * pieceWeight;
+
+  if (grams === null) return null;
+
+  if (MASS_FACTORS[target]) return grams / MASS_FACTORS[target];
+  if (VOLUME_FACTORS[target] && density) return grams / density / VOLUME_FACTORS[target];
+  if (target === 'pcs') return grams / pieceWeight;
+
+  return null; // Incompatible (e.g., volume vs mass without a known density, or unknown units)
+};
+
+// --- STRUCTURED QUANTITY HELPERS ---
+// Older rows only have the free-text fields, so fall back to parsing them.
+
+export const getPantryQuantity = (item: Pick<PantryItem, 'quantity' | 'unit' | 'measure'>): Quantity => {
+  if (item.measure) return { val: item.measure.val, unit: normalizeUnit(item.measure.unit) };
+  return parseQuantity(`${item.quantity} ${item.unit || ''}`.trim());
+};
 
-  return null; // Incompatible (e.g., volume vs mass, or unknown units)
+export const getIngredientQuantity = (ingredient: Pick<Ingredient, 'amount' | 'measure'>): Quantity => {
+  const parsed = parseQuantity(ingredient.amount || '');
+  // "to taste" stays non-measurable even if a number was attached to it
+  if (parsed.unmeasurable || !ingredient.measure || ingredient.measure.val <= 0) return parsed;
+  return { ...ingredient.measure, unit: normalizeUnit(ingredient.measure.unit) };
 };
 
+/**
+ * Pantry fields for a structured quantity (keeps the display strings in sync).
+ */
+export const toPantryFields = (q: Quantity): Pick<PantryItem, 'quantity' | 'unit' | 'measure'> => ({
+  quantity: formatQuantity(q.val),
+  unit: q.unit,
+  measure: q
+});
+
 export const calculateNewInventory = (
-  pantryQtyStr: string, 
-  pantryUnit: string, 
-  usedAmountStr: string
-): { newQuantity: string, shouldRemove: boolean } => {
-  
-  const current = parseFloat(pantryQtyStr);
-  const currentUnit = normalizeUnit(pantryUnit || 'pcs');
+  currentQty: Quantity, 
+  usedQty: Quantity,
+  ingredientName?: string
+): { remaining: Quantity, shouldRemove: boolean, skipped?: boolean } => {
   
-  const used = parseQuantity(usedAmountStr);
+  const current = currentQty.val;
+  const currentUnit = normalizeUnit(currentQty.unit || 'pcs');
+
+  // "to taste", "a handful": no reliable number, leave the pantry alone
+  if (usedQty.unmeasurable) {
+    return { remaining: currentQty, shouldRemove: false, skipped: true };
+  }
   
   // Try to convert used amount to pantry unit
-  const usedValConverted = convert(used, currentUnit);
+  const usedValConverted = convert(usedQty, currentUnit, ingredientName);
 
   let remaining: number;
 
@@ -114,13 +236,10 @@ export const calculateNewInventory = (
 
   if (remaining <= 0 || remaining <= 0.05 * current) { 
     // If depleted or less than 5% remains, assume used up (margin of error)
-    return { newQuantity: '0', shouldRemove: true };
+    return { remaining: { val: 0, unit: currentUnit }, shouldRemove: true };
   }
 
-  // Format nicely
-  const displayQty = Number.isInteger(remaining) ? remaining.toString() : remaining.toFixed(1).replace(/\.0$/, '');
-  
-  return { newQuantity: displayQty, shouldRemove: false };
+  return { remaining: { val: remaining, unit: currentUnit }, shouldRemove: false };
 };
 
 // --- ROBUST LOW STOCK LOGIC ---
@@ -160,32 +279,22 @@ export const isLowStock = (quantity: string, unit: string, category: string): bo
 // --- MERGE QUANTITIES FOR DUPLICATE DETECTION ---
 /**
  * Merge two quantities, converting units if compatible.
- * Returns the merged quantity string in the first item's unit, or null if incompatible.
+ * Returns the merged quantity in the first item's unit, or null if incompatible.
  */
-export const mergeQuantities = (
-  qty1: string, 
-  unit1: string | undefined,
-  qty2: string, 
-  unit2: string | undefined
-): string | null => {
-  const u1 = normalizeUnit(unit1 || 'pcs');
-  const u2 = normalizeUnit(unit2 || 'pcs');
-  const val1 = parseFloat(qty1) || 0;
-  const val2 = parseFloat(qty2) || 0;
+export const mergeQuantities = (q1: Quantity, q2: Quantity, ingredientName?: string): Quantity | null => {
+  const u1 = normalizeUnit(q1.unit || 'pcs');
+  const u2 = normalizeUnit(q2.unit || 'pcs');
   
   // Same unit - simple addition
   if (u1 === u2) {
-    const sum = val1 + val2;
-    return formatQuantity(sum);
+    return { val: q1.val + q2.val, unit: u1 };
   }
   
-  // Try to convert qty2 to unit1
-  const q2: Quantity = { val: val2, unit: u2 };
-  const converted = convert(q2, u1);
+  // Try to convert q2 to unit1
+  const converted = convert({ val: q2.val, unit: u2, pieces: q2.pieces }, u1, ingredientName);
   
   if (converted !== null) {
-    const sum = val1 + converted;
-    return formatQuantity(sum);
+    return { val: q1.val + converted, unit: u1 };
   }
   
   return null; // Incompatible units (e.g., volume vs mass)
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { CATEGORY_SHELF_LIFE_DAYS, getShelfLifeDays } from './shelfLifeService';
+
+describe('getShelfLifeDays', () => {
+  it('uses the ingredient entry for fresh food', () => {
+    expect(getShelfLifeDays('Fresh basil')).toBe(5);
+    expect(getShelfLifeDays('Peas', 'Produce')).toBe(CATEGORY_SHELF_LIFE_DAYS.Produce);
+  });
+
+  it('does not give preserved food the fresh shelf life', () => {
+    expect(getShelfLifeDays('Dried basil')).toBe(365);
+    expect(getShelfLifeDays('Canned tomatoes')).toBe(365);
+    expect(getShelfLifeDays('Frozen peas')).toBe(CATEGORY_SHELF_LIFE_DAYS.Frozen);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Shelf Life
+ * How long freshly bought food typically keeps (fridge for perishables,
+ * cupboard for dry goods), used to pre-fill expiry dates when shopping goes
+ * into the pantry. Ingredient entries win over the category default.
+ */
+
+import { addDays, format } from 'date-fns';
+import { ingredientTokens } from './ingredientMatching';
+import { categorizeIngredient } from './categoryService';
+
+export const CATEGORY_SHELF_LIFE_DAYS: Record<string, number> = {
+  Produce: 7,
+  Dairy: 10,
+  Meat: 3,
+  Grains: 365,
+  Bakery: 4,
+  Spices: 365,
+  Beverages: 180,
+  Frozen: 90,
+  Snacks: 90,
+  General: 30,
+};
+
+// Canonical names (see ingredientMatching), longest match wins
+const INGREDIENT_SHELF_LIFE_DAYS: { names: string[]; days: number }[] = [
+  // Dairy & eggs
+  { names: ['milk', 'buttermilk', 'heavy cream', 'cream', 'sour cream'], days: 7 },
+  { names: ['yogurt'], days: 14 },
+  { names: ['mozzarella', 'ricotta', 'paneer', 'feta', 'cottage cheese', 'mascarpone'], days: 5 },
+  { names: ['cheese', 'cheddar', 'parmesan', 'halloumi'], days: 30 },
+  { names: ['butter'], days: 30 },
+  { names: ['ghee'], days: 180 },
+  { names: ['egg'], days: 28 },
+
+  // Meat & fish
+  { names: ['chicken', 'turkey', 'duck', 'fish', 'salmon', 'cod', 'tilapia', 'shrimp', 'crab', 'ground beef'], days: 2 },
+  { names: ['beef', 'pork', 'lamb', 'mutton', 'steak', 'sausage'], days: 3 },
+  { names: ['bacon', 'ham', 'salami', 'chorizo', 'prosciutto'], days: 7 },
+  { names: ['tofu', 'tempeh'], days: 7 },
+
+  // Produce
+  { names: ['spinach', 'lettuce', 'arugula', 'kale', 'cilantro', 'parsley', 'basil', 'mint', 'dill', 'berry', 'strawberry', 'raspberry', 'blueberry', 'mushroom', 'green onion', 'sprout'], days: 5 },
+  { names: ['banana', 'avocado', 'tomato', 'cucumber', 'zucchini', 'bell pepper', 'broccoli', 'cauliflower', 'peach', 'pear', 'plum', 'mango', 'grape', 'cherry'], days: 6 },
+  { names: ['carrot', 'celery', 'cabbage', 'beet', 'lemon', 'lime', 'orange', 'ginger'], days: 21 },
+  { names: ['apple', 'potato', 'sweet potato', 'onion', 'shallot', 'pumpkin', 'squash'], days: 30 },
+  { names: ['garlic'], days: 60 },
+
+  // Bakery & other
+  { names: ['bread', 'bun', 'bagel', 'croissant', 'naan', 'pita'], days: 4 },
+  { names: ['tortilla', 'wrap'], days: 14 },
+  { names: ['juice'], days: 7 },
+];
+
+const LOOKUP = INGREDIENT_SHELF_LIFE_DAYS
+  .flatMap(({ names, days }) => names.map(name => ({ name, days })))
+  .sort((a, b) => b.name.length - a.name.length);
+
+// Dried, canned and tinned goods keep about a year in the cupboard
+const PRESERVED_SHELF_LIFE_DAYS = 365;
+
+/**
+ * Days until a freshly bought item expires. Anything bought frozen keeps
+ * the freezer default and anything dried or canned the cupboard one,
+ * whatever it is ("dried basil" isn't a fresh herb).
+ */
+export const getShelfLifeDays = (name: string, category?: string): number => {
+  if (/\bfrozen\b/i.test(name) || category === 'Frozen') return CATEGORY_SHELF_LIFE_DAYS.Frozen;
+  if (/\b(dried|canned|tinned)\b/i.test(name)) return PRESERVED_SHELF_LIFE_DAYS;
+
+  const text = ` ${ingredientTokens(name).join(' ')} `;
+  const match = LOOKUP.find(entry => text.includes(` ${entry.name} `));
+  if (match) return match.days;
+
+  return CATEGORY_SHELF_LIFE_DAYS[category || categorizeIngredient(name)] ?? CATEGORY_SHELF_LIFE_DAYS.General;
+};
+
+/**
+ * Suggested expiry (yyyy-MM-dd, the date input format) for an item bought today
+ */
+export const suggestExpiryDate = (name: string, category?: string, boughtOn: Date = new Date()): string =>
+  format(addDays(boughtOn, getShelfLifeDays(name, category)), 'yyyy-MM-dd');
@@ -0,0 +1,214 @@
+/**
+ * Shopping List Builder
+ * Turns a set of recipes into one consolidated list: the same ingredient
+ * across recipes is summed (converting units where possible), whatever the
+ * pantry already covers is subtracted, and entries are grouped by category.
+ */
+
+import { PantryItem, Quantity, Recipe, ShoppingItem, ShoppingItemSource, StoreLayout, PANTRY_CATEGORIES, UNITS } from '../types';
+import { convert, formatQuantity, getIngredientQuantity, getPantryQuantity, mergeQuantities, normalizeUnit } from './quantityService';
+import { findBestMatch, isSameIngredient } from './ingredientMatching';
+import { categorizeIngredient } from './categoryService';
+import { suggestExpiryDate } from './shelfLifeService';
+import { isBasicStaple } from './geminiService';
+
+// A list entry before it has an id (what addShoppingItems takes)
+export type NewShoppingItem = Omit<ShoppingItem, 'id' | 'checked' | 'updatedAt'>;
+
+interface Need {
+  name: string;
+  quantity: Quantity | null; // null for "to taste" amounts
+  sources: ShoppingItemSource[];
+}
+
+// Less than this share of the amount still to buy counts as covered
+const COVERED_MARGIN = 0.05;
+
+const addSource = (sources: ShoppingItemSource[], recipe: Pick<Recipe, 'id' | 'title'>): ShoppingItemSource[] =>
+  sources.some(s => s.id === recipe.id) ? sources : [...sources, { id: recipe.id, title: recipe.title }];
+
+/**
+ * Merge two source lists, keeping the first occurrence of each recipe
+ */
+export const mergeSources = (a: ShoppingItemSource[] = [], b: ShoppingItemSource[] = []): ShoppingItemSource[] =>
+  b.reduce(addSource, a);
+
+/**
+ * Shop-friendly amount: big metric amounts move up a unit, counts round up
+ * (you can't buy 1.5 onions), everything else keeps one decimal.
+ */
+export const toShoppingAmount = (q: Quantity): { quantity: number; unit: string } => {
+  const unit = normalizeUnit(q.unit);
+  if (unit === 'g' && q.val >= 1000) return { quantity: Math.round(q.val / 100) / 10, unit: 'kg' };
+  if (unit === 'ml' && q.val >= 1000) return { quantity: Math.round(q.val / 100) / 10, unit: 'L' };
+  if (unit === 'pcs') return { quantity: Math.max(1, Math.ceil(q.val - 0.01)), unit };
+  return { quantity: Math.round(q.val * 10) / 10 || 0.1, unit: unit === 'l' ? 'L' : unit };
+};
+
+/**
+ * "1.2 kg", or empty for entries without an amount
+ */
+export const formatShoppingAmount = (item: Pick<ShoppingItem, 'quantity' | 'unit'>): string =>
+  item.quantity === undefined ? '' : `${formatQuantity(item.quantity)} ${item.unit || 'pcs'}`;
+
+/**
+ * Combined amount of two entries for the same ingredient, or null if their
+ * units can't be added. An entry without an amount takes the other's.
+ */
+export const mergeShoppingAmounts = (
+  a: Pick<ShoppingItem, 'name' | 'quantity' | 'unit'>,
+  b: Pick<ShoppingItem, 'quantity' | 'unit'>
+): Pick<ShoppingItem, 'quantity' | 'unit'> | null => {
+  if (a.quantity === undefined) return { quantity: b.quantity, unit: b.unit };
+  if (b.quantity === undefined) return { quantity: a.quantity, unit: a.unit };
+  const total = mergeQuantities({ val: a.quantity, unit: a.unit || 'pcs' }, { val: b.quantity, unit: b.unit || 'pcs' }, a.name);
+  return total ? toShoppingAmount(total) : null;
+};
+
+/**
+ * Sum every recipe's ingredients. Amounts that can't be converted into each
+ * other ("2 cups" vs "300 g" flour with no known density) stay separate entries.
+ */
+const collectNeeds = (recipes: Recipe[]): Need[] => {
+  const needs: Need[] = [];
+
+  for (const recipe of recipes) {
+    for (const ingredient of recipe.ingredients) {
+      if (isBasicStaple(ingredient.name)) continue;
+
+      const q = getIngredientQuantity(ingredient);
+      const measurable = !q.unmeasurable && q.val > 0;
+      const same = needs.filter(n => isSameIngredient(n.name, ingredient.name));
+
+      if (!measurable) {
+        if (same.length > 0) same[0].sources = addSource(same[0].sources, recipe);
+        else needs.push({ name: ingredient.name, quantity: null, sources: addSource([], recipe) });
+        continue;
+      }
+
+      let merged = false;
+      for (const need of same) {
+        const total = need.quantity ? mergeQuantities(need.quantity, q, need.name) : { val: q.val, unit: q.unit };
+        if (!total) continue;
+        need.quantity = total;
+        need.sources = addSource(need.sources, recipe);
+        merged = true;
+        break;
+      }
+      if (!merged) needs.push({ name: ingredient.name, quantity: { val: q.val, unit: q.unit }, sources: addSource([], recipe) });
+    }
+  }
+  return needs;
+};
+
+/**
+ * What's left to buy once the pantry is taken into account, or null if the
+ * pantry covers it. A pantry amount in a unit we can't compare (a "1 pcs"
+ * bag of flour against "200 g") is trusted to be enough.
+ */
+const remainingToBuy = (need: Need, stock: PantryItem | null): Quantity | null | 'all' => {
+  if (!stock) return need.quantity ?? 'all';
+  if (!need.quantity) return null;
+
+  const have = convert(getPantryQuantity(stock), need.quantity.unit, need.name);
+  if (have === null) return null;
+
+  const remaining = need.quantity.val - have;
+  if (remaining <= need.quantity.val * COVERED_MARGIN) return null;
+  return { val: remaining, unit: need.quantity.unit };
+};
+
+const categoryRank = (category: string): number => {
+  const index = PANTRY_CATEGORIES.indexOf(category);
+  return index === -1 ? PANTRY_CATEGORIES.length : index;
+};
+
+/**
+ * Consolidated shopping list for a set of recipes, minus what's in the pantry.
+ * Sorted by category (PANTRY_CATEGORIES order), then name.
+ */
+export const buildShoppingList = (recipes: Recipe[], pantry: PantryItem[]): NewShoppingItem[] => {
+  const items: NewShoppingItem[] = [];
+
+  for (const need of collectNeeds(recipes)) {
+    const stock = findBestMatch(need.name, pantry);
+    const toBuy = remainingToBuy(need, stock);
+    if (toBuy === null) continue;
+
+    items.push({
+      name: need.name,
+      ...(toBuy === 'all' ? {} : toShoppingAmount(toBuy)),
+      // Older pantry rows can have free-form categories ("Vegetables")
+      category: stock && PANTRY_CATEGORIES.includes(stock.category) ? stock.category : categorizeIngredient(need.name),
+      sourceRecipes: need.sources
+    });
+  }
+
+  return items.sort((a, b) =>
+    categoryRank(a.category!) - categoryRank(b.category!) || a.name.localeCompare(b.name)
+  );
+};
+
+// --- AISLES ---
+
+/**
+ * Aisle for a list entry. Entries from before categories existed (or with a
+ * free-form category) are categorized from their name.
+ */
+export const getShoppingCategory = (item: Pick<ShoppingItem, 'name' | 'category'>): string =>
+  item.category && PANTRY_CATEGORIES.includes(item.category) ? item.category : categorizeIngredient(item.name);
+
+/**
+ * A store's aisle order, or the default category order. Categories the layout
+ * doesn't mention (added after it was saved) go at the end.
+ */
+export const getAisleOrder = (layout?: StoreLayout): string[] => {
+  const order = (layout?.aisleOrder || []).filter(c => PANTRY_CATEGORIES.includes(c));
+  return [...order, ...PANTRY_CATEGORIES.filter(c => !order.includes(c))];
+};
+
+/**
+ * Entries grouped into aisles in walking order; empty aisles are left out.
+ * Entries keep their list order within an aisle.
+ */
+export const groupByAisle = <T extends Pick<ShoppingItem, 'name' | 'category'>>(
+  items: T[],
+  aisleOrder: string[]
+): { category: string; items: T[] }[] => {
+  const groups = new Map<string, T[]>(aisleOrder.map(c => [c, []]));
+  items.forEach(item => groups.get(getShoppingCategory(item))?.push(item));
+  return [...groups.entries()]
+    .filter(([, aisleItems]) => aisleItems.length > 0)
+    .map(([category, aisleItems]) => ({ category, items: aisleItems }));
+};
+
+// --- PUTTING SHOPPING AWAY ---
+
+// Editable pantry fields for a bought item (quantity is the free-text form field)
+export type PantryDraft = Pick<PantryItem, 'name' | 'quantity' | 'unit' | 'category' | 'expiryDate'>;
+
+/**
+ * Pantry entry for a bought item, pre-filled from the list entry: its amount
+ * (1 pcs if it has none), its aisle and a typical shelf life.
+ */
+export const toPantryDraft = (item: ShoppingItem): PantryDraft => {
+  const category = getShoppingCategory(item);
+  return {
+    name: item.name,
+    quantity: item.quantity !== undefined ? formatQuantity(item.quantity) : '1',
+    unit: UNITS.find(u => u.toLowerCase() === (item.unit || '').toLowerCase()) || 'pcs',
+    category,
+    expiryDate: suggestExpiryDate(item.name, category)
+  };
+};
+
+/**
+ * Unticked list entries covered by what was bought (e.g. a scanned receipt):
+ * the same ingredient once descriptors are dropped ("chicken breast" on the
+ * list, "Organic Boneless Chicken Breast" bought). A partial name doesn't
+ * count, so "Coconut Milk" doesn't tick off "Milk".
+ */
+export const matchPurchasedItems = (purchased: { name: string }[], shoppingList: ShoppingItem[]): string[] =>
+  shoppingList
+    .filter(item => !item.checked && findBestMatch(item.name, purchased) !== null)
+    .map(item => item.id);
@@ -1,7 +1,8 @@
 
-import { Diet, UserPreferences, Recipe, PantryItem, ShoppingItem } from '../types';
+import { Diet, UserPreferences, Recipe, PantryItem, RemovedPantryItem, ShoppingItem, AiUsageEntry, PlannedMeal } from '../types';
 import { supabase } from './supabase';
 import { logger } from './loggerService';
+import { getHouseholdId } from './householdService';
 
 const DEFAULT_PREFERENCES: UserPreferences = {
   diet: Diet.Omnivore,
@@ -16,7 +17,8 @@ const DEFAULT_PREFERENCES: UserPreferences = {
   nutritionalGoal: 'Balanced',
   isPro: false,
   hasCompletedOnboarding: false,
-  theme: 'light'
+  theme: 'light',
+  storeLayouts: []
 };
 
 // --- LOADERS ---
@@ -26,6 +28,8 @@ export const loadUserPreferences = async (): Promise<UserPreferences> => {
         const { data: { session } } = await supabase.auth.getSession();
         if (!session?.user) return DEFAULT_PREFERENCES;
         
+        // The plan lives in app_metadata (set server-side); the stored isPro is only a mirror
+        const isPro = session.user.app_metadata?.plan === 'pro';
         const prefsRes = await supabase.from('user_preferences').select('data').eq('user_id', session.user.id).single();
         
         if (prefsRes.data && prefsRes.data.data) {
@@ -39,6 +43,7 @@ export const loadUserPreferences = async (): Promise<UserPreferences> => {
             return {
                 ...DEFAULT_PREFERENCES,
                 ...stored,
+                isPro,
                 hasCompletedOnboarding
             };
         }
@@ -54,6 +59,7 @@ export const loadUserPreferences = async (): Promise<UserPreferences> => {
 
         return {
             ...DEFAULT_PREFERENCES,
+            isPro,
             hasCompletedOnboarding: isLegacyUser // True (skip tour) if they have items, False if empty
         };
     } catch (e) {
@@ -61,59 +67,78 @@ export const loadUserPreferences = async (): Promise<UserPreferences> => {
     }
 };
 
-export const loadInventoryData = async (): Promise<{ pantry: PantryItem[], shoppingList: ShoppingItem[], recentEmptyItems: any[] }> => {
+// Row -> model mappers (shared by the initial load and realtime events)
+const toMillis = (value?: string | null) => value ? new Date(value).getTime() : undefined;
+
+const mapRowToPantryItem = (row: any): PantryItem => ({
+    id: row.id,
+    name: row.name,
+    quantity: row.quantity,
+    unit: row.unit,
+    measure: row.measure || undefined,
+    category: row.category,
+    expiryDate: row.expiry_date,
+    addedAt: row.added_at,
+    updatedAt: toMillis(row.updated_at)
+});
+
+const mapRowToShoppingItem = (row: any): ShoppingItem => ({
+    id: row.id,
+    name: row.name,
+    checked: row.checked,
+    quantity: row.quantity ?? undefined,
+    unit: row.unit || undefined,
+    category: row.category || undefined,
+    sourceRecipes: row.source_recipes || undefined,
+    putAway: row.put_away || undefined,
+    updatedAt: toMillis(row.updated_at)
+});
+
+/**
+ * Returns null when the server could not be reached, so callers can keep
+ * their local copy instead of treating the account as empty.
+ */
+export const loadInventoryData = async (): Promise<{ pantry: PantryItem[], shoppingList: ShoppingItem[], recentEmptyItems: RemovedPantryItem[] } | null> => {
     try {
-        const { data: { session } } = await supabase.auth.getSession();
-        if (!session?.user) return { pantry: [], shoppingList: [], recentEmptyItems: [] };
-        
-        const userId = session.user.id;
+        // Pantry and shopping list belong to the household, not the individual user
+        const householdId = await getHouseholdId();
+        if (!householdId) return { pantry: [], shoppingList: [], recentEmptyItems: [] };
+
         const trashDaysAgo = new Date();
         trashDaysAgo.setDate(trashDaysAgo.getDate() - 30);
 
         const [pantryRes, deletedRes, shoppingRes] = await Promise.all([
-            supabase.from('pantry_items').select('*').eq('user_id', userId).is('deleted_at', null).order('created_at', { ascending: true }),
-            supabase.from('pantry_items').select('*').eq('user_id', userId).not('deleted_at', 'is', null).gt('deleted_at', trashDaysAgo.toISOString()).order('deleted_at', { ascending: false }).limit(50),
-            supabase.from('shopping_items').select('*').eq('user_id', userId).order('created_at', { ascending: true })
+            supabase.from('pantry_items').select('*').eq('household_id', householdId).is('deleted_at', null).order('created_at', { ascending: true }),
+            supabase.from('pantry_items').select('*').eq('household_id', householdId).not('deleted_at', 'is', null).gt('deleted_at', trashDaysAgo.toISOString()).order('deleted_at', { ascending: false }).limit(50),
+            supabase.from('shopping_items').select('*').eq('household_id', householdId).order('created_at', { ascending: true })
         ]);
 
-        const pantry: PantryItem[] = (pantryRes.data || []).map((row: any) => ({
-            id: row.id,
-            name: row.name,
-            quantity: row.quantity,
-            unit: row.unit,
-            category: row.category,
-            expiryDate: row.expiry_date,
-            addedAt: row.added_at
-        }));
+        if (pantryRes.error || shoppingRes.error) throw pantryRes.error || shoppingRes.error;
 
-        const shoppingList: ShoppingItem[] = (shoppingRes.data || []).map((row: any) => ({
-            id: row.id,
-            name: row.name,
-            checked: row.checked
-        }));
+        const pantry: PantryItem[] = (pantryRes.data || []).map(mapRowToPantryItem);
+        const shoppingList: ShoppingItem[] = (shoppingRes.data || []).map(mapRowToShoppingItem);
 
-        const recentEmptyItems = (deletedRes.data || []).map((row: any) => ({
-            id: row.id,
-            name: row.name,
-            category: row.category,
+        const recentEmptyItems: RemovedPantryItem[] = (deletedRes.data || []).map((row: any) => ({
+            ...mapRowToPantryItem(row),
             removedAt: new Date(row.deleted_at).getTime()
         }));
 
         // Cleanup old deleted items in background (fire-and-forget with error logging)
         supabase.from('pantry_items')
             .delete()
-            .eq('user_id', userId)
+            .eq('household_id', householdId)
             .lt('deleted_at', trashDaysAgo.toISOString())
             .then()
             .catch(e => logger.warn('Background pantry cleanup failed', e));
 
         return { pantry, shoppingList, recentEmptyItems };
     } catch (e) {
-        return { pantry: [], shoppingList: [], recentEmptyItems: [] };
+        logger.warn('Failed to load inventory from server', e);
+        return null;
     }
 };
 
-export const loadRecipeData = async (isPro: boolean): Promise<{ history: Recipe[], bookmarkedRecipes: Recipe[] }> => {
+export const loadRecipeData = async (isPro: boolean): Promise<{ history: Recipe[], bookmarkedRecipes: Recipe[] } | null> => {
     try {
         const { data: { session } } = await supabase.auth.getSession();
         if (!session?.user) return { history: [], bookmarkedRecipes: [] };
@@ -128,6 +153,8 @@ export const loadRecipeData = async (isPro: boolean): Promise<{ history: Recipe[
              supabase.from('recipes').select('*').eq('user_id', userId).eq('is_history', true).filter('data->>lastCooked', 'gt', historyCutoff.toISOString()).order('created_at', { ascending: false })
         ]);
 
+        if (bookmarksRes.error || historyRes.error) throw bookmarksRes.error || historyRes.error;
+
         const bookmarkedRecipes: Recipe[] = (bookmarksRes.data || []).map((row: any) => ({ ...row.data }));
         const history: Recipe[] = (historyRes.data || []).map((row: any) => ({ ...row.data }));
 
@@ -135,11 +162,73 @@ export const loadRecipeData = async (isPro: boolean): Promise<{ history: Recipe[
 
         return { history, bookmarkedRecipes };
     } catch (e) {
-        return { history: [], bookmarkedRecipes: [] };
+        logger.warn('Failed to load recipes from server', e);
+        return null;
+    }
+};
+
+const mapRowToPlannedMeal = (row: any): PlannedMeal => ({
+    id: row.id,
+    date: row.plan_date,
+    slot: row.slot,
+    recipe: row.recipe,
+    updatedAt: toMillis(row.updated_at)
+});
+
+/**
+ * Planned meals from `fromDate` (yyyy-MM-dd) onwards.
+ * Returns null when the server could not be reached.
+ */
+export const loadMealPlan = async (fromDate: string): Promise<PlannedMeal[] | null> => {
+    try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session?.user) return [];
+
+        const { data, error } = await supabase
+            .from('meal_plans')
+            .select('*')
+            .eq('user_id', session.user.id)
+            .gte('plan_date', fromDate)
+            .order('plan_date', { ascending: true });
+        if (error) throw error;
+
+        return (data || []).map(mapRowToPlannedMeal);
+    } catch (e) {
+        logger.warn('Failed to load meal plan from server', e);
+        return null;
+    }
+};
+
+/**
+ * This month's AI usage for the signed-in user, one entry per feature.
+ * Online only: the ledger is written by the edge functions.
+ */
+export const loadAiUsageSummary = async (): Promise<AiUsageEntry[] | null> => {
+    try {
+        const { data, error } = await supabase.rpc('my_ai_usage_summary');
+        if (error) throw error;
+        return (data || []).map((row: any) => ({
+            endpoint: row.endpoint,
+            calls: Number(row.calls),
+            failures: Number(row.failures),
+            inputTokens: Number(row.input_tokens),
+            outputTokens: Number(row.output_tokens),
+            images: Number(row.images),
+            avgLatencyMs: row.avg_latency_ms
+        }));
+    } catch (e) {
+        logger.warn('Failed to load AI usage', e);
+        return null;
     }
 };
 
 // --- HELPERS & ACTIONS ---
+// Writes throw on failure so the sync queue knows to keep and retry them.
+
+// The HTTP status travels with the error; 0 means no response reached us.
+const throwIfError = ({ error, status }: { error: any; status?: number }) => {
+    if (error) throw Object.assign(error, { status });
+};
 
 // Helper: Map to Row
 const mapRecipeToRow = (r: Recipe, userId: string, isHistory: boolean, isBookmarked: boolean) => ({
@@ -154,68 +243,117 @@ const mapRecipeToRow = (r: Recipe, userId: string, isHistory: boolean, isBookmar
 // 1. PANTRY
 export const dbAddPantryItem = async (item: PantryItem) => {
     const { data: { session } } = await supabase.auth.getSession();
-    if (!session?.user) return;
-    await supabase.from('pantry_items').insert({
+    const householdId = await getHouseholdId();
+    if (!session?.user || !householdId) return;
+    // Upsert keeps replays idempotent if a previous attempt reached the server
+    throwIfError(await supabase.from('pantry_items').upsert({
         id: item.id,
         user_id: session.user.id,
+        household_id: householdId,
         name: item.name,
         quantity: item.quantity,
         unit: item.unit,
+        measure: item.measure,
         category: item.category,
         expiry_date: item.expiryDate,
         added_at: item.addedAt,
-        deleted_at: null
-    });
+        deleted_at: null,
+        updated_at: new Date(item.updatedAt || Date.now()).toISOString()
+    }));
 };
 
 export const dbUpdatePantryItem = async (id: string, updates: Partial<PantryItem>) => {
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session?.user) return;
+    const householdId = await getHouseholdId();
+    if (!householdId) return;
     
     const rowUpdates: any = {};
     if (updates.name !== undefined) rowUpdates.name = updates.name;
     if (updates.quantity !== undefined) rowUpdates.quantity = updates.quantity;
     if (updates.unit !== undefined) rowUpdates.unit = updates.unit;
+    if (updates.measure !== undefined) rowUpdates.measure = updates.measure;
     if (updates.category !== undefined) rowUpdates.category = updates.category;
     if (updates.expiryDate !== undefined) rowUpdates.expiry_date = updates.expiryDate;
+    rowUpdates.updated_at = new Date(updates.updatedAt || Date.now()).toISOString();
 
-    await supabase.from('pantry_items').update(rowUpdates).eq('id', id).eq('user_id', session.user.id);
+    // Last writer wins: an edit replayed from the outbox must not clobber a newer one from another device
+    throwIfError(await supabase
+        .from('pantry_items')
+        .update(rowUpdates)
+        .eq('id', id)
+        .eq('household_id', householdId)
+        .lte('updated_at', rowUpdates.updated_at));
 };
 
 export const dbRemovePantryItem = async (id: string) => {
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session?.user) return;
-    await supabase
+    const householdId = await getHouseholdId();
+    if (!householdId) return;
+    throwIfError(await supabase
         .from('pantry_items')
-        .update({ deleted_at: new Date().toISOString() })
+        .update({ deleted_at: new Date().toISOString(), updated_at: new Date().toISOString() })
         .eq('id', id)
-        .eq('user_id', session.user.id);
+        .eq('household_id', householdId));
+};
+
+/**
+ * Bring back a soft-deleted pantry row (undo / recently removed)
+ */
+export const dbRestorePantryItem = async (id: string, updatedAt: number) => {
+    const householdId = await getHouseholdId();
+    if (!householdId) return;
+    throwIfError(await supabase
+        .from('pantry_items')
+        .update({ deleted_at: null, updated_at: new Date(updatedAt).toISOString() })
+        .eq('id', id)
+        .eq('household_id', householdId));
+};
+
+/**
+ * Permanently delete a soft-deleted pantry row (before the 30-day purge)
+ */
+export const dbPurgePantryItem = async (id: string) => {
+    const householdId = await getHouseholdId();
+    if (!householdId) return;
+    throwIfError(await supabase
+        .from('pantry_items')
+        .delete()
+        .eq('id', id)
+        .eq('household_id', householdId)
+        .not('deleted_at', 'is', null));
 };
 
 // 2. SHOPPING LIST
 export const dbUpsertShoppingItems = async (items: ShoppingItem[]) => {
     const { data: { session } } = await supabase.auth.getSession();
-    if (!session?.user) return;
-    const rows = items.map(s => ({ id: s.id, user_id: session.user.id, name: s.name, checked: s.checked }));
-    await supabase.from('shopping_items').upsert(rows);
+    const householdId = await getHouseholdId();
+    if (!session?.user || !householdId) return;
+    const rows = items.map(s => ({
+        id: s.id,
+        user_id: session.user.id,
+        household_id: householdId,
+        name: s.name,
+        checked: s.checked,
+        quantity: s.quantity ?? null,
+        unit: s.unit ?? null,
+        category: s.category ?? null,
+        source_recipes: s.sourceRecipes ?? null,
+        put_away: s.putAway ?? false,
+        updated_at: new Date(s.updatedAt || Date.now()).toISOString()
+    }));
+    throwIfError(await supabase.from('shopping_items').upsert(rows));
 };
 
 export const dbRemoveShoppingItem = async (id: string) => {
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session?.user) return;
-    await supabase.from('shopping_items').delete().eq('id', id).eq('user_id', session.user.id);
+    const householdId = await getHouseholdId();
+    if (!householdId) return;
+    throwIfError(await supabase.from('shopping_items').delete().eq('id', id).eq('household_id', householdId));
 };
 
-export const dbClearCheckedShoppingItems = async () => {
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session?.user) return;
-    await supabase.from('shopping_items').delete().eq('checked', true).eq('user_id', session.user.id);
-};
-
-export const dbClearAllShoppingItems = async () => {
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session?.user) return;
-    await supabase.from('shopping_items').delete().neq('id', '0').eq('user_id', session.user.id);
+// Deletes exactly the rows the user cleared, so a replay after being offline
+// leaves items other household members added or ticked in the meantime
+export const dbRemoveShoppingItems = async (ids: string[]) => {
+    const householdId = await getHouseholdId();
+    if (!householdId || ids.length === 0) return;
+    throwIfError(await supabase.from('shopping_items').delete().in('id', ids).eq('household_id', householdId));
 };
 
 // 3. RECIPES
@@ -224,22 +362,43 @@ export const dbUpsertRecipe = async (recipe: Recipe, isHistory: boolean, isBookm
     if (!session?.user) return;
     
     const row = mapRecipeToRow(recipe, session.user.id, isHistory, isBookmarked);
-    await supabase.from('recipes').upsert(row);
+    throwIfError(await supabase.from('recipes').upsert(row));
 };
 
 export const dbUpdateRecipeFlags = async (recipeId: string, flags: { is_history?: boolean, is_bookmarked?: boolean }) => {
     const { data: { session } } = await supabase.auth.getSession();
     if (!session?.user) return;
-    await supabase.from('recipes').update(flags).eq('id', recipeId).eq('user_id', session.user.id);
+    throwIfError(await supabase.from('recipes').update(flags).eq('id', recipeId).eq('user_id', session.user.id));
 };
 
 export const dbDeleteRecipe = async (recipeId: string) => {
     const { data: { session } } = await supabase.auth.getSession();
     if (!session?.user) return;
-    await supabase.from('recipes').delete().eq('id', recipeId).eq('user_id', session.user.id);
+    throwIfError(await supabase.from('recipes').delete().eq('id', recipeId).eq('user_id', session.user.id));
+};
+
+// 4. MEAL PLAN
+export const dbUpsertPlannedMeal = async (meal: PlannedMeal) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) return;
+    // One meal per slot: a replay or another device's assignment to the same slot is replaced
+    throwIfError(await supabase.from('meal_plans').upsert({
+        id: meal.id,
+        user_id: session.user.id,
+        plan_date: meal.date,
+        slot: meal.slot,
+        recipe: meal.recipe,
+        updated_at: new Date(meal.updatedAt || Date.now()).toISOString()
+    }, { onConflict: 'user_id,plan_date,slot' }));
+};
+
+export const dbRemovePlannedMeal = async (id: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) return;
+    throwIfError(await supabase.from('meal_plans').delete().eq('id', id).eq('user_id', session.user.id));
 };
 
-// 4. PREFERENCES
+// 5. PREFERENCES
 export const dbSavePreferences = async (prefs: UserPreferences) => {
     const { data: { session } } = await supabase.auth.getSession();
     if (!session?.user) return;
@@ -249,3 +408,48 @@ export const dbSavePreferences = async (prefs: UserPreferences) => {
         updated_at: new Date().toISOString()
     });
 };
+
+// 6. REALTIME
+export type RemoteChange<T> =
+    | { type: 'upsert'; item: T }
+    | { type: 'delete'; id: string; item?: T };
+
+/**
+ * Subscribe to pantry and shopping list changes made by other household members or devices.
+ * Soft-deleted pantry rows are reported as deletes (with the row, so it can go to "recently removed").
+ * Returns an unsubscribe function.
+ */
+export const subscribeToInventoryChanges = async (handlers: {
+    onPantryChange: (change: RemoteChange<PantryItem>) => void;
+    onShoppingChange: (change: RemoteChange<ShoppingItem>) => void;
+}): Promise<() => void> => {
+    const householdId = await getHouseholdId();
+    if (!householdId) return () => {};
+    const filter = `household_id=eq.${householdId}`;
+
+    const channel = supabase
+        .channel(`inventory:${householdId}`)
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'pantry_items', filter }, ({ new: row }) => {
+            if (!row.deleted_at) handlers.onPantryChange({ type: 'upsert', item: mapRowToPantryItem(row) });
+        })
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'pantry_items', filter }, ({ new: row }) => {
+            const item = mapRowToPantryItem(row);
+            handlers.onPantryChange(row.deleted_at ? { type: 'delete', id: row.id, item } : { type: 'upsert', item });
+        })
+        // Delete events can't be filtered server-side; ids we don't hold are ignored by the handler
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'pantry_items' }, ({ old: row }) => {
+            if (row.id) handlers.onPantryChange({ type: 'delete', id: row.id });
+        })
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'shopping_items', filter }, ({ new: row }) => {
+            handlers.onShoppingChange({ type: 'upsert', item: mapRowToShoppingItem(row) });
+        })
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'shopping_items', filter }, ({ new: row }) => {
+            handlers.onShoppingChange({ type: 'upsert', item: mapRowToShoppingItem(row) });
+        })
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'shopping_items' }, ({ old: row }) => {
+            if (row.id) handlers.onShoppingChange({ type: 'delete', id: row.id });
+        })
+        .subscribe();
+
+    return () => { supabase.removeChannel(channel); };
+};
@@ -0,0 +1,244 @@
+/**
+ * Sync Queue (Outbox)
+ * Every pantry, shopping, recipe and meal plan write is recorded here first and then
+ * replayed against Supabase in order. The outbox is persisted in the local
+ * store so edits made offline survive an app restart and sync once the
+ * device is back online.
+ */
+
+import { PantryItem, PlannedMeal, Recipe, ShoppingItem } from '../types';
+import { localStore, LOCAL_KEYS } from './localStore';
+import { logger } from './loggerService';
+import {
+    dbAddPantryItem,
+    dbUpdatePantryItem,
+    dbRemovePantryItem,
+    dbRestorePantryItem,
+    dbPurgePantryItem,
+    dbUpsertShoppingItems,
+    dbRemoveShoppingItem,
+    dbRemoveShoppingItems,
+    dbUpsertRecipe,
+    dbUpdateRecipeFlags,
+    dbDeleteRecipe,
+    dbUpsertPlannedMeal,
+    dbRemovePlannedMeal
+} from './storageService';
+
+export type Mutation =
+    | { type: 'addPantryItem'; item: PantryItem }
+    | { type: 'updatePantryItem'; id: string; updates: Partial<PantryItem> }
+    | { type: 'removePantryItem'; id: string }
+    | { type: 'restorePantryItem'; id: string; updatedAt: number }
+    | { type: 'purgePantryItem'; id: string }
+    | { type: 'upsertShoppingItems'; items: ShoppingItem[] }
+    | { type: 'removeShoppingItem'; id: string }
+    | { type: 'removeShoppingItems'; ids: string[] }
+    | { type: 'upsertRecipe'; recipe: Recipe; isHistory: boolean; isBookmarked: boolean }
+    | { type: 'updateRecipeFlags'; recipeId: string; flags: { is_history?: boolean, is_bookmarked?: boolean } }
+    | { type: 'deleteRecipe'; recipeId: string }
+    | { type: 'upsertPlannedMeal'; meal: PlannedMeal }
+    | { type: 'removePlannedMeal'; id: string };
+
+interface QueuedMutation {
+    id: string;
+    createdAt: number;
+    attempts: number;
+    mutation: Mutation;
+}
+
+// A mutation the server keeps rejecting is set aside after this many tries
+// so one bad row cannot block everything queued behind it
+const MAX_ATTEMPTS = 5;
+
+// Wait before retrying a rejected mutation: 2s, 4s, 8s, ... up to a minute
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60000;
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// fetch rejects with a TypeError when no response arrives; Supabase reports that as status 0
+const isNetworkError = (error: any): boolean =>
+    isOffline() || error instanceof TypeError || error?.status === 0;
+
+const apply = async (mutation: Mutation): Promise<void> => {
+    switch (mutation.type) {
+        case 'addPantryItem': return dbAddPantryItem(mutation.item);
+        case 'updatePantryItem': return dbUpdatePantryItem(mutation.id, mutation.updates);
+        case 'removePantryItem': return dbRemovePantryItem(mutation.id);
+        case 'restorePantryItem': return dbRestorePantryItem(mutation.id, mutation.updatedAt);
+        case 'purgePantryItem': return dbPurgePantryItem(mutation.id);
+        case 'upsertShoppingItems': return dbUpsertShoppingItems(mutation.items);
+        case 'removeShoppingItem': return dbRemoveShoppingItem(mutation.id);
+        case 'removeShoppingItems': return dbRemoveShoppingItems(mutation.ids);
+        case 'upsertRecipe': return dbUpsertRecipe(mutation.recipe, mutation.isHistory, mutation.isBookmarked);
+        case 'updateRecipeFlags': return dbUpdateRecipeFlags(mutation.recipeId, mutation.flags);
+        case 'deleteRecipe': return dbDeleteRecipe(mutation.recipeId);
+        case 'upsertPlannedMeal': return dbUpsertPlannedMeal(mutation.meal);
+        case 'removePlannedMeal': return dbRemovePlannedMeal(mutation.id);
+    }
+};
+
+class SyncQueue {
+    private queue: QueuedMutation[] = [];
+    private failed: QueuedMutation[] = []; // Gave up after MAX_ATTEMPTS, kept for a manual retry
+    private loaded: Promise<void> | null = null;
+    private flushing: Promise<void> | null = null;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private listeners = new Set<(pending: number, failed: number) => void>();
+
+    constructor() {
+        if (typeof window !== 'undefined') {
+            window.addEventListener('online', () => { this.flush(); });
+        }
+    }
+
+    /**
+     * Load the persisted outbox once per session
+     */
+    private load(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = Promise.all([
+                localStore.get<QueuedMutation[]>(LOCAL_KEYS.outbox),
+                localStore.get<QueuedMutation[]>(LOCAL_KEYS.outboxFailed)
+            ]).then(([saved, failed]) => {
+                // Anything enqueued before the load finished goes after the saved entries
+                this.queue = [...(saved || []), ...this.queue];
+                this.failed = [...(failed || []), ...this.failed];
+                this.notify();
+            });
+        }
+        return this.loaded;
+    }
+
+    private async persist() {
+        await Promise.all([
+            localStore.set(LOCAL_KEYS.outbox, this.queue),
+            localStore.set(LOCAL_KEYS.outboxFailed, this.failed)
+        ]);
+        this.notify();
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener(this.queue.length, this.failed.length));
+    }
+
+    get pendingCount(): number {
+        return this.queue.length;
+    }
+
+    get failedCount(): number {
+        return this.failed.length;
+    }
+
+    /**
+     * Subscribe to changes in the number of pending and failed mutations.
+     * Returns an unsubscribe function.
+     */
+    subscribe(listener: (pending: number, failed: number) => void): () => void {
+        this.listeners.add(listener);
+        listener(this.queue.length, this.failed.length);
+        this.load();
+        return () => { this.listeners.delete(listener); };
+    }
+
+    /**
+     * Record a write and try to send it straight away
+     */
+    async enqueue(mutation: Mutation): Promise<void> {
+        this.queue.push({ id: crypto.randomUUID(), createdAt: Date.now(), attempts: 0, mutation });
+        await this.load();
+        await this.persist();
+        this.flush();
+    }
+
+    /**
+     * Replay queued mutations in order. Stops at the first network failure
+     * and leaves the rest for the next 'online' event or app start; a
+     * rejected mutation is retried with backoff.
+     */
+    flush(): Promise<void> {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+        if (!this.flushing) {
+            this.flushing = this.drain().finally(() => { this.flushing = null; });
+        }
+        return this.flushing;
+    }
+
+    private async drain() {
+        await this.load();
+
+        while (this.queue.length > 0 && !isOffline()) {
+            const entry = this.queue[0];
+            try {
+                await apply(entry.mutation);
+                this.queue.shift();
+            } catch (error) {
+                if (isNetworkError(error)) {
+                    logger.warn('Sync paused, network unavailable');
+                    break;
+                }
+                entry.attempts += 1;
+                if (entry.attempts >= MAX_ATTEMPTS) {
+                    logger.error(`Setting ${entry.mutation.type} aside after ${MAX_ATTEMPTS} failed attempts`, error);
+                    this.failed.push(this.queue.shift()!);
+                } else {
+                    logger.warn(`Sync of ${entry.mutation.type} failed, will retry`, error);
+                    await this.persist();
+                    this.scheduleRetry(entry.attempts);
+                    break;
+                }
+            }
+            await this.persist();
+        }
+    }
+
+    private scheduleRetry(attempts: number) {
+        if (this.retryTimer) clearTimeout(this.retryTimer);
+        const delay = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.flush();
+        }, delay);
+    }
+
+    /**
+     * Put mutations that were set aside back in the queue and try again
+     */
+    async retryFailed(): Promise<void> {
+        await this.load();
+        if (this.failed.length === 0) return;
+        this.queue.push(...this.failed.map(entry => ({ ...entry, attempts: 0 })));
+        this.failed = [];
+        await this.persist();
+        await this.flush();
+    }
+
+    /**
+     * Discard failed writes the user has given up on
+     */
+    async discardFailed(): Promise<void> {
+        await this.load();
+        this.failed = [];
+        await this.persist();
+    }
+
+    /**
+     * Discard all pending and failed writes (used on sign out)
+     */
+    async clear(): Promise<void> {
+        await this.load();
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+        this.queue = [];
+        this.failed = [];
+        await this.persist();
+    }
+}
+
+export const syncQueue = new SyncQueue();
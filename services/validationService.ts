@@ -0,0 +1,207 @@
+import { Difficulty, Ingredient, PANTRY_CATEGORIES, Recipe, ScannedPantryItem, UNITS } from '../types';
+import { logger } from './loggerService';
+import { normalizeUnit } from './quantityService';
+
+/**
+ * Runtime checks for AI output. Responses are typed `any` on the wire, so
+ * everything is checked against the app types before it reaches the UI:
+ * fixable problems are repaired, unusable entries are dropped with a warning.
+ */
+
+export interface ValidationResult<T> {
+  value: T | null; // null when the entry can't be used
+  issues: string[]; // What was repaired or why it was rejected
+}
+
+// Ingredient as generated: structured amount comes as separate fields
+export type GeneratedIngredient = Omit<Ingredient, 'measure'> & { quantity?: number; unit?: string };
+
+// Recipe as generated, before the client adds id, measures and matchScore
+export type GeneratedRecipe = Omit<Recipe, 'id' | 'matchScore' | 'ingredients'> & { ingredients: GeneratedIngredient[] };
+
+const DIFFICULTIES = Object.values(Difficulty) as string[];
+const DEFAULT_TIME_MINUTES = 30;
+
+// --- PRIMITIVES ---
+
+const isRecord = (raw: unknown): raw is Record<string, any> =>
+  typeof raw === 'object' && raw !== null && !Array.isArray(raw);
+
+const cleanString = (raw: unknown): string => (typeof raw === 'string' ? raw.trim() : '');
+
+const isPositiveNumber = (raw: unknown): raw is number => typeof raw === 'number' && Number.isFinite(raw) && raw > 0;
+
+// Unit as shown in the pickers ("L", not "l"), or null if we don't support it
+export const toKnownUnit = (raw: unknown): string | null => {
+  if (typeof raw !== 'string' || !raw.trim()) return null;
+  const unit = normalizeUnit(raw);
+  return UNITS.find(u => normalizeUnit(u) === unit) || null;
+};
+
+export const toKnownCategory = (raw: unknown): string | null => {
+  const category = cleanString(raw).toLowerCase();
+  return PANTRY_CATEGORIES.find(c => c.toLowerCase() === category) || null;
+};
+
+// --- INGREDIENTS ---
+
+export const validateIngredient = (raw: unknown): ValidationResult<GeneratedIngredient> => {
+  if (!isRecord(raw)) return { value: null, issues: ['ingredient is not an object'] };
+  const issues: string[] = [];
+
+  const name = cleanString(raw.name);
+  if (!name) return { value: null, issues: ['ingredient has no name'] };
+
+  let quantity: number | undefined;
+  let unit: string | undefined;
+  if (raw.quantity !== undefined || raw.unit !== undefined) {
+    const knownUnit = toKnownUnit(raw.unit);
+    if (!knownUnit) issues.push(`${name}: unknown unit "${raw.unit}"`);
+    else if (typeof raw.quantity !== 'number' || !Number.isFinite(raw.quantity) || raw.quantity < 0) {
+      issues.push(`${name}: invalid quantity "${raw.quantity}"`);
+    } else {
+      quantity = raw.quantity;
+      unit = knownUnit;
+    }
+  }
+
+  let amount = cleanString(raw.amount);
+  if (!amount) {
+    amount = quantity ? `${quantity} ${unit}` : 'to taste';
+    issues.push(`${name}: missing amount`);
+  }
+
+  return {
+    value: { name, amount, quantity, unit, isAvailableInPantry: raw.isAvailableInPantry === true },
+    issues
+  };
+};
+
+// --- RECIPES ---
+
+/**
+ * A recipe needs a title, at least one ingredient and at least one step to
+ * be cookable; everything else falls back to a sensible default.
+ */
+export const validateRecipe = (raw: unknown): ValidationResult<GeneratedRecipe> => {
+  if (!isRecord(raw)) return { value: null, issues: ['recipe is not an object'] };
+  const issues: string[] = [];
+
+  const title = cleanString(raw.title);
+  if (!title) return { value: null, issues: ['recipe has no title'] };
+
+  const instructions = Array.isArray(raw.instructions) ? raw.instructions.map(cleanString).filter(Boolean) : [];
+  if (instructions.length === 0) return { value: null, issues: [`${title}: missing instructions`] };
+
+  const ingredients: GeneratedIngredient[] = [];
+  (Array.isArray(raw.ingredients) ? raw.ingredients : []).forEach((item: unknown) => {
+    const result = validateIngredient(item);
+    issues.push(...result.issues);
+    if (result.value) ingredients.push(result.value);
+  });
+  if (ingredients.length === 0) return { value: null, issues: [...issues, `${title}: missing ingredients`] };
+
+  let totalTimeMinutes = raw.totalTimeMinutes;
+  if (!isPositiveNumber(totalTimeMinutes)) {
+    issues.push(`${title}: invalid time "${totalTimeMinutes}"`);
+    totalTimeMinutes = DEFAULT_TIME_MINUTES;
+  }
+
+  let difficulty = raw.difficulty;
+  if (!DIFFICULTIES.includes(difficulty)) {
+    issues.push(`${title}: unknown difficulty "${difficulty}"`);
+    difficulty = Difficulty.Medium;
+  }
+
+  let caloriesApprox = raw.caloriesApprox;
+  if (typeof caloriesApprox !== 'number' || !Number.isFinite(caloriesApprox) || caloriesApprox < 0) {
+    issues.push(`${title}: invalid calories "${caloriesApprox}"`);
+    caloriesApprox = 0;
+  }
+
+  const macros = Array.isArray(raw.macros)
+    ? raw.macros.filter((m: any) => isRecord(m) && cleanString(m.name) && typeof m.value === 'number' && m.value >= 0)
+    : undefined;
+
+  return {
+    value: {
+      title,
+      description: cleanString(raw.description),
+      imagePrompt: cleanString(raw.imagePrompt) || undefined,
+      totalTimeMinutes: Math.round(totalTimeMinutes),
+      difficulty: difficulty as Difficulty,
+      caloriesApprox: Math.round(caloriesApprox),
+      ingredients,
+      instructions,
+      tags: Array.isArray(raw.tags) ? raw.tags.map(cleanString).filter(Boolean) : [],
+      macros,
+      usesExpiringIngredients: raw.usesExpiringIngredients === true,
+      nutrition: isRecord(raw.nutrition) ? raw.nutrition : undefined
+    },
+    issues
+  };
+};
+
+// --- PANTRY SCANS ---
+
+export const validateScannedItem = (raw: unknown): ValidationResult<ScannedPantryItem> => {
+  if (!isRecord(raw)) return { value: null, issues: ['item is not an object'] };
+  const issues: string[] = [];
+
+  const name = cleanString(raw.name);
+  if (!name) return { value: null, issues: ['item has no name'] };
+
+  let quantity = cleanString(String(raw.quantity ?? ''));
+  const amount = parseFloat(quantity);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    issues.push(`${name}: invalid quantity "${raw.quantity}"`);
+    quantity = '1';
+  }
+
+  let unit = toKnownUnit(raw.unit);
+  if (!unit) {
+    issues.push(`${name}: unknown unit "${raw.unit}"`);
+    unit = 'pcs';
+  }
+
+  let category = toKnownCategory(raw.category);
+  if (!category) {
+    issues.push(`${name}: unknown category "${raw.category}"`);
+    category = 'General';
+  }
+
+  let expiryDate: string | undefined = cleanString(raw.expiryDate) || undefined;
+  if (expiryDate && isNaN(Date.parse(expiryDate))) {
+    issues.push(`${name}: invalid expiry "${expiryDate}"`);
+    expiryDate = undefined;
+  }
+
+  // Receipts only; a bad price is dropped without failing the item
+  const price = typeof raw.price === 'number' && Number.isFinite(raw.price) && raw.price >= 0
+    ? Math.round(raw.price * 100) / 100
+    : undefined;
+
+  return { value: { name, quantity, unit, category, expiryDate, price }, issues };
+};
+
+/**
+ * Validate every entry of an AI list, keeping the usable ones.
+ * Repairs and drops are logged once per response.
+ */
+export const validateList = <T>(raw: unknown, validate: (item: unknown) => ValidationResult<T>, label: string): T[] => {
+  if (!Array.isArray(raw)) {
+    logger.warn(`Invalid ${label} response: expected a list`, { received: typeof raw });
+    return [];
+  }
+  const valid: T[] = [];
+  const issues: string[] = [];
+  let dropped = 0;
+  raw.forEach(item => {
+    const result = validate(item);
+    issues.push(...result.issues);
+    if (result.value) valid.push(result.value);
+    else dropped++;
+  });
+  if (issues.length > 0) logger.warn(`Repaired ${label} response`, { dropped, issues });
+  return valid;
+};
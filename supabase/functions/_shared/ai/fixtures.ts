@@ -0,0 +1,146 @@
+/**
+ * Canned responses for the mock provider (AI_PROVIDER=mock).
+ * Shapes match the response schemas of the functions that use them.
+ */
+
+import type { AiTask } from "./types.ts";
+
+const RECIPES = {
+  recipes: [
+    {
+      title: "Crispy Garlic Fried Rice",
+      description: "Yesterday's rice, today's main character. Crispy edges, garlicky everything.",
+      imagePrompt: "Golden fried rice with crispy garlic and a fried egg in a dark bowl",
+      totalTimeMinutes: 20,
+      difficulty: "Easy",
+      caloriesApprox: 520,
+      usesExpiringIngredients: true,
+      ingredients: [
+        { name: "Rice", amount: "2 cups", quantity: 2, unit: "cups", isAvailableInPantry: true },
+        { name: "Egg", amount: "2 pcs", quantity: 2, unit: "pcs", isAvailableInPantry: true },
+        { name: "Garlic", amount: "4 pcs", quantity: 4, unit: "pcs", isAvailableInPantry: true },
+        { name: "Soy Sauce", amount: "2 tbsp", quantity: 2, unit: "tbsp", isAvailableInPantry: true },
+        { name: "Salt", amount: "to taste", quantity: 0, unit: "tsp", isAvailableInPantry: true }
+      ],
+      instructions: [
+        "Slice the garlic thin and fry it low and slow until golden. Scoop it out, keep the oil.",
+        "Crank the heat, add the rice and press it flat. Let it crisp, don't stir for a minute.",
+        "Push the rice aside, scramble the eggs in the gap, then toss everything with soy sauce.",
+        "Top with the crispy garlic. Done."
+      ],
+      tags: ["Quick", "Asian", "Leftovers"],
+      macros: [{ name: "Protein", value: 18 }, { name: "Carbs", value: 82 }, { name: "Fat", value: 12 }],
+      nutrition: { fiber: "2g", sugar: "3g", sodium: "900mg", servingWeight: "350g" }
+    },
+    {
+      title: "Tomato Butter Pasta",
+      description: "Four ingredients, zero drama, maximum cozy.",
+      imagePrompt: "Spaghetti in glossy red tomato butter sauce with basil on a white plate",
+      totalTimeMinutes: 25,
+      difficulty: "Easy",
+      caloriesApprox: 610,
+      usesExpiringIngredients: false,
+      ingredients: [
+        { name: "Pasta", amount: "200 g", quantity: 200, unit: "g", isAvailableInPantry: true },
+        { name: "Tomato", amount: "3 pcs", quantity: 3, unit: "pcs", isAvailableInPantry: true },
+        { name: "Butter", amount: "2 tbsp", quantity: 2, unit: "tbsp", isAvailableInPantry: true },
+        { name: "Onion", amount: "1 pcs", quantity: 1, unit: "pcs", isAvailableInPantry: true }
+      ],
+      instructions: [
+        "Boil the pasta in well salted water.",
+        "Grate the tomatoes, simmer with butter and a halved onion for 15 minutes.",
+        "Toss the pasta in the sauce with a splash of pasta water until glossy."
+      ],
+      tags: ["Italian", "Vegetarian", "Comfort"],
+      macros: [{ name: "Protein", value: 16 }, { name: "Carbs", value: 95 }, { name: "Fat", value: 18 }],
+      nutrition: { fiber: "6g", sugar: "9g", sodium: "400mg", servingWeight: "380g" }
+    },
+    {
+      title: "Spiced Chickpea Wraps",
+      description: "Crunchy, saucy, handheld. Lunch just leveled up.",
+      imagePrompt: "Flatbread wraps filled with roasted spiced chickpeas and yogurt sauce",
+      totalTimeMinutes: 30,
+      difficulty: "Easy",
+      caloriesApprox: 480,
+      usesExpiringIngredients: false,
+      ingredients: [
+        { name: "Chickpeas", amount: "400 g", quantity: 400, unit: "g", isAvailableInPantry: true },
+        { name: "Tortilla", amount: "4 pcs", quantity: 4, unit: "pcs", isAvailableInPantry: false },
+        { name: "Yogurt", amount: "0.5 cups", quantity: 0.5, unit: "cups", isAvailableInPantry: true },
+        { name: "Cumin", amount: "1 tsp", quantity: 1, unit: "tsp", isAvailableInPantry: true }
+      ],
+      instructions: [
+        "Roast the chickpeas with cumin at 220°C until crunchy, about 20 minutes.",
+        "Warm the wraps, add a swoosh of yogurt and pile on the chickpeas.",
+        "Roll tight and eat immediately."
+      ],
+      tags: ["Middle Eastern", "Vegetarian"],
+      macros: [{ name: "Protein", value: 20 }, { name: "Carbs", value: 64 }, { name: "Fat", value: 14 }],
+      nutrition: { fiber: "12g", sugar: "5g", sodium: "600mg", servingWeight: "300g" }
+    },
+    {
+      title: "One-Pan Lemon Chicken",
+      description: "Bright, juicy and only one pan to wash. You're welcome.",
+      imagePrompt: "Golden seared chicken thighs with lemon slices in a cast iron pan",
+      totalTimeMinutes: 40,
+      difficulty: "Medium",
+      caloriesApprox: 650,
+      usesExpiringIngredients: true,
+      ingredients: [
+        { name: "Chicken Thigh", amount: "4 pcs", quantity: 4, unit: "pcs", isAvailableInPantry: true },
+        { name: "Lemon", amount: "1 pcs", quantity: 1, unit: "pcs", isAvailableInPantry: true },
+        { name: "Potato", amount: "3 pcs", quantity: 3, unit: "pcs", isAvailableInPantry: true },
+        { name: "Olive Oil", amount: "2 tbsp", quantity: 2, unit: "tbsp", isAvailableInPantry: true }
+      ],
+      instructions: [
+        "Sear the chicken skin side down until deeply golden.",
+        "Add sliced potatoes and lemon, then roast everything at 200°C for 25 minutes.",
+        "Spoon the pan juices over before serving."
+      ],
+      tags: ["Dinner", "High Protein"],
+      macros: [{ name: "Protein", value: 42 }, { name: "Carbs", value: 38 }, { name: "Fat", value: 34 }],
+      nutrition: { fiber: "4g", sugar: "2g", sodium: "700mg", servingWeight: "450g" }
+    }
+  ]
+};
+
+const PANTRY_SCAN = {
+  items: [
+    { name: "Milk", quantity: "1", unit: "L", category: "Dairy" },
+    { name: "Eggs", quantity: "12", unit: "pcs", category: "Dairy" },
+    { name: "Tomato", quantity: "4", unit: "pcs", category: "Produce" },
+    { name: "Rice", quantity: "1", unit: "kg", category: "Grains" }
+  ]
+};
+
+// Receipt lines come back expanded, with the price paid per line
+const RECEIPT_SCAN = {
+  items: [
+    { name: "Whole Milk", quantity: "2", unit: "L", category: "Dairy", price: 2.49 },
+    { name: "Boneless Chicken Breast", quantity: "742", unit: "g", category: "Meat", price: 7.42 },
+    { name: "Bananas", quantity: "6", unit: "pcs", category: "Produce", price: 1.29 },
+    { name: "Sourdough Bread", quantity: "1", unit: "pcs", category: "Bakery", price: 3.5 }
+  ]
+};
+
+const ASK_STEP = "Keep the heat at medium and be patient - golden beats burnt every single time.";
+
+// Two days of lunch and dinner from the recipes above
+const MEAL_PLAN = {
+  plan: RECIPES.recipes.map((recipe, i) => ({
+    day: Math.floor(i / 2) + 1,
+    slot: i % 2 === 0 ? 'lunch' : 'dinner',
+    recipe
+  }))
+};
+
+export const MOCK_RESPONSES: Record<AiTask, string> = {
+  'recipes': JSON.stringify(RECIPES),
+  'meal-plan': JSON.stringify(MEAL_PLAN),
+  'pantry-scan': JSON.stringify(PANTRY_SCAN),
+  'receipt-scan': JSON.stringify(RECEIPT_SCAN),
+  'ask-step': ASK_STEP
+};
+
+// 1x1 PNG so thumbnails render without calling an image model
+export const MOCK_IMAGE_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
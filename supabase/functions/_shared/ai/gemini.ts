@@ -0,0 +1,72 @@
+/**
+ * Gemini adapter for text, JSON and vision requests
+ */
+
+import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from "https://esm.sh/@google/generative-ai@0.21.0";
+import type { TextProvider, TextRequest } from "./types.ts";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+export class GeminiProvider implements TextProvider {
+  readonly name = 'gemini';
+  private client: GoogleGenerativeAI;
+  private model: string;
+
+  constructor(apiKey: string, model: string = DEFAULT_GEMINI_MODEL) {
+    this.client = new GoogleGenerativeAI(apiKey);
+    this.model = model;
+  }
+
+  private getModel(systemInstruction: string) {
+    return this.client.getGenerativeModel({
+      model: this.model,
+      safetySettings: [
+        { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+      ],
+      systemInstruction
+    });
+  }
+
+  private buildRequest(request: TextRequest) {
+    const parts: any[] = [];
+    if (request.image) parts.push({ inlineData: { mimeType: request.image.mimeType, data: request.image.data } });
+    parts.push({ text: request.prompt });
+
+    return {
+      contents: [{ role: 'user', parts }],
+      generationConfig: request.responseSchema
+        ? { responseMimeType: "application/json", responseSchema: request.responseSchema as any }
+        : undefined
+    };
+  }
+
+  private reportUsage(request: TextRequest, usage?: { promptTokenCount?: number; candidatesTokenCount?: number }) {
+    request.onUsage?.({
+      provider: this.name,
+      model: this.model,
+      inputTokens: usage?.promptTokenCount,
+      outputTokens: usage?.candidatesTokenCount
+    });
+  }
+
+  async generateText(request: TextRequest): Promise<string> {
+    const result = await this.getModel(request.systemInstruction).generateContent(this.buildRequest(request), { signal: request.signal });
+    this.reportUsage(request, result.response.usageMetadata);
+    return result.response.text();
+  }
+
+  async *streamText(request: TextRequest): AsyncIterable<string> {
+    const result = await this.getModel(request.systemInstruction).generateContentStream(this.buildRequest(request), { signal: request.signal });
+    // Chunks carry running token counts; the last one seen is what a cancelled
+    // or failed stream cost, and the final one once the stream is done
+    let usage: { promptTokenCount?: number; candidatesTokenCount?: number } | undefined;
+    try {
+      for await (const chunk of result.stream) {
+        usage = chunk.usageMetadata ?? usage;
+        yield chunk.text();
+      }
+    } finally {
+      this.reportUsage(request, usage);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * AI provider selection for edge functions
+ *
+ * AI_PROVIDER     gemini (default) | mock   - text, JSON and vision
+ * IMAGE_PROVIDER  runware (default) | mock  - image generation; follows AI_PROVIDER=mock when unset
+ * AI_TEXT_MODEL   optional model override for the text provider
+ * AI_IMAGE_MODEL  optional model override for the image provider
+ */
+
+import type { ImageProvider, TextProvider } from "./types.ts";
+import { GeminiProvider } from "./gemini.ts";
+import { RunwareProvider } from "./runware.ts";
+import { MockImageProvider, MockTextProvider } from "./mock.ts";
+
+export type { AiTask, AiUsage, ImageProvider, ImageRequest, TextProvider, TextRequest } from "./types.ts";
+
+export function getTextProvider(): TextProvider {
+  const provider = (Deno.env.get('AI_PROVIDER') || 'gemini').toLowerCase();
+
+  if (provider === 'mock') return new MockTextProvider();
+  if (provider === 'gemini') {
+    const apiKey = Deno.env.get('GEMINI_API_KEY');
+    if (!apiKey) throw new Error('GEMINI_API_KEY is not set');
+    return new GeminiProvider(apiKey, Deno.env.get('AI_TEXT_MODEL') || undefined);
+  }
+  throw new Error(`Unknown AI_PROVIDER: ${provider}`);
+}
+
+export function getImageProvider(): ImageProvider {
+  const textProvider = (Deno.env.get('AI_PROVIDER') || '').toLowerCase();
+  const provider = (Deno.env.get('IMAGE_PROVIDER') || (textProvider === 'mock' ? 'mock' : 'runware')).toLowerCase();
+
+  if (provider === 'mock') return new MockImageProvider();
+  if (provider === 'runware') {
+    const apiKey = Deno.env.get('RUNWARE_API_KEY');
+    if (!apiKey) throw new Error('RUNWARE_API_KEY is not set');
+    return new RunwareProvider(apiKey, Deno.env.get('AI_IMAGE_MODEL') || undefined);
+  }
+  throw new Error(`Unknown IMAGE_PROVIDER: ${provider}`);
+}
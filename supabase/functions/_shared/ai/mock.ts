@@ -0,0 +1,38 @@
+/**
+ * Deterministic offline provider (AI_PROVIDER=mock).
+ * Answers every request with the fixture for its task, so the whole recipe
+ * flow can be developed and tested without API keys or network access.
+ */
+
+import type { ImageProvider, ImageRequest, TextProvider, TextRequest } from "./types.ts";
+import { MOCK_IMAGE_BASE64, MOCK_RESPONSES } from "./fixtures.ts";
+
+// Small chunks so streaming clients see several partial updates
+const STREAM_CHUNK_SIZE = 64;
+
+export class MockTextProvider implements TextProvider {
+  readonly name = 'mock';
+
+  generateText(request: TextRequest): Promise<string> {
+    request.onUsage?.({ provider: this.name, model: this.name, inputTokens: 0, outputTokens: 0 });
+    return Promise.resolve(MOCK_RESPONSES[request.task]);
+  }
+
+  async *streamText(request: TextRequest): AsyncIterable<string> {
+    const text = MOCK_RESPONSES[request.task];
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+      request.signal?.throwIfAborted();
+      yield text.slice(i, i + STREAM_CHUNK_SIZE);
+    }
+    request.onUsage?.({ provider: this.name, model: this.name, inputTokens: 0, outputTokens: 0 });
+  }
+}
+
+export class MockImageProvider implements ImageProvider {
+  readonly name = 'mock';
+
+  generateImage(request: ImageRequest): Promise<string> {
+    request.onUsage?.({ provider: this.name, model: this.name, images: 1 });
+    return Promise.resolve(MOCK_IMAGE_BASE64);
+  }
+}
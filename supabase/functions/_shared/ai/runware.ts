@@ -0,0 +1,78 @@
+/**
+ * Runware adapter for image generation
+ */
+
+import type { ImageProvider, ImageRequest } from "./types.ts";
+
+export const DEFAULT_RUNWARE_MODEL = 'runware:111@1';
+
+export class RunwareProvider implements ImageProvider {
+  readonly name = 'runware';
+  private apiKey: string;
+  private model: string;
+
+  constructor(apiKey: string, model: string = DEFAULT_RUNWARE_MODEL) {
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  async generateImage(request: ImageRequest): Promise<string> {
+    const response = await fetch('https://api.runware.ai/v1', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify([
+        {
+          taskType: 'imageInference',
+          taskUUID: crypto.randomUUID(),
+          positivePrompt: request.prompt,
+          negativePrompt: request.negativePrompt,
+          height: request.height,
+          width: request.width,
+          model: this.model,
+          steps: 25,
+          CFGScale: 7.5,
+          numberResults: 1,
+          outputFormat: 'WEBP',
+          includeCost: false,
+        }
+      ]),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Runware API error:', response.status, errorText);
+      throw new Error(`Runware API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    // Runware returns an array of results
+    if (!data.data || !Array.isArray(data.data) || data.data.length === 0) {
+      console.error('Runware response missing data:', JSON.stringify(data));
+      throw new Error('No image data in response');
+    }
+
+    // Find the image inference result
+    const imageResult = data.data.find((item: any) => item.taskType === 'imageInference');
+
+    if (!imageResult || !imageResult.imageURL) {
+      console.error('No image URL in Runware response:', JSON.stringify(data));
+      throw new Error('No image URL in response');
+    }
+
+    // Fetch the image and convert to base64
+    const imageResponse = await fetch(imageResult.imageURL);
+    if (!imageResponse.ok) {
+      throw new Error('Failed to fetch generated image');
+    }
+
+    const imageArrayBuffer = await imageResponse.arrayBuffer();
+    request.onUsage?.({ provider: this.name, model: this.model, images: 1 });
+    return btoa(
+      new Uint8Array(imageArrayBuffer).reduce((data, byte) => data + String.fromCharCode(byte), '')
+    );
+  }
+}
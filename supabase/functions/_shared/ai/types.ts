@@ -0,0 +1,52 @@
+/**
+ * AI provider interfaces shared by all edge functions.
+ * Functions describe what they need (text, JSON, vision, images) and the
+ * provider selected by env var decides which model actually answers.
+ */
+
+// Which feature is asking; used by the mock provider to pick a fixture
+export type AiTask = 'recipes' | 'meal-plan' | 'pantry-scan' | 'receipt-scan' | 'ask-step';
+
+// What one model call used, reported for the usage ledger
+export interface AiUsage {
+  provider: string;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  images?: number;
+}
+
+export interface TextRequest {
+  task: AiTask;
+  systemInstruction: string;
+  prompt: string;
+  // When set, the reply must be JSON matching this schema (Gemini-style uppercase types)
+  responseSchema?: Record<string, unknown>;
+  // Vision: an image sent along with the prompt
+  image?: { mimeType: string; data: string };
+  // Called after every model call made for this request
+  onUsage?: (usage: AiUsage) => void;
+  // Stops the model call, e.g. when the client hangs up on a stream
+  signal?: AbortSignal;
+}
+
+export interface TextProvider {
+  readonly name: string;
+  generateText(request: TextRequest): Promise<string>;
+  // Same reply, delivered as text chunks while the model writes it
+  streamText(request: TextRequest): AsyncIterable<string>;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  negativePrompt?: string;
+  width: number;
+  height: number;
+  onUsage?: (usage: AiUsage) => void;
+}
+
+export interface ImageProvider {
+  readonly name: string;
+  // Base64 encoded image (no data: prefix)
+  generateImage(request: ImageRequest): Promise<string>;
+}
@@ -0,0 +1,104 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { authenticate, verifyJwt } from "./auth.ts";
+
+// Run with: npm run test:functions (needs Deno)
+const SECRET = 'test-jwt-secret-at-least-32-characters';
+const encoder = new TextEncoder();
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+async function sign(claims: Record<string, unknown>, secret = SECRET): Promise<string> {
+  const header = base64Url(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const payload = base64Url(encoder.encode(JSON.stringify(claims)));
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${header}.${payload}`));
+  return `${header}.${payload}.${base64Url(new Uint8Array(signature))}`;
+}
+
+const inAnHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+const userClaims = (overrides: Record<string, unknown> = {}) => ({
+  sub: 'user-1',
+  email: 'cook@example.com',
+  role: 'authenticated',
+  exp: inAnHour(),
+  ...overrides,
+});
+
+const request = (authorization?: string) =>
+  new Request('https://example.com/functions/v1/generate-recipes', {
+    method: 'POST',
+    headers: authorization ? { authorization } : {},
+  });
+
+async function authenticateWith(authorization?: string) {
+  Deno.env.set('JWT_SECRET', SECRET);
+  try {
+    return await authenticate(request(authorization));
+  } finally {
+    Deno.env.delete('JWT_SECRET');
+  }
+}
+
+Deno.test('verifyJwt accepts a token signed with the secret', async () => {
+  const claims = await verifyJwt(await sign(userClaims()), SECRET);
+  assertEquals(claims?.sub, 'user-1');
+});
+
+Deno.test('verifyJwt rejects a token signed with another secret', async () => {
+  assertEquals(await verifyJwt(await sign(userClaims(), 'some-other-secret'), SECRET), null);
+});
+
+Deno.test('verifyJwt rejects a tampered payload', async () => {
+  const [header, , signature] = (await sign(userClaims())).split('.');
+  const forged = base64Url(encoder.encode(JSON.stringify(userClaims({ sub: 'user-2' }))));
+  assertEquals(await verifyJwt(`${header}.${forged}.${signature}`, SECRET), null);
+});
+
+Deno.test('verifyJwt rejects an expired token', async () => {
+  const expired = await sign(userClaims({ exp: Math.floor(Date.now() / 1000) - 60 }));
+  assertEquals(await verifyJwt(expired, SECRET), null);
+});
+
+Deno.test('verifyJwt rejects a token without an expiry', async () => {
+  assertEquals(await verifyJwt(await sign(userClaims({ exp: undefined })), SECRET), null);
+});
+
+Deno.test('authenticate returns the signed-in user', async () => {
+  const user = await authenticateWith(`Bearer ${await sign(userClaims())}`);
+  assertEquals(user, { id: 'user-1', email: 'cook@example.com', plan: 'free' });
+});
+
+Deno.test('authenticate reads the plan from app_metadata', async () => {
+  const user = await authenticateWith(`Bearer ${await sign(userClaims({ app_metadata: { plan: 'pro' } }))}`);
+  assertEquals(user?.plan, 'pro');
+});
+
+Deno.test('authenticate ignores a plan outside app_metadata', async () => {
+  const user = await authenticateWith(`Bearer ${await sign(userClaims({ user_metadata: { plan: 'pro' } }))}`);
+  assertEquals(user?.plan, 'free');
+});
+
+Deno.test('authenticate refuses the anon key', async () => {
+  const anonKey = await sign({ role: 'anon', exp: inAnHour() });
+  assertEquals(await authenticateWith(`Bearer ${anonKey}`), null);
+});
+
+Deno.test('authenticate refuses anonymous sign-ins', async () => {
+  assertEquals(await authenticateWith(`Bearer ${await sign(userClaims({ is_anonymous: true }))}`), null);
+});
+
+Deno.test('authenticate refuses a bad signature', async () => {
+  assertEquals(await authenticateWith(`Bearer ${await sign(userClaims(), 'some-other-secret')}`), null);
+});
+
+Deno.test('authenticate refuses an expired token', async () => {
+  const expired = await sign(userClaims({ exp: Math.floor(Date.now() / 1000) - 60 }));
+  assertEquals(await authenticateWith(`Bearer ${expired}`), null);
+});
+
+Deno.test('authenticate refuses a request without a bearer token', async () => {
+  assertEquals(await authenticateWith(), null);
+  assertEquals(await authenticateWith('Bearer '), null);
+});
@@ -0,0 +1,107 @@
+/**
+ * Caller authentication for edge functions
+ * Every AI endpoint is billed per call, so only signed-in users get through:
+ * the anon key, Supabase anonymous sign-ins and expired tokens are refused.
+ *
+ * With JWT_SECRET set (the project's JWT secret) tokens are verified locally;
+ * otherwise Supabase Auth is asked, which costs a round trip per request.
+ */
+
+import { getAdminClient } from "./supabaseAdmin.ts";
+
+export type Plan = 'free' | 'pro';
+
+export interface UserContext {
+  id: string;
+  email?: string;
+  plan: Plan; // From app_metadata.plan, which only the service role can set (see set_user_plan)
+}
+
+interface JwtClaims {
+  sub?: string;
+  email?: string;
+  role?: string;
+  exp?: number;
+  is_anonymous?: boolean;
+  app_metadata?: { plan?: string };
+}
+
+const encoder = new TextEncoder();
+
+function base64UrlDecode(segment: string): Uint8Array {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(segment.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+function decodeSegment<T>(segment: string): T | null {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks an HS256 token against the project secret and returns its claims,
+ * or null if the signature, algorithm or expiry is wrong.
+ */
+export async function verifyJwt(token: string, secret: string): Promise<JwtClaims | null> {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  const [headerSegment, payloadSegment, signatureSegment] = parts;
+
+  const header = decodeSegment<{ alg?: string }>(headerSegment);
+  if (header?.alg !== 'HS256') return null;
+
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+  let valid = false;
+  try {
+    valid = await crypto.subtle.verify('HMAC', key, base64UrlDecode(signatureSegment), encoder.encode(`${headerSegment}.${payloadSegment}`));
+  } catch {
+    return null;
+  }
+  if (!valid) return null;
+
+  const claims = decodeSegment<JwtClaims>(payloadSegment);
+  if (!claims || typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) return null;
+  return claims;
+}
+
+function toUserContext(claims: JwtClaims): UserContext | null {
+  if (!claims.sub || claims.role !== 'authenticated' || claims.is_anonymous) return null;
+  return { id: claims.sub, email: claims.email, plan: claims.app_metadata?.plan === 'pro' ? 'pro' : 'free' };
+}
+
+/**
+ * The signed-in user behind a request, or null for anonymous callers.
+ */
+export async function authenticate(req: Request): Promise<UserContext | null> {
+  const token = (req.headers.get('authorization') || '').replace(/^Bearer\s+/i, '').trim();
+  if (!token) return null;
+
+  const secret = Deno.env.get('JWT_SECRET');
+  if (secret) {
+    const claims = await verifyJwt(token, secret);
+    return claims ? toUserContext(claims) : null;
+  }
+
+  const { data, error } = await getAdminClient().auth.getUser(token);
+  if (error || !data?.user) return null;
+  return toUserContext({
+    sub: data.user.id,
+    email: data.user.email,
+    role: data.user.role,
+    is_anonymous: data.user.is_anonymous,
+    app_metadata: data.user.app_metadata
+  });
+}
+
+export function unauthorizedResponse(corsHeaders: Record<string, string>): Response {
+  return new Response(JSON.stringify({
+    error: 'Please sign in to use this feature.',
+    code: 'UNAUTHORIZED'
+  }), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status: 401,
+  });
+}
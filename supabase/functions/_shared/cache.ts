@@ -0,0 +1,107 @@
+/**
+ * Content-addressed cache for AI output
+ * Keys are SHA-256 hashes of the normalized inputs, so identical requests from
+ * any user share one entry. Recipe lists are stored in ai_cache, thumbnail
+ * bytes in the recipe-images bucket (under cache/) with their URL in ai_cache.
+ * Cache failures are logged and otherwise ignored: a miss just costs a model call.
+ */
+
+import { getAdminClient } from "./supabaseAdmin.ts";
+
+export type CacheKind = 'recipes' | 'thumbnail';
+
+export const CACHE_TTL_MS: Record<CacheKind, number> = {
+  recipes: 24 * 60 * 60 * 1000, // A day: pantries change, and variety matters
+  thumbnail: 30 * 24 * 60 * 60 * 1000,
+};
+
+// Bump to invalidate every entry of a kind (e.g. after a prompt rewrite)
+const CACHE_VERSION = 'v1';
+const IMAGE_BUCKET = 'recipe-images';
+
+// Share of writes that also clear out expired rows
+const PURGE_PROBABILITY = 0.01;
+
+/**
+ * Lowercase, collapse whitespace and drop punctuation, so "Crispy  Tofu!"
+ * and "crispy tofu" hash the same.
+ */
+export function normalizeText(text: string): string {
+  return (text || '').toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+export async function cacheKey(kind: CacheKind, ...parts: string[]): Promise<string> {
+  const data = new TextEncoder().encode([kind, CACHE_VERSION, ...parts].join('\n'));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function readCache<T>(kind: CacheKind, key: string): Promise<T | null> {
+  try {
+    const { data, error } = await getAdminClient()
+      .from('ai_cache')
+      .select('payload')
+      .eq('key', key)
+      .eq('kind', kind)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+    if (error) throw error;
+    return (data?.payload as T) ?? null;
+  } catch (error) {
+    console.error('Cache read failed:', error);
+    return null;
+  }
+}
+
+export async function writeCache(kind: CacheKind, key: string, payload: unknown): Promise<void> {
+  try {
+    const admin = getAdminClient();
+    const now = Date.now();
+    const { error } = await admin.from('ai_cache').upsert({
+      key,
+      kind,
+      payload,
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + CACHE_TTL_MS[kind]).toISOString(),
+    });
+    if (error) throw error;
+
+    if (Math.random() < PURGE_PROBABILITY) {
+      await admin.from('ai_cache').delete().lt('expires_at', new Date(now).toISOString());
+    }
+  } catch (error) {
+    console.error('Cache write failed:', error);
+  }
+}
+
+/**
+ * Public URL of a cached thumbnail, or null on a miss.
+ */
+export async function readCachedImage(key: string): Promise<string | null> {
+  const entry = await readCache<{ url: string }>('thumbnail', key);
+  return entry?.url || null;
+}
+
+/**
+ * Stores a generated thumbnail and returns its public URL (null if the upload failed).
+ */
+export async function writeCachedImage(key: string, base64: string): Promise<string | null> {
+  try {
+    const admin = getAdminClient();
+    const path = `cache/${key}.webp`;
+    const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+    const { error } = await admin.storage.from(IMAGE_BUCKET).upload(path, bytes, {
+      upsert: true,
+      contentType: 'image/webp',
+      cacheControl: '31536000',
+    });
+    if (error) throw error;
+
+    const { data: { publicUrl } } = admin.storage.from(IMAGE_BUCKET).getPublicUrl(path);
+    await writeCache('thumbnail', key, { url: publicUrl });
+    return publicUrl;
+  } catch (error) {
+    console.error('Thumbnail cache write failed:', error);
+    return null;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Streaming JSON helpers for Supabase Edge Functions
+ * Lets a function forward items from a structured model response
+ * while the model is still writing the rest of it.
+ */
+
+/**
+ * Incremental parser for output shaped like {"<arrayKey>": [ {...}, {...} ]}.
+ * push() takes the next text chunk and returns the array items that were
+ * completed by it, in order. Strings are tracked so braces inside values
+ * (e.g. "Stir {gently}") don't confuse the scanner.
+ */
+export function createArrayItemParser(arrayKey: string) {
+  let buffer = '';
+  let position = 0;
+  let inArray = false;
+  let finished = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+
+  const push = (chunk: string): any[] => {
+    buffer += chunk;
+    const items: any[] = [];
+    if (finished) return items;
+
+    if (!inArray) {
+      const keyIndex = buffer.indexOf(`"${arrayKey}"`);
+      if (keyIndex === -1) return items;
+      const openIndex = buffer.indexOf('[', keyIndex);
+      if (openIndex === -1) return items;
+      inArray = true;
+      position = openIndex + 1;
+    }
+
+    for (; position < buffer.length; position++) {
+      const char = buffer[position];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        if (depth === 0) itemStart = position;
+        depth++;
+      } else if (char === '}') {
+        depth--;
+        if (depth === 0 && itemStart !== -1) {
+          try {
+            items.push(JSON.parse(buffer.slice(itemStart, position + 1)));
+          } catch (e) {
+            console.warn('Skipping unparseable streamed item', e);
+          }
+          itemStart = -1;
+        }
+      } else if (char === ']' && depth === 0) {
+        finished = true;
+        break;
+      }
+    }
+
+    return items;
+  };
+
+  return { push };
+}
@@ -0,0 +1,116 @@
+/**
+ * Persistent rate limiting for the AI edge functions
+ * Counters live in Postgres (ai_rate_limits, via consume_ai_quota) so limits
+ * hold across cold starts and function instances. Callers are keyed on their
+ * verified user id (see auth.ts).
+ */
+
+import { getAdminClient } from "./supabaseAdmin.ts";
+import type { Plan, UserContext } from "./auth.ts";
+
+export type QuotaEndpoint = 'generate-recipes' | 'parse-pantry' | 'ask-step' | 'generate-thumbnail';
+
+// Per-minute burst limit plus a daily quota per plan (null: no daily cap,
+// as Pro is sold with unlimited recipe generation)
+export const QUOTAS: Record<QuotaEndpoint, { perMinute: number; daily: Record<Plan, number | null>; label: string }> = {
+  'generate-recipes': { perMinute: 10, daily: { free: 10, pro: null }, label: 'recipe generations' },
+  'parse-pantry': { perMinute: 20, daily: { free: 20, pro: 200 }, label: 'pantry scans' },
+  'ask-step': { perMinute: 20, daily: { free: 50, pro: 500 }, label: 'chef questions' },
+  'generate-thumbnail': { perMinute: 30, daily: { free: 60, pro: 600 }, label: 'recipe images' },
+};
+
+// Sent to clients in response bodies (see AiQuota in types.ts)
+export interface Quota {
+  plan: Plan;
+  limit: number | null; // null when the plan has no daily cap
+  remaining: number | null;
+  resetAt: string; // ISO time the daily quota resets
+}
+
+export interface QuotaCheck {
+  endpoint: QuotaEndpoint;
+  allowed: boolean;
+  reason?: 'minute' | 'day';
+  quota: Quota;
+}
+
+/**
+ * Count one request against the caller's limits for an endpoint.
+ * If the counter store is unreachable the request is let through (and logged)
+ * rather than taking every AI feature down with the database.
+ */
+export async function checkQuota(user: UserContext, endpoint: QuotaEndpoint): Promise<QuotaCheck> {
+  const { perMinute, daily } = QUOTAS[endpoint];
+  const { plan } = user;
+  const limit = daily[plan];
+
+  const { data, error } = await getAdminClient().rpc('consume_ai_quota', {
+    p_subject: `user:${user.id}`,
+    p_endpoint: endpoint,
+    p_minute_limit: perMinute,
+    p_daily_limit: limit,
+  });
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (error || !row) {
+    console.error('Rate limit check failed:', error);
+    const tomorrow = new Date();
+    tomorrow.setUTCHours(24, 0, 0, 0);
+    return { endpoint, allowed: true, quota: { plan, limit, remaining: limit, resetAt: tomorrow.toISOString() } };
+  }
+
+  return {
+    endpoint,
+    allowed: row.allowed,
+    reason: row.reason || undefined,
+    quota: {
+      plan,
+      limit,
+      remaining: limit === null ? null : Math.max(0, limit - row.daily_used),
+      resetAt: new Date(row.daily_reset_at).toISOString(),
+    },
+  };
+}
+
+/**
+ * Give back the unit a request used when it failed on our side, so a failed
+ * generation doesn't cost the caller part of their daily quota.
+ */
+export async function refundQuota(user: UserContext, endpoint: QuotaEndpoint): Promise<void> {
+  const { error } = await getAdminClient().rpc('refund_ai_quota', {
+    p_subject: `user:${user.id}`,
+    p_endpoint: endpoint,
+  });
+  if (error) console.error('Quota refund failed:', error);
+}
+
+export function quotaHeaders(quota: Quota): Record<string, string> {
+  if (quota.limit === null || quota.remaining === null) return {};
+  return {
+    'X-RateLimit-Limit': quota.limit.toString(),
+    'X-RateLimit-Remaining': quota.remaining.toString(),
+    'X-RateLimit-Reset': quota.resetAt,
+  };
+}
+
+/**
+ * 429 for a refused request. Burst limits ask for a retry in a minute,
+ * daily quotas report when the quota resets.
+ */
+export function quotaExceededResponse(check: QuotaCheck, corsHeaders: Record<string, string>): Response {
+  const isDaily = check.reason === 'day';
+  const retryAfter = isDaily
+    ? Math.max(60, Math.ceil((Date.parse(check.quota.resetAt) - Date.now()) / 1000))
+    : 60;
+
+  return new Response(JSON.stringify({
+    error: isDaily
+      ? `You've used all ${check.quota.limit} ${QUOTAS[check.endpoint].label} for today. Your quota resets at midnight UTC.`
+      : 'Rate limit exceeded. Please try again in a minute.',
+    code: isDaily ? 'DAILY_QUOTA_EXCEEDED' : 'RATE_LIMIT_EXCEEDED',
+    quota: check.quota,
+  }), {
+    headers: { ...corsHeaders, ...quotaHeaders(check.quota), 'Content-Type': 'application/json', 'Retry-After': retryAfter.toString() },
+    status: 429,
+  });
+}
@@ -78,47 +78,6 @@ export function validateLength(input: string, min: number = 1, max: number = 100
   return input.length >= min && input.length <= max;
 }
 
-/**
- * Rate limiting store (in-memory, for production use Redis/Supabase KV)
- */
-const rateLimitStore = new Map<string, { count: number; resetAt: number }>();
-export const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
-
-export function checkRateLimit(
-  userId: string, 
-  maxRequests: number = 10
-): { allowed: boolean; remaining: number } {
-  const now = Date.now();
-  const userLimit = rateLimitStore.get(userId);
-  
-  if (!userLimit || now > userLimit.resetAt) {
-    rateLimitStore.set(userId, { count: 1, resetAt: now + RATE_LIMIT_WINDOW });
-    return { allowed: true, remaining: maxRequests - 1 };
-  }
-  
-  if (userLimit.count >= maxRequests) {
-    return { allowed: false, remaining: 0 };
-  }
-  
-  userLimit.count++;
-  return { allowed: true, remaining: maxRequests - userLimit.count };
-}
-
-/**
- * Extracts user ID from auth token or headers
- */
-export function getUserId(req: Request): string {
-  const authHeader = req.headers.get('authorization');
-  if (authHeader) {
-    // Extract user ID from JWT token (first part before dot)
-    const parts = authHeader.split('.');
-    if (parts.length > 0) {
-      return parts[0];
-    }
-  }
-  return req.headers.get('x-client-info') || 'anonymous';
-}
-
 /**
  * Validates JSON structure and sanitizes nested strings
  */
@@ -0,0 +1,18 @@
+/**
+ * Service-role Supabase client for edge functions (bypasses RLS).
+ * Only use it for server-owned tables and for verifying callers.
+ */
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+let adminClient: SupabaseClient | null = null;
+
+export function getAdminClient(): SupabaseClient {
+  if (!adminClient) {
+    const url = Deno.env.get('SUPABASE_URL');
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!url || !serviceKey) throw new Error('SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is not set');
+    adminClient = createClient(url, serviceKey, { auth: { persistSession: false } });
+  }
+  return adminClient;
+}
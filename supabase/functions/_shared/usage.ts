@@ -0,0 +1,78 @@
+/**
+ * AI usage ledger
+ * One ai_usage row per edge function call that reached a model, summing
+ * every model call it made (e.g. a re-ask after invalid output). Calls served
+ * from the cache get a row too, flagged cached and with no model calls.
+ */
+
+import { getAdminClient } from "./supabaseAdmin.ts";
+import type { AiUsage } from "./ai/index.ts";
+import type { UserContext } from "./auth.ts";
+import { refundQuota, type QuotaEndpoint } from "./rateLimit.ts";
+
+export interface UsageMeter {
+  // Pass as onUsage on provider requests
+  record: (usage: AiUsage) => void;
+  // Marks the call as answered from the cache
+  cacheHit: () => void;
+  // Writes the row (only the first call counts); a failure refunds the quota unit
+  finish: (success: boolean, errorCode?: string) => Promise<void>;
+}
+
+export function startUsage(user: UserContext, endpoint: QuotaEndpoint): UsageMeter {
+  const startedAt = Date.now();
+  const totals = { provider: '', model: '', inputTokens: 0, outputTokens: 0, images: 0, calls: 0 };
+  let cached = false;
+  let finished = false;
+
+  return {
+    record(usage) {
+      totals.provider = usage.provider;
+      totals.model = usage.model;
+      totals.inputTokens += usage.inputTokens || 0;
+      totals.outputTokens += usage.outputTokens || 0;
+      totals.images += usage.images || 0;
+      totals.calls++;
+    },
+
+    cacheHit() {
+      cached = true;
+    },
+
+    async finish(success, errorCode) {
+      if (finished) return;
+      finished = true;
+
+      // Metering must never fail the request it describes
+      try {
+        const { error } = await getAdminClient().from('ai_usage').insert({
+          user_id: user.id,
+          endpoint,
+          plan: user.plan,
+          provider: totals.provider || null,
+          model: totals.model || null,
+          model_calls: totals.calls,
+          input_tokens: totals.inputTokens,
+          output_tokens: totals.outputTokens,
+          images: totals.images,
+          cached,
+          latency_ms: Date.now() - startedAt,
+          success,
+          error_code: success ? null : errorCode || null,
+        });
+        if (error) console.error('Usage insert failed:', error);
+      } catch (error) {
+        console.error('Usage insert failed:', error);
+      }
+
+      // Only failures on our side are free; a call the user cancelled still ran
+      if (!success && errorCode !== 'CANCELLED') {
+        try {
+          await refundQuota(user, endpoint);
+        } catch (error) {
+          console.error('Quota refund failed:', error);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,239 @@
+/**
+ * Validation of AI output before it leaves the edge functions.
+ * Mirrors services/validationService.ts on the client: fixable problems are
+ * repaired, unusable entries are rejected and reported back to the model.
+ */
+
+import type { TextProvider, TextRequest } from "./ai/index.ts";
+
+// Must match types.ts exactly
+export const ALLOWED_UNITS = ['pcs', 'g', 'kg', 'ml', 'L', 'oz', 'lb', 'cups', 'tbsp', 'tsp'];
+export const ALLOWED_CATEGORIES = ['Produce', 'Dairy', 'Meat', 'Grains', 'Bakery', 'Spices', 'Beverages', 'Frozen', 'Snacks', 'General'];
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'];
+
+export interface ListValidation<T> {
+  items: T[];
+  rejected: string[]; // Why entries were dropped
+}
+
+function isRecord(raw: unknown): raw is Record<string, any> {
+  return typeof raw === 'object' && raw !== null && !Array.isArray(raw);
+}
+
+function cleanString(raw: unknown): string {
+  return typeof raw === 'string' ? raw.trim() : '';
+}
+
+function toAllowed(raw: unknown, allowed: string[]): string | null {
+  const value = cleanString(raw).toLowerCase();
+  return allowed.find(a => a.toLowerCase() === value) || null;
+}
+
+function isNonNegativeNumber(raw: unknown): raw is number {
+  return typeof raw === 'number' && Number.isFinite(raw) && raw >= 0;
+}
+
+/**
+ * Recipe check: title, instructions and at least one ingredient are required.
+ * Unknown units drop the structured amount (the text amount is kept),
+ * bad times, difficulties and calories fall back to defaults.
+ */
+export function validateRecipe(raw: unknown): { recipe: Record<string, any> | null; error?: string } {
+  if (!isRecord(raw)) return { recipe: null, error: 'recipe is not an object' };
+
+  const title = cleanString(raw.title);
+  if (!title) return { recipe: null, error: 'recipe has no title' };
+
+  const instructions = Array.isArray(raw.instructions) ? raw.instructions.map(cleanString).filter(Boolean) : [];
+  if (instructions.length === 0) return { recipe: null, error: `"${title}" has no instructions` };
+
+  const ingredients = (Array.isArray(raw.ingredients) ? raw.ingredients : [])
+    .filter((i: unknown) => isRecord(i) && cleanString(i.name))
+    .map((i: Record<string, any>) => {
+      const unit = toAllowed(i.unit, ALLOWED_UNITS);
+      const structured = unit && isNonNegativeNumber(i.quantity);
+      return {
+        name: cleanString(i.name),
+        amount: cleanString(i.amount) || (structured && i.quantity > 0 ? `${i.quantity} ${unit}` : 'to taste'),
+        ...(structured ? { quantity: i.quantity, unit } : {}),
+        isAvailableInPantry: i.isAvailableInPantry === true
+      };
+    });
+  if (ingredients.length === 0) return { recipe: null, error: `"${title}" has no ingredients` };
+
+  return {
+    recipe: {
+      ...raw,
+      title,
+      description: cleanString(raw.description),
+      totalTimeMinutes: typeof raw.totalTimeMinutes === 'number' && raw.totalTimeMinutes > 0 ? Math.round(raw.totalTimeMinutes) : 30,
+      difficulty: toAllowed(raw.difficulty, DIFFICULTIES) || 'Medium',
+      caloriesApprox: isNonNegativeNumber(raw.caloriesApprox) ? Math.round(raw.caloriesApprox) : 0,
+      ingredients,
+      instructions,
+      tags: Array.isArray(raw.tags) ? raw.tags.map(cleanString).filter(Boolean) : []
+    }
+  };
+}
+
+export function validateRecipes(parsed: unknown): ListValidation<Record<string, any>> {
+  if (!isRecord(parsed) || !Array.isArray(parsed.recipes)) return { items: [], rejected: ['response has no "recipes" list'] };
+  const items: Record<string, any>[] = [];
+  const rejected: string[] = [];
+  for (const raw of parsed.recipes) {
+    const { recipe, error } = validateRecipe(raw);
+    if (recipe) items.push(recipe);
+    else rejected.push(error!);
+  }
+  return { items, rejected };
+}
+
+export interface PlanShape {
+  days: number;
+  slots: string[];
+  maxCalories?: number; // Per serving; recipes above it are rejected
+}
+
+/**
+ * Meal plan check: every entry needs a valid recipe for a requested day and
+ * slot, within the calorie limit. Duplicate and missing slots are reported so
+ * the re-ask can fill the gaps.
+ */
+export function validateMealPlan(parsed: unknown, shape: PlanShape): ListValidation<{ day: number; slot: string; recipe: Record<string, any> }> {
+  if (!isRecord(parsed) || !Array.isArray(parsed.plan)) return { items: [], rejected: ['response has no "plan" list'] };
+  const items: { day: number; slot: string; recipe: Record<string, any> }[] = [];
+  const rejected: string[] = [];
+  const filled = new Set<string>();
+
+  for (const raw of parsed.plan) {
+    if (!isRecord(raw)) {
+      rejected.push('plan entry is not an object');
+      continue;
+    }
+    const day = Number(raw.day);
+    const slot = toAllowed(raw.slot, shape.slots);
+    if (!Number.isInteger(day) || day < 1 || day > shape.days || !slot) {
+      rejected.push(`day ${raw.day} ${raw.slot} was not requested`);
+      continue;
+    }
+    const { recipe, error } = validateRecipe(raw.recipe);
+    if (!recipe) {
+      rejected.push(`day ${day} ${slot}: ${error}`);
+      continue;
+    }
+    if (shape.maxCalories && recipe.caloriesApprox > shape.maxCalories) {
+      rejected.push(`day ${day} ${slot}: "${recipe.title}" has ${recipe.caloriesApprox} kcal, over the ${shape.maxCalories} kcal limit`);
+      continue;
+    }
+    if (filled.has(`${day}:${slot}`)) {
+      rejected.push(`day ${day} ${slot} is planned twice`);
+      continue;
+    }
+    filled.add(`${day}:${slot}`);
+    items.push({ day, slot, recipe });
+  }
+
+  for (let day = 1; day <= shape.days; day++) {
+    for (const slot of shape.slots) {
+      if (!filled.has(`${day}:${slot}`)) rejected.push(`day ${day} ${slot} is missing`);
+    }
+  }
+  return { items, rejected };
+}
+
+/**
+ * Pantry scan check: a name is required, everything else has a safe default.
+ */
+function validatePantryItem(raw: unknown): { item: Record<string, any> | null; error?: string } {
+  const name = isRecord(raw) ? cleanString(raw.name) : '';
+  if (!isRecord(raw) || !name) return { item: null, error: 'item has no name' };
+  const quantity = parseFloat(String(raw.quantity ?? ''));
+  const expiryDate = cleanString(raw.expiryDate);
+  return {
+    item: {
+      name,
+      quantity: Number.isFinite(quantity) && quantity > 0 ? String(raw.quantity).trim() : '1',
+      unit: toAllowed(raw.unit, ALLOWED_UNITS) || 'pcs',
+      category: toAllowed(raw.category, ALLOWED_CATEGORIES) || 'General',
+      ...(expiryDate && !isNaN(Date.parse(expiryDate)) ? { expiryDate } : {})
+    }
+  };
+}
+
+export function validatePantryItems(parsed: unknown): ListValidation<Record<string, any>> {
+  if (!isRecord(parsed) || !Array.isArray(parsed.items)) return { items: [], rejected: ['response has no "items" list'] };
+  const items: Record<string, any>[] = [];
+  const rejected: string[] = [];
+  for (const raw of parsed.items) {
+    const { item, error } = validatePantryItem(raw);
+    if (item) items.push(item);
+    else rejected.push(error!);
+  }
+  return { items, rejected };
+}
+
+/**
+ * Receipt check: pantry item rules plus the price paid. A missing or
+ * unreadable price is dropped rather than rejecting the line.
+ */
+export function validateReceiptItems(parsed: unknown): ListValidation<Record<string, any>> {
+  if (!isRecord(parsed) || !Array.isArray(parsed.items)) return { items: [], rejected: ['response has no "items" list'] };
+  const items: Record<string, any>[] = [];
+  const rejected: string[] = [];
+  for (const raw of parsed.items) {
+    const { item, error } = validatePantryItem(raw);
+    if (!item) {
+      rejected.push(error!);
+      continue;
+    }
+    const price = (raw as Record<string, any>).price;
+    items.push(isNonNegativeNumber(price) ? { ...item, price: Math.round(price * 100) / 100 } : item);
+  }
+  return { items, rejected };
+}
+
+function parseJson(text: string): { parsed: unknown; error?: string } {
+  try {
+    return { parsed: JSON.parse(text) };
+  } catch {
+    return { parsed: null, error: 'response was not valid JSON' };
+  }
+}
+
+/**
+ * Prompt addition for the re-ask after a rejected response.
+ */
+export function buildReaskPrompt(prompt: string, rejected: string[]): string {
+  return `${prompt}
+
+YOUR PREVIOUS ANSWER WAS REJECTED:
+${rejected.slice(0, 10).map(r => `- ${r}`).join('\n')}
+Answer again with valid JSON that follows the schema exactly.`;
+}
+
+/**
+ * Generate JSON and validate it, re-asking the model once if anything was
+ * rejected. Returns the better of the two attempts; throws only if neither
+ * produced a usable entry.
+ */
+export async function generateValidated<T>(
+  provider: TextProvider,
+  request: TextRequest,
+  validate: (parsed: unknown) => ListValidation<T>
+): Promise<T[]> {
+  const attempt = async (req: TextRequest): Promise<ListValidation<T>> => {
+    const { parsed, error } = parseJson(await provider.generateText(req));
+    return error ? { items: [], rejected: [error] } : validate(parsed);
+  };
+
+  const first = await attempt(request);
+  if (first.rejected.length === 0) return first.items;
+
+  console.warn(`Invalid ${request.task} output, re-asking:`, first.rejected);
+  const second = await attempt({ ...request, prompt: buildReaskPrompt(request.prompt, first.rejected) });
+  if (second.rejected.length > 0) console.warn(`Invalid ${request.task} output after re-ask:`, second.rejected);
+
+  const best = second.items.length >= first.items.length ? second : first;
+  if (best.items.length === 0 && best.rejected.length > 0) throw new Error(`No valid ${request.task} output`);
+  return best.items;
+}
@@ -1,6 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from "https://esm.sh/@google/generative-ai@0.21.0";
-import { sanitizeInput, validateLength, checkRateLimit, getUserId, escapeXml } from "../_shared/security.ts";
+import { sanitizeInput, validateLength, escapeXml } from "../_shared/security.ts";
+import { checkQuota, quotaExceededResponse } from "../_shared/rateLimit.ts";
+import { authenticate, unauthorizedResponse } from "../_shared/auth.ts";
+import { startUsage, type UsageMeter } from "../_shared/usage.ts";
+import { getTextProvider } from "../_shared/ai/index.ts";
 
 function getCorsHeaders(origin: string | null): Record<string, string> {
   // Production: Use CORS_ORIGINS env var
@@ -49,19 +52,11 @@ serve(async (req) => {
     return new Response('ok', { headers: corsHeaders });
   }
 
+  let usage: UsageMeter | undefined;
   try {
-    // Rate limiting
-    const userId = getUserId(req);
-    const rateLimit = checkRateLimit(userId, 20); // 20 requests per minute for ask-step
-    if (!rateLimit.allowed) {
-      return new Response(JSON.stringify({ 
-        error: 'Rate limit exceeded. Please try again in a minute.',
-        code: 'RATE_LIMIT_EXCEEDED'
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': '60' },
-        status: 429,
-      });
-    }
+    // Signed-in users only: every call here is billed
+    const user = await authenticate(req);
+    if (!user) return unauthorizedResponse(corsHeaders);
 
     const { title, step, question } = await req.json();
     
@@ -85,8 +80,13 @@ serve(async (req) => {
       });
     }
     
-    const apiKey = Deno.env.get('GEMINI_API_KEY');
-    if (!apiKey) throw new Error('GEMINI_API_KEY is not set');
+    const provider = getTextProvider();
+
+    // Rate limiting (per-minute burst + daily quota), only for valid requests;
+    // a failure after this point is refunded by usage.finish
+    const rateLimit = await checkQuota(user, 'ask-step');
+    if (!rateLimit.allowed) return quotaExceededResponse(rateLimit, corsHeaders);
+    usage = startUsage(user, 'ask-step');
 
     const systemInstruction = `
       You are Plum, a witty, warm TikTok-style chef helping users cook better. 
@@ -122,15 +122,6 @@ serve(async (req) => {
       - "You should test doneness by..." (too instructional/robotic)
     `;
 
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ 
-        model: "gemini-2.5-flash",
-        safetySettings: [
-            { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-        ],
-        systemInstruction: systemInstruction
-    });
-
     const prompt = `
       <recipe_context>
         <title>${escapeXml(sanitizedTitle)}</title>
@@ -141,11 +132,8 @@ serve(async (req) => {
       </user_question>
     `;
 
-    const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }]
-    });
-
-    const text = result.response.text();
+    const text = await provider.generateText({ task: 'ask-step', systemInstruction, prompt, onUsage: usage.record });
+    await usage.finish(true);
     return new Response(JSON.stringify({ answer: text }), { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
     });
@@ -153,6 +141,7 @@ serve(async (req) => {
   } catch (error: any) {
     // Don't expose internal error details
     console.error('Ask Step Error:', error);
+    await usage?.finish(false, 'PROCESSING_ERROR');
     return new Response(JSON.stringify({ 
       error: 'Failed to process request. Please try again.',
       code: 'PROCESSING_ERROR'
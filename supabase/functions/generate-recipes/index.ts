@@ -1,6 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from "https://esm.sh/@google/generative-ai@0.21.0";
-import { sanitizeInput, sanitizeObject, checkRateLimit, getUserId, escapeXml, validateLength, RATE_LIMIT_WINDOW } from "../_shared/security.ts";
+import { sanitizeInput, sanitizeObject, escapeXml, validateLength } from "../_shared/security.ts";
+import { checkQuota, quotaExceededResponse, quotaHeaders } from "../_shared/rateLimit.ts";
+import { authenticate, unauthorizedResponse } from "../_shared/auth.ts";
+import { createArrayItemParser } from "../_shared/jsonStream.ts";
+import { getTextProvider, type TextRequest } from "../_shared/ai/index.ts";
+import { startUsage, type UsageMeter } from "../_shared/usage.ts";
+import { cacheKey, normalizeText, readCache, writeCache } from "../_shared/cache.ts";
+import { ALLOWED_UNITS, buildReaskPrompt, generateValidated, validateMealPlan, validateRecipe, validateRecipes } from "../_shared/validation.ts";
+import { buildMealPlanPrompt, buildMealPlanSchema, parsePlanOptions } from "./mealPlan.ts";
 
 function getCorsHeaders(origin: string | null): Record<string, string> {
   // Production: Use CORS_ORIGINS env var
@@ -50,21 +57,15 @@ serve(async (req) => {
     return new Response('ok', { headers: corsHeaders });
   }
 
+  let usage: UsageMeter | undefined;
   try {
-    // Rate limiting
-    const userId = getUserId(req);
-    const rateLimit = checkRateLimit(userId, 10); // 10 requests per minute
-    if (!rateLimit.allowed) {
-      return new Response(JSON.stringify({ 
-        error: 'Rate limit exceeded. Please try again in a minute.',
-        code: 'RATE_LIMIT_EXCEEDED'
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': '60' },
-        status: 429,
-      });
-    }
+    // Signed-in users only: every call here is billed
+    const user = await authenticate(req);
+    if (!user) return unauthorizedResponse(corsHeaders);
 
-    const { pantry, preferences, context, existingTitles, count = 5 } = await req.json();
+    // fresh: skip the cache lookup ("Load more" always wants new recipes)
+    // mode 'plan': a multi-day meal plan instead of one batch (see mealPlan.ts)
+    const { pantry, preferences, context, existingTitles, count = 5, stream = false, fresh = false, mode, plan } = await req.json();
     
     // Input validation and sanitization
     if (!pantry || !Array.isArray(pantry) || pantry.length === 0) {
@@ -90,8 +91,14 @@ serve(async (req) => {
       });
     }
     
-    const apiKey = Deno.env.get('GEMINI_API_KEY');
-    if (!apiKey) throw new Error('GEMINI_API_KEY is not set');
+    const provider = getTextProvider();
+
+    // Rate limiting (per-minute burst + daily quota), only once the request is
+    // known to be valid. The meter starts with it so any failure from here on
+    // gives the unit back (usage.finish refunds unsuccessful calls).
+    const rateLimit = await checkQuota(user, 'generate-recipes');
+    if (!rateLimit.allowed) return quotaExceededResponse(rateLimit, corsHeaders);
+    usage = startUsage(user, 'generate-recipes');
 
     const recipeCount = Math.min(Math.max(1, parseInt(String(count)) || 4), 10); // Clamp between 1-10
 
@@ -117,6 +124,7 @@ serve(async (req) => {
       1. First 2 recipes must be 100% cookable from the <pantry_inventory>.
       2. Ingredient names must NOT include quantity (e.g. "Milk", not "2 tbsp Milk").
       3. STRICT UNITS: Amounts MUST use ONLY these units: pcs, g, kg, ml, L, oz, lb, cups, tbsp, tsp
+         - Every ingredient also gets a numeric "quantity" and its "unit" separately (e.g. amount "1.5 cups" -> quantity 1.5, unit "cups"). Use quantity 0 for amounts like "to taste".
       4. CRITICAL UNIT MATCHING: For pantry ingredients, you MUST use the EXACT SAME UNIT as shown in the pantry.
          - If pantry shows "Potato (5 pcs)", recipe amount MUST be in "pcs" (e.g., "2 pcs"), NOT "200 g".
          - If pantry shows "Chicken (500 g)", recipe amount MUST be in "g" (e.g., "200 g"), NOT "2 pcs".
@@ -141,69 +149,98 @@ serve(async (req) => {
           - Think of each new batch as an opportunity to show the user something fresh and unexpected
     `;
 
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ 
-        model: "gemini-2.5-flash",
-        safetySettings: [
-            { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-        ],
-        systemInstruction: systemInstruction
-    });
-
-    const recipeSchema = {
+    const recipeItemSchema = {
       type: "OBJECT",
       properties: {
-        recipes: {
+        title: { type: "STRING" },
+        description: { type: "STRING" },
+        imagePrompt: { type: "STRING" }, // Visual description for image generation
+        totalTimeMinutes: { type: "NUMBER" },
+        difficulty: { type: "STRING", enum: ["Easy", "Medium", "Hard"] },
+        caloriesApprox: { type: "NUMBER" },
+        usesExpiringIngredients: { type: "BOOLEAN" },
+        ingredients: {
           type: "ARRAY",
-          minItems: recipeCount,
-          maxItems: recipeCount,
           items: {
             type: "OBJECT",
             properties: {
-              title: { type: "STRING" },
-              description: { type: "STRING" },
-              imagePrompt: { type: "STRING" }, // Visual description for image generation
-              totalTimeMinutes: { type: "NUMBER" },
-              difficulty: { type: "STRING", enum: ["Easy", "Medium", "Hard"] },
-              caloriesApprox: { type: "NUMBER" },
-              usesExpiringIngredients: { type: "BOOLEAN" },
-              ingredients: {
-                type: "ARRAY",
-                items: {
-                  type: "OBJECT",
-                  properties: {
-                    name: { type: "STRING" },
-                    amount: { type: "STRING" },
-                    isAvailableInPantry: { type: "BOOLEAN" },
-                  },
-                  required: ["name", "amount", "isAvailableInPantry"]
-                }
-              },
-              instructions: { type: "ARRAY", items: { type: "STRING" } },
-              tags: { type: "ARRAY", items: { type: "STRING" } },
-              macros: {
-                type: "ARRAY",
-                items: {
-                    type: "OBJECT",
-                    properties: { name: { type: "STRING" }, value: { type: "NUMBER" } }
-                }
-              },
-              nutrition: {
-                type: "OBJECT",
-                properties: {
-                    fiber: { type: "STRING" },
-                    sugar: { type: "STRING" },
-                    sodium: { type: "STRING" },
-                    servingWeight: { type: "STRING" }
-                }
-              }
+              name: { type: "STRING" },
+              amount: { type: "STRING" }, // Display text, e.g. "1 1/2 cups"
+              quantity: { type: "NUMBER" },
+              unit: { type: "STRING", enum: ALLOWED_UNITS },
+              isAvailableInPantry: { type: "BOOLEAN" },
             },
-            required: ["title", "description", "imagePrompt", "totalTimeMinutes", "difficulty", "caloriesApprox", "ingredients", "instructions", "tags"]
+            required: ["name", "amount", "quantity", "unit", "isAvailableInPantry"]
+          }
+        },
+        instructions: { type: "ARRAY", items: { type: "STRING" } },
+        tags: { type: "ARRAY", items: { type: "STRING" } },
+        macros: {
+          type: "ARRAY",
+          items: {
+              type: "OBJECT",
+              properties: { name: { type: "STRING" }, value: { type: "NUMBER" } }
           }
+        },
+        nutrition: {
+          type: "OBJECT",
+          properties: {
+              fiber: { type: "STRING" },
+              sugar: { type: "STRING" },
+              sodium: { type: "STRING" },
+              servingWeight: { type: "STRING" }
+          }
+        }
+      },
+      required: ["title", "description", "imagePrompt", "totalTimeMinutes", "difficulty", "caloriesApprox", "ingredients", "instructions", "tags"]
+    };
+
+    const recipeSchema = {
+      type: "OBJECT",
+      properties: {
+        recipes: {
+          type: "ARRAY",
+          minItems: recipeCount,
+          maxItems: recipeCount,
+          items: recipeItemSchema
         }
       }
     };
 
+    // ========== PLANNING MODE ==========
+    // One JSON answer (not streamed) covering every requested day and meal
+    if (mode === 'plan') {
+      const planOptions = parsePlanOptions(plan);
+      const planPrompt = buildMealPlanPrompt(sanitizedPantry, sanitizedPreferences, planOptions);
+      const maxCalories = Number(sanitizedPreferences?.maxCaloriesPerMeal) || undefined;
+
+      const planCacheKey = await cacheKey('recipes', 'plan', normalizeText(planPrompt));
+      const cachedPlan = fresh ? null : await readCache<Record<string, any>[]>('recipes', planCacheKey);
+      if (cachedPlan) usage.cacheHit();
+
+      const entries = cachedPlan ?? await generateValidated(provider, {
+        task: 'meal-plan',
+        systemInstruction,
+        prompt: planPrompt,
+        responseSchema: buildMealPlanSchema(recipeItemSchema, planOptions),
+        onUsage: usage.record
+      }, parsed => validateMealPlan(parsed, { ...planOptions, maxCalories }));
+
+      if (!cachedPlan && entries.length === planOptions.days * planOptions.slots.length) {
+        await writeCache('recipes', planCacheKey, entries);
+      }
+      await usage.finish(true);
+
+      entries.sort((a, b) => a.day - b.day || planOptions.slots.indexOf(a.slot) - planOptions.slots.indexOf(b.slot));
+      return new Response(JSON.stringify({ plan: entries, cached: !!cachedPlan, quota: rateLimit.quota }), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+          ...quotaHeaders(rateLimit.quota)
+        }
+      });
+    }
+
     // Extract and format all user preferences
     const appliances = sanitizedPreferences?.appliances?.length > 0 
       ? sanitizedPreferences.appliances.join(", ") 
@@ -229,9 +266,10 @@ serve(async (req) => {
 
     // Format pantry items with explicit units for clear AI understanding
     // e.g., "Potato (5 pcs)", "Chicken (500 g)", "Milk (1 L)"
+    // Sorted so the same pantry always yields the same prompt (and cache key)
     const formattedPantry = sanitizedPantry.map((item: any) => 
       `${item.name} (${item.quantity} ${item.unit || 'pcs'})`
-    ).join(', ');
+    ).sort().join(', ');
 
     const prompt = `
 PANTRY (use EXACT units shown): ${formattedPantry}
@@ -254,34 +292,120 @@ Generate ${recipeCount} UNIQUE ${sanitizedContext?.mealType || 'Dinner'} recipes
 For imagePrompt: Write a SHORT visual description for food photography (e.g., "Golden crispy fried chicken with herbs on white plate"). No adjectives like "delicious" - only visual details.
     `;
 
-    const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        generationConfig: {
-            responseMimeType: "application/json",
-            responseSchema: recipeSchema
+    // The prompt is built only from sanitized inputs, so it doubles as the cache key.
+    // Only full batches are cached; a hit still counts against the daily quota.
+    const recipeCacheKey = await cacheKey('recipes', String(recipeCount), normalizeText(prompt));
+    const cachedRecipes = fresh ? null : await readCache<Record<string, any>[]>('recipes', recipeCacheKey);
+    if (cachedRecipes) usage.cacheHit();
+
+    const request: TextRequest = {
+      task: 'recipes',
+      systemInstruction,
+      prompt,
+      responseSchema: recipeSchema,
+      onUsage: usage.record
+    };
+
+    const rateLimitHeaders = quotaHeaders(rateLimit.quota);
+
+    // Streaming: newline-delimited JSON events, one per valid recipe as soon as the model closes it
+    // {"type":"recipe","recipe":{...}} ... {"type":"done","count":n,"quota":{...}} (or {"type":"error",...})
+    // Invalid recipes are skipped and replaced from one non-streamed re-ask at the end
+    if (stream) {
+      const encoder = new TextEncoder();
+      // The client hanging up cancels the stream; that stops the model too
+      const abort = new AbortController();
+      let cancelled = false;
+      const streamRequest: TextRequest = { ...request, signal: abort.signal };
+      const body = new ReadableStream({
+        async start(controller) {
+          // Enqueueing into a cancelled stream throws, so events are dropped instead
+          const send = (event: Record<string, unknown>) => {
+            if (!cancelled) controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+          };
+          const parser = createArrayItemParser('recipes');
+          const sentTitles = new Set<string>();
+          const sent: unknown[] = [];
+          const rejected: string[] = [];
+          const sendValid = (raw: unknown) => {
+            if (sentTitles.size >= recipeCount) return;
+            const { recipe, error } = validateRecipe(raw);
+            if (!recipe) {
+              rejected.push(error!);
+            } else if (!sentTitles.has(recipe.title.toLowerCase())) {
+              send({ type: 'recipe', recipe });
+              sentTitles.add(recipe.title.toLowerCase());
+              sent.push(recipe);
+            }
+          };
+          let success = false;
+          let errorCode = 'GENERATION_ERROR';
+          try {
+            if (cachedRecipes) {
+              cachedRecipes.forEach(sendValid);
+            } else {
+              for await (const text of provider.streamText(streamRequest)) {
+                if (cancelled) break;
+                parser.push(text).forEach(sendValid);
+              }
+              if (!cancelled && sentTitles.size < recipeCount && rejected.length > 0) {
+                console.warn('Invalid recipes in stream, re-asking:', rejected);
+                const retry = await provider.generateText({ ...streamRequest, prompt: buildReaskPrompt(prompt, rejected) });
+                validateRecipes(JSON.parse(retry)).items.forEach(sendValid);
+              }
+              if (!cancelled && sent.length >= recipeCount) await writeCache('recipes', recipeCacheKey, sent);
+            }
+            send({ type: 'done', count: sentTitles.size, cached: !!cachedRecipes, quota: rateLimit.quota });
+            success = !cancelled && sentTitles.size > 0;
+            errorCode = cancelled ? 'CANCELLED' : 'NO_VALID_RECIPES';
+          } catch (error) {
+            if (cancelled) {
+              errorCode = 'CANCELLED';
+            } else {
+              console.error('Generate Recipes Stream Error:', error);
+              send({ type: 'error', error: 'Failed to generate recipes. Please try again.', code: 'GENERATION_ERROR' });
+            }
+          } finally {
+            // The ledger row is written however the stream ended
+            await usage?.finish(success, errorCode);
+            if (!cancelled) controller.close();
+          }
+        },
+        cancel() {
+          cancelled = true;
+          abort.abort();
         }
-    });
+      });
 
-    const text = result.response.text();
-    const parsed = JSON.parse(text);
-    
-    // Safety: Ensure we only return the requested number of recipes
-    if (parsed.recipes && Array.isArray(parsed.recipes)) {
-      parsed.recipes = parsed.recipes.slice(0, recipeCount);
+      return new Response(body, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/x-ndjson',
+          'Cache-Control': 'no-cache',
+          ...rateLimitHeaders
+        }
+      });
     }
+
+    const recipes = cachedRecipes ?? await generateValidated(provider, request, validateRecipes);
+    if (!cachedRecipes && recipes.length >= recipeCount) {
+      await writeCache('recipes', recipeCacheKey, recipes.slice(0, recipeCount));
+    }
+    await usage.finish(true);
     
-    return new Response(JSON.stringify(parsed), { 
+    // Safety: Ensure we only return the requested number of recipes
+    return new Response(JSON.stringify({ recipes: recipes.slice(0, recipeCount), cached: !!cachedRecipes, quota: rateLimit.quota }), { 
       headers: { 
         ...corsHeaders, 
         'Content-Type': 'application/json',
-        'X-RateLimit-Remaining': rateLimit.remaining.toString(),
-        'X-RateLimit-Reset': (Date.now() + RATE_LIMIT_WINDOW).toString()
+        ...rateLimitHeaders
       } 
     });
 
   } catch (error: any) {
     // Don't expose internal error details
     console.error('Generate Recipes Error:', error);
+    await usage?.finish(false, 'GENERATION_ERROR');
     return new Response(JSON.stringify({ 
       error: 'Failed to generate recipes. Please try again.',
       code: 'GENERATION_ERROR'
@@ -0,0 +1,94 @@
+/**
+ * Planning mode for generate-recipes ({ mode: 'plan' })
+ * One request returns a whole multi-day plan, so ingredients can be shared
+ * across days and whatever expires first is cooked first.
+ */
+
+export const PLAN_SLOTS = ['breakfast', 'lunch', 'dinner'];
+export const MAX_PLAN_DAYS = 7;
+// How far ahead a plan may start (the planner pages through future weeks)
+const MAX_START_DAYS = 365;
+
+export interface PlanOptions {
+  days: number;
+  slots: string[];
+  startsInDays: number; // Day 1 of the plan, counted from today (0 = today)
+}
+
+/**
+ * Clamps the requested plan to 1-7 days and known slots (dinner if none),
+ * starting today or on a later day.
+ */
+export function parsePlanOptions(raw: any): PlanOptions {
+  const days = Math.min(Math.max(1, parseInt(String(raw?.days)) || MAX_PLAN_DAYS), MAX_PLAN_DAYS);
+  const requested = Array.isArray(raw?.meals) ? raw.meals.map((m: unknown) => String(m).toLowerCase()) : [];
+  const slots = PLAN_SLOTS.filter(slot => requested.includes(slot));
+  const startsInDays = Math.min(Math.max(0, parseInt(String(raw?.startsInDays)) || 0), MAX_START_DAYS);
+  return { days, slots: slots.length > 0 ? slots : ['dinner'], startsInDays };
+}
+
+/**
+ * Pantry sorted by expiry, soonest first: "Spinach (200 g, expires on day 3)".
+ * expiresInDays counts from the plan's first day and is worked out on the
+ * device so it follows the user's calendar.
+ */
+function formatPantryByExpiry(pantry: any[]): string {
+  const expiresIn = (item: any) => typeof item.expiresInDays === 'number' ? item.expiresInDays : Infinity;
+  return [...pantry]
+    .sort((a, b) => expiresIn(a) - expiresIn(b) || String(a.name).localeCompare(String(b.name)))
+    .map(item => {
+      const days = expiresIn(item);
+      const expiry = days === Infinity ? '' : days < 0 ? ', expires before day 1' : `, expires on day ${days + 1}`;
+      return `${item.name} (${item.quantity} ${item.unit || 'pcs'}${expiry})`;
+    })
+    .join(', ');
+}
+
+export function buildMealPlanPrompt(pantry: any[], preferences: any, options: PlanOptions): string {
+  const { days, slots, startsInDays } = options;
+  const firstDay = startsInDays === 0 ? 'today' : startsInDays === 1 ? 'tomorrow' : `${startsInDays} days from today`;
+  const maxCalories = preferences?.maxCaloriesPerMeal;
+  const goal = preferences?.nutritionalGoal || 'Balanced';
+  const list = (values: unknown) => Array.isArray(values) && values.length > 0 ? values.join(', ') : 'None';
+
+  return `
+PANTRY (soonest to expire first, use EXACT units shown): ${formatPantryByExpiry(pantry)}
+
+USER: Diet=${preferences?.diet || 'None'}, Allergies=${list(preferences?.allergies)}, Avoid=${list(preferences?.dislikedIngredients)}, Skill=${preferences?.cookingSkill || 'Intermediate'}, Goal=${goal}, MaxCal=${maxCalories || 'No limit'}, Cuisines=${list(preferences?.favoriteCuisines)}
+SERVINGS: ${preferences?.householdSize || 2}
+
+PLAN: ${days} day${days === 1 ? '' : 's'} (day 1 is ${firstDay}), meals: ${slots.join(', ')}. That is ${days * slots.length} recipes.
+
+PLANNING RULES:
+1. Return exactly one recipe for every day from 1 to ${days} and every meal in [${slots.join(', ')}]. No other days or meals.
+2. Schedule ingredients that expire sooner on earlier days. Anything that expires on day ${days} or earlier must be used on or before its expiry day. Don't plan around anything that expires before day 1. Set usesExpiringIngredients on recipes that use up expiring ingredients.
+3. Share ingredients across days: plan meals so an opened ingredient is finished over several days (e.g. half the spinach on day 1, the rest on day 3) and the shopping list stays short.
+${maxCalories ? `4. Every recipe must be at most ${maxCalories} kcal per serving (caloriesApprox).` : '4. Keep portions sensible for each meal.'}
+5. Balance the whole plan for a "${goal}" goal, not just each recipe.
+6. Vary cuisines, cooking methods and main proteins across the plan. Never repeat a dish.
+7. Each recipe must suit its meal (breakfast, lunch or dinner rules above).
+For imagePrompt: Write a SHORT visual description for food photography. No adjectives like "delicious" - only visual details.
+  `;
+}
+
+export function buildMealPlanSchema(recipeItemSchema: Record<string, unknown>, options: PlanOptions): Record<string, unknown> {
+  return {
+    type: "OBJECT",
+    properties: {
+      plan: {
+        type: "ARRAY",
+        minItems: options.days * options.slots.length,
+        maxItems: options.days * options.slots.length,
+        items: {
+          type: "OBJECT",
+          properties: {
+            day: { type: "NUMBER" }, // 1-based, day 1 is the plan's first day
+            slot: { type: "STRING", enum: options.slots },
+            recipe: recipeItemSchema
+          },
+          required: ["day", "slot", "recipe"]
+        }
+      }
+    }
+  };
+}
@@ -1,5 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { sanitizeInput, validateLength, checkRateLimit, getUserId } from "../_shared/security.ts";
+import { sanitizeInput, validateLength } from "../_shared/security.ts";
+import { checkQuota, quotaExceededResponse } from "../_shared/rateLimit.ts";
+import { authenticate, unauthorizedResponse } from "../_shared/auth.ts";
+import { startUsage, type UsageMeter } from "../_shared/usage.ts";
+import { getImageProvider } from "../_shared/ai/index.ts";
+import { cacheKey, normalizeText, readCachedImage, writeCachedImage } from "../_shared/cache.ts";
 
 function getCorsHeaders(origin: string | null): Record<string, string> {
   // Production: Use CORS_ORIGINS env var
@@ -48,19 +53,11 @@ serve(async (req) => {
     return new Response('ok', { headers: corsHeaders });
   }
 
+  let usage: UsageMeter | undefined;
   try {
-    // Rate limiting
-    const userId = getUserId(req);
-    const rateLimit = checkRateLimit(userId, 30); // 30 requests per minute for thumbnails
-    if (!rateLimit.allowed) {
-      return new Response(JSON.stringify({ 
-        error: 'Rate limit exceeded. Please try again in a minute.',
-        code: 'RATE_LIMIT_EXCEEDED'
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': '60' },
-        status: 429,
-      });
-    }
+    // Signed-in users only: every call here is billed
+    const user = await authenticate(req);
+    if (!user) return unauthorizedResponse(corsHeaders);
 
     const { title, description } = await req.json();
     
@@ -82,73 +79,39 @@ serve(async (req) => {
       });
     }
     
-    // ========== RUNWARE IMAGE GENERATION ==========
-    const apiKey = Deno.env.get('RUNWARE_API_KEY');
-    if (!apiKey) throw new Error('RUNWARE_API_KEY is not set');
+    // Rate limiting (per-minute burst + daily quota), only for valid requests;
+    // a failure after this point is refunded by usage.finish
+    const rateLimit = await checkQuota(user, 'generate-thumbnail');
+    if (!rateLimit.allowed) return quotaExceededResponse(rateLimit, corsHeaders);
+    usage = startUsage(user, 'generate-thumbnail');
+
+    // ========== CACHE ==========
+    // Same dish, same picture: keyed on the normalized title and image prompt
+    const imageCacheKey = await cacheKey('thumbnail', normalizeText(sanitizedTitle), normalizeText(sanitizedDescription));
+    const cachedUrl = await readCachedImage(imageCacheKey);
+    if (cachedUrl) {
+      usage.cacheHit();
+      await usage.finish(true);
+      return new Response(JSON.stringify({ url: cachedUrl, cached: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // ========== IMAGE GENERATION ==========
+    const provider = getImageProvider();
 
     // Craft a detailed food photography prompt
     const prompt = `Professional food photography of ${sanitizedTitle}. ${sanitizedDescription}. Vibrant saturated colors, soft natural window lighting, appetizing and fresh looking, modern Instagram aesthetic, high-end presentation, garnished beautifully, 4K quality, food magazine cover shot. Slightly zoomed out to have an aesthetic background`;
 
     const negativePrompt = 'text, watermark, logo, words, letters, low quality, blurry, distorted, oversaturated, artificial looking, plastic, cartoon, illustration, drawing, painting, sketch, anime, 3d render, cgi';
 
-    const response = await fetch('https://api.runware.ai/v1', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify([
-        {
-          taskType: 'imageInference',
-          taskUUID: crypto.randomUUID(),
-          positivePrompt: prompt,
-          negativePrompt: negativePrompt,
-          height: 576,
-          width: 1024,
-          model: 'runware:111@1', // User's preferred model
-          steps: 25,
-          CFGScale: 7.5,
-          numberResults: 1,
-          outputFormat: 'WEBP',
-          includeCost: false,
-        }
-      ]),
-    });
+    const imageBase64 = await provider.generateImage({ prompt, negativePrompt, width: 1024, height: 576, onUsage: usage.record });
+    await usage.finish(true);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Runware API error:', response.status, errorText);
-      throw new Error(`Runware API error: ${response.status}`);
-    }
+    // Hand back the stored copy when the upload works, the raw image otherwise
+    const url = await writeCachedImage(imageCacheKey, imageBase64);
 
-    const data = await response.json();
-    
-    // Runware returns an array of results
-    if (!data.data || !Array.isArray(data.data) || data.data.length === 0) {
-      console.error('Runware response missing data:', JSON.stringify(data));
-      throw new Error('No image data in response');
-    }
-
-    // Find the image inference result
-    const imageResult = data.data.find((item: any) => item.taskType === 'imageInference');
-    
-    if (!imageResult || !imageResult.imageURL) {
-      console.error('No image URL in Runware response:', JSON.stringify(data));
-      throw new Error('No image URL in response');
-    }
-
-    // Fetch the image and convert to base64
-    const imageResponse = await fetch(imageResult.imageURL);
-    if (!imageResponse.ok) {
-      throw new Error('Failed to fetch generated image');
-    }
-    
-    const imageArrayBuffer = await imageResponse.arrayBuffer();
-    const imageBase64 = btoa(
-      new Uint8Array(imageArrayBuffer).reduce((data, byte) => data + String.fromCharCode(byte), '')
-    );
-
-    return new Response(JSON.stringify({ 
+    return new Response(JSON.stringify(url ? { url, cached: false } : { 
       image: imageBase64 
     }), { 
       headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -156,6 +119,7 @@ serve(async (req) => {
 
   } catch (error: any) {
     console.error('Thumbnail Generation Error:', error);
+    await usage?.finish(false, 'GENERATION_ERROR');
     return new Response(JSON.stringify({ 
       error: 'Failed to generate thumbnail. Please try again.',
       code: 'GENERATION_ERROR'
@@ -0,0 +1,15 @@
+-- Realtime sync for pantry and shopping list
+-- updated_at carries the client edit time and drives last-writer-wins merging.
+
+alter table public.pantry_items
+    add column if not exists updated_at timestamptz not null default now();
+
+alter table public.shopping_items
+    add column if not exists updated_at timestamptz not null default now();
+
+-- Full row images so UPDATE/DELETE events include every column
+alter table public.pantry_items replica identity full;
+alter table public.shopping_items replica identity full;
+
+alter publication supabase_realtime add table public.pantry_items;
+alter publication supabase_realtime add table public.shopping_items;
@@ -0,0 +1,307 @@
+-- Shared households
+-- A household owns one pantry and one shopping list. Every user belongs to
+-- exactly one household (a personal one is created on first use). Recipes,
+-- history and preferences stay per-user.
+
+create extension if not exists pgcrypto with schema extensions;
+
+-- 10 characters from a 32-letter alphabet (50 bits) drawn from a CSPRNG.
+-- 256 is a multiple of 32, so every letter is equally likely. No 0/O or 1/I.
+create or replace function public.generate_invite_code()
+returns text
+language plpgsql volatile set search_path = public, extensions
+as $$
+declare
+    alphabet constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    bytes bytea := gen_random_bytes(10);
+    code text := '';
+begin
+    for i in 0..9 loop
+        code := code || substr(alphabet, get_byte(bytes, i) % 32 + 1, 1);
+    end loop;
+    return code;
+end;
+$$;
+
+create table if not exists public.households (
+    id uuid primary key default gen_random_uuid(),
+    name text not null default 'My Household',
+    owner_id uuid not null references auth.users (id) on delete cascade,
+    invite_code text not null unique default public.generate_invite_code(),
+    created_at timestamptz not null default now()
+);
+
+create table if not exists public.household_members (
+    household_id uuid not null references public.households (id) on delete cascade,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    email text,
+    role text not null default 'member' check (role in ('owner', 'member')),
+    joined_at timestamptz not null default now(),
+    primary key (household_id, user_id)
+);
+
+-- One household per user
+create unique index if not exists household_members_user_idx on public.household_members (user_id);
+
+create table if not exists public.household_invites (
+    id uuid primary key default gen_random_uuid(),
+    household_id uuid not null references public.households (id) on delete cascade,
+    email text not null,
+    invited_by uuid references auth.users (id) on delete set null,
+    created_at timestamptz not null default now(),
+    unique (household_id, email)
+);
+
+-- Wrong invite codes per user, so codes can't be guessed by brute force
+create table if not exists public.household_join_failures (
+    user_id uuid not null references auth.users (id) on delete cascade,
+    attempted_at timestamptz not null default now()
+);
+create index if not exists household_join_failures_user_idx on public.household_join_failures (user_id, attempted_at);
+
+alter table public.pantry_items add column if not exists household_id uuid references public.households (id) on delete cascade;
+alter table public.shopping_items add column if not exists household_id uuid references public.households (id) on delete cascade;
+create index if not exists pantry_items_household_idx on public.pantry_items (household_id);
+create index if not exists shopping_items_household_idx on public.shopping_items (household_id);
+
+-- --- HELPERS ---
+
+create or replace function public.my_household_id()
+returns uuid
+language sql stable security definer set search_path = public
+as $$
+    select household_id from household_members where user_id = auth.uid();
+$$;
+
+-- Creates a personal household for a user and returns its id
+create or replace function public.create_personal_household(p_user_id uuid, p_email text)
+returns uuid
+language plpgsql security definer set search_path = public
+as $$
+declare
+    new_id uuid;
+begin
+    insert into households (owner_id) values (p_user_id) returning id into new_id;
+    insert into household_members (household_id, user_id, email, role) values (new_id, p_user_id, p_email, 'owner');
+    return new_id;
+end;
+$$;
+
+-- Backfill: every existing user gets a personal household holding their rows
+do $$
+declare
+    u record;
+    hid uuid;
+begin
+    for u in
+        select distinct owners.user_id, users.email
+        from (
+            select user_id from public.pantry_items
+            union select user_id from public.shopping_items
+            union select user_id from public.user_preferences
+        ) owners
+        join auth.users users on users.id = owners.user_id
+        where not exists (select 1 from public.household_members m where m.user_id = owners.user_id)
+    loop
+        hid := public.create_personal_household(u.user_id, u.email);
+        update public.pantry_items set household_id = hid where user_id = u.user_id and household_id is null;
+        update public.shopping_items set household_id = hid where user_id = u.user_id and household_id is null;
+    end loop;
+end;
+$$;
+
+-- Leaves the caller's current household. Personal households left empty are
+-- deleted after their pantry and shopping list are moved to p_target.
+create or replace function public.detach_from_household(p_target uuid)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+declare
+    old_id uuid := my_household_id();
+    member_count int;
+begin
+    if old_id is null or old_id = p_target then
+        return;
+    end if;
+
+    select count(*) into member_count from household_members where household_id = old_id;
+
+    if member_count > 1 and exists (select 1 from households where id = old_id and owner_id = auth.uid()) then
+        raise exception 'Transfer ownership before leaving your household' using errcode = 'P0001';
+    end if;
+
+    delete from household_members where household_id = old_id and user_id = auth.uid();
+
+    if member_count = 1 then
+        if p_target is not null then
+            update pantry_items set household_id = p_target where household_id = old_id;
+            update shopping_items set household_id = p_target where household_id = old_id;
+        end if;
+        delete from households where id = old_id;
+    end if;
+end;
+$$;
+
+-- --- RPCs ---
+
+create or replace function public.ensure_household()
+returns uuid
+language plpgsql security definer set search_path = public
+as $$
+declare
+    hid uuid := my_household_id();
+begin
+    if auth.uid() is null then
+        raise exception 'Not authenticated';
+    end if;
+    if hid is null then
+        hid := create_personal_household(auth.uid(), auth.jwt() ->> 'email');
+        -- Rows written before households existed
+        update pantry_items set household_id = hid where user_id = auth.uid() and household_id is null;
+        update shopping_items set household_id = hid where user_id = auth.uid() and household_id is null;
+    end if;
+    return hid;
+end;
+$$;
+
+-- Returns null for a wrong code (raising would roll back the recorded failure).
+-- Five wrong codes within 15 minutes lock joining by code until they age out.
+create or replace function public.join_household(p_invite_code text)
+returns uuid
+language plpgsql security definer set search_path = public
+as $$
+declare
+    target uuid;
+begin
+    if auth.uid() is null then
+        raise exception 'Not authenticated';
+    end if;
+    if (select count(*) from household_join_failures
+        where user_id = auth.uid() and attempted_at > now() - interval '15 minutes') >= 5 then
+        raise exception 'Too many wrong invite codes. Try again in a few minutes.' using errcode = 'P0003';
+    end if;
+
+    select id into target from households where invite_code = upper(trim(p_invite_code));
+    if target is null then
+        insert into household_join_failures (user_id) values (auth.uid());
+        delete from household_join_failures where attempted_at < now() - interval '1 day';
+        return null;
+    end if;
+
+    perform detach_from_household(target);
+    insert into household_members (household_id, user_id, email, role)
+    values (target, auth.uid(), auth.jwt() ->> 'email', 'member')
+    on conflict do nothing;
+    return target;
+end;
+$$;
+
+create or replace function public.accept_household_invite(p_invite_id uuid)
+returns uuid
+language plpgsql security definer set search_path = public
+as $$
+declare
+    target uuid;
+begin
+    select household_id into target from household_invites
+    where id = p_invite_id and lower(email) = lower(auth.jwt() ->> 'email');
+    if target is null then
+        raise exception 'Invite not found' using errcode = 'P0002';
+    end if;
+
+    perform detach_from_household(target);
+    insert into household_members (household_id, user_id, email, role)
+    values (target, auth.uid(), auth.jwt() ->> 'email', 'member')
+    on conflict do nothing;
+    delete from household_invites where id = p_invite_id;
+    return target;
+end;
+$$;
+
+-- Leave and start over with an empty personal household
+create or replace function public.leave_household()
+returns uuid
+language plpgsql security definer set search_path = public
+as $$
+declare
+    old_id uuid := my_household_id();
+begin
+    if (select count(*) from household_members where household_id = old_id) <= 1 then
+        raise exception 'You are the only member of this household' using errcode = 'P0001';
+    end if;
+    perform detach_from_household(null);
+    return create_personal_household(auth.uid(), auth.jwt() ->> 'email');
+end;
+$$;
+
+create or replace function public.transfer_household_ownership(p_new_owner uuid)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+declare
+    hid uuid := my_household_id();
+begin
+    if not exists (select 1 from households where id = hid and owner_id = auth.uid()) then
+        raise exception 'Only the owner can transfer ownership' using errcode = 'P0001';
+    end if;
+    if not exists (select 1 from household_members where household_id = hid and user_id = p_new_owner) then
+        raise exception 'New owner must be a member of the household' using errcode = 'P0001';
+    end if;
+
+    update households set owner_id = p_new_owner where id = hid;
+    update household_members set role = 'member' where household_id = hid and user_id = auth.uid();
+    update household_members set role = 'owner' where household_id = hid and user_id = p_new_owner;
+end;
+$$;
+
+-- Owners may change the name and nothing else
+create or replace function public.rename_household(p_name text)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+declare
+    hid uuid := my_household_id();
+begin
+    if not exists (select 1 from households where id = hid and owner_id = auth.uid()) then
+        raise exception 'Only the owner can rename the household' using errcode = 'P0001';
+    end if;
+    if length(trim(coalesce(p_name, ''))) = 0 or length(trim(p_name)) > 60 then
+        raise exception 'Household name must be 1 to 60 characters' using errcode = 'P0001';
+    end if;
+    update households set name = trim(p_name) where id = hid;
+end;
+$$;
+
+revoke execute on function public.create_personal_household(uuid, text) from public, anon, authenticated;
+revoke execute on function public.detach_from_household(uuid) from public, anon, authenticated;
+
+-- --- ROW LEVEL SECURITY ---
+
+alter table public.households enable row level security;
+alter table public.household_members enable row level security;
+alter table public.household_invites enable row level security;
+-- Only touched by join_household (security definer); no direct access
+alter table public.household_join_failures enable row level security;
+
+-- No update policy: renames go through rename_household so owner_id and
+-- invite_code can't be rewritten from the client
+create policy "Members can view their household" on public.households
+    for select using (id = public.my_household_id());
+
+create policy "Members can view fellow members" on public.household_members
+    for select using (household_id = public.my_household_id());
+
+create policy "Members and invitees can view invites" on public.household_invites
+    for select using (household_id = public.my_household_id() or lower(email) = lower(auth.jwt() ->> 'email'));
+create policy "Owner can invite" on public.household_invites
+    for insert with check (household_id = public.my_household_id()
+        and exists (select 1 from public.households h where h.id = household_id and h.owner_id = auth.uid()));
+create policy "Owner or invitee can delete invite" on public.household_invites
+    for delete using (lower(email) = lower(auth.jwt() ->> 'email')
+        or exists (select 1 from public.households h where h.id = household_id and h.owner_id = auth.uid()));
+
+-- Pantry and shopping list are shared by everyone in the household
+create policy "Household members manage pantry" on public.pantry_items
+    for all using (household_id = public.my_household_id()) with check (household_id = public.my_household_id());
+create policy "Household members manage shopping list" on public.shopping_items
+    for all using (household_id = public.my_household_id()) with check (household_id = public.my_household_id());
@@ -0,0 +1,56 @@
+-- Structured quantities
+-- pantry_items.measure and each recipe ingredient's "measure" hold { val, unit }
+-- next to the free-text quantity/amount, so deductions don't re-parse strings.
+
+alter table public.pantry_items add column if not exists measure jsonb;
+
+-- { val, unit } for a plain decimal followed by nothing or a known unit
+-- ("2", "1.5 kg", "200 grams"). Anything else ("1/2 cup", "1 1/2 cups",
+-- "1 (400g) can", "2 cloves", "to taste") gets null and is read by the
+-- client's parseQuantity, which knows the full grammar.
+create function pg_temp.plain_measure(p_text text)
+returns jsonb
+language sql immutable
+as $$
+    select case when known.unit is null then null
+                else jsonb_build_object('val', parsed.m[1]::numeric, 'unit', known.unit) end
+    from (select regexp_match(lower(trim(p_text)), '^(\d+(?:\.\d+)?)\s*([a-z]*)\.?$') as m) parsed
+    cross join lateral (
+        select case
+            when parsed.m is null then null
+            when parsed.m[2] = '' then 'pcs'
+            when parsed.m[2] in ('g', 'gram', 'grams', 'gms') then 'g'
+            when parsed.m[2] in ('kg', 'kilo', 'kilogram', 'kilograms') then 'kg'
+            when parsed.m[2] in ('ml', 'milliliter', 'milliliters') then 'ml'
+            when parsed.m[2] in ('l', 'liter', 'liters') then 'l'
+            when parsed.m[2] in ('lb', 'lbs', 'pound', 'pounds') then 'lb'
+            when parsed.m[2] in ('oz', 'ounce', 'ounces') then 'oz'
+            when parsed.m[2] in ('cup', 'cups') then 'cups'
+            when parsed.m[2] in ('tbsp', 'tablespoon', 'tablespoons') then 'tbsp'
+            when parsed.m[2] in ('tsp', 'teaspoon', 'teaspoons') then 'tsp'
+            when parsed.m[2] in ('pcs', 'pc', 'piece', 'pieces', 'whole') then 'pcs'
+            else null
+        end as unit
+    ) known
+$$;
+
+-- Backfill pantry rows ("2" + "kg"); "1 1/2" or "½" stay null
+update public.pantry_items
+set measure = pg_temp.plain_measure(quantity || ' ' || coalesce(unit, ''))
+where measure is null
+  and pg_temp.plain_measure(quantity || ' ' || coalesce(unit, '')) is not null;
+
+-- Backfill ingredients stored inside recipes.data ("200 g", "1.5 cups")
+update public.recipes r
+set data = jsonb_set(r.data, '{ingredients}', (
+    select jsonb_agg(
+        case
+            when ing ? 'measure' or pg_temp.plain_measure(ing ->> 'amount') is null then ing
+            else ing || jsonb_build_object('measure', pg_temp.plain_measure(ing ->> 'amount'))
+        end
+        order by ord
+    )
+    from jsonb_array_elements(r.data -> 'ingredients') with ordinality as t(ing, ord)
+))
+where jsonb_typeof(r.data -> 'ingredients') = 'array'
+  and jsonb_array_length(r.data -> 'ingredients') > 0;
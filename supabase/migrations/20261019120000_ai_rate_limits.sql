@@ -0,0 +1,107 @@
+-- Persistent rate limits for the AI edge functions
+-- One counter row per caller, endpoint and window ('minute' burst, 'day' quota),
+-- reset in place when its window rolls over. Shared by every function instance
+-- and kept across cold starts. Only the service role touches these.
+
+create table if not exists public.ai_rate_limits (
+    subject text not null, -- 'user:<jwt sub>' or 'ip:<address>' for anonymous callers
+    endpoint text not null,
+    window_kind text not null check (window_kind in ('minute', 'day')),
+    window_start timestamptz not null,
+    count integer not null default 0,
+    primary key (subject, endpoint, window_kind)
+);
+
+alter table public.ai_rate_limits enable row level security;
+
+-- Counts one request if both limits allow it. Daily windows follow UTC days.
+create or replace function public.consume_ai_quota(
+    p_subject text,
+    p_endpoint text,
+    p_minute_limit integer,
+    p_daily_limit integer -- null: no daily cap, only the burst limit applies
+)
+returns table (allowed boolean, reason text, daily_used integer, daily_reset_at timestamptz)
+language plpgsql security definer set search_path = public
+as $$
+declare
+    minute_start timestamptz := date_trunc('minute', now());
+    day_start timestamptz := date_trunc('day', now() at time zone 'utc') at time zone 'utc';
+    minute_count integer;
+    day_count integer;
+begin
+    -- Creates or rolls over both counters and locks them, so concurrent requests queue up
+    insert into ai_rate_limits as l (subject, endpoint, window_kind, window_start, count)
+    values (p_subject, p_endpoint, 'minute', minute_start, 0), (p_subject, p_endpoint, 'day', day_start, 0)
+    on conflict (subject, endpoint, window_kind) do update
+        set window_start = excluded.window_start, count = 0
+        where l.window_start < excluded.window_start;
+
+    select l.count into minute_count from ai_rate_limits l
+    where l.subject = p_subject and l.endpoint = p_endpoint and l.window_kind = 'minute' for update;
+    select l.count into day_count from ai_rate_limits l
+    where l.subject = p_subject and l.endpoint = p_endpoint and l.window_kind = 'day' for update;
+
+    if minute_count >= p_minute_limit then
+        return query select false, 'minute'::text, day_count, day_start + interval '1 day';
+        return;
+    end if;
+    if p_daily_limit is not null and day_count >= p_daily_limit then
+        return query select false, 'day'::text, day_count, day_start + interval '1 day';
+        return;
+    end if;
+
+    update ai_rate_limits l set count = l.count + 1
+    where l.subject = p_subject and l.endpoint = p_endpoint;
+
+    return query select true, null::text, day_count + 1, day_start + interval '1 day';
+end;
+$$;
+
+-- Gives back one unit of today's quota when the request it paid for failed
+create or replace function public.refund_ai_quota(p_subject text, p_endpoint text)
+returns void
+language sql security definer set search_path = public
+as $$
+    update ai_rate_limits set count = greatest(count - 1, 0)
+    where subject = p_subject and endpoint = p_endpoint and window_kind = 'day'
+      and window_start = date_trunc('day', now() at time zone 'utc') at time zone 'utc';
+$$;
+
+revoke all on function public.consume_ai_quota(text, text, integer, integer) from public, anon, authenticated;
+grant execute on function public.consume_ai_quota(text, text, integer, integer) to service_role;
+revoke all on function public.refund_ai_quota(text, text) from public, anon, authenticated;
+grant execute on function public.refund_ai_quota(text, text) to service_role;
+
+-- Plans: the edge functions read the caller's plan from app_metadata.plan,
+-- which users can't edit (user_preferences.isPro is client-writable and only
+-- mirrors it for the UI). Pro is granted or revoked through this function.
+create or replace function public.set_user_plan(p_user_id uuid, p_plan text)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+    if p_plan not in ('free', 'pro') then
+        raise exception 'Unknown plan %', p_plan using errcode = '22023';
+    end if;
+
+    update auth.users
+    set raw_app_meta_data = coalesce(raw_app_meta_data, '{}'::jsonb) || jsonb_build_object('plan', p_plan)
+    where id = p_user_id;
+
+    update user_preferences
+    set data = coalesce(data, '{}'::jsonb) || jsonb_build_object('isPro', p_plan = 'pro')
+    where user_id = p_user_id;
+end;
+$$;
+
+revoke all on function public.set_user_plan(uuid, text) from public, anon, authenticated;
+grant execute on function public.set_user_plan(uuid, text) to service_role;
+
+-- Carry over Pro accounts granted before plans moved to app_metadata
+update auth.users u
+set raw_app_meta_data = coalesce(u.raw_app_meta_data, '{}'::jsonb) || '{"plan": "pro"}'::jsonb
+from public.user_preferences p
+where p.user_id = u.id
+  and p.data -> 'isPro' = 'true'::jsonb
+  and u.raw_app_meta_data ->> 'plan' is null;
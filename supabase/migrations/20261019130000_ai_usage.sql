@@ -0,0 +1,57 @@
+-- AI usage ledger
+-- One row per edge function call that reached a model: which model, how many
+-- tokens and images it used, how long it took and whether it worked. Written
+-- by the edge functions with the service role; users can read their own rows.
+
+create table if not exists public.ai_usage (
+    id bigint generated always as identity primary key,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    endpoint text not null,
+    plan text not null default 'free',
+    provider text,
+    model text,
+    model_calls integer not null default 0, -- More than 1 when invalid output was re-asked
+    input_tokens integer not null default 0,
+    output_tokens integer not null default 0,
+    images integer not null default 0,
+    latency_ms integer not null,
+    success boolean not null,
+    error_code text,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists ai_usage_user_created_idx on public.ai_usage (user_id, created_at desc);
+
+alter table public.ai_usage enable row level security;
+
+drop policy if exists "Users read their own AI usage" on public.ai_usage;
+create policy "Users read their own AI usage" on public.ai_usage
+    for select using (user_id = auth.uid());
+
+-- Per-endpoint totals for the signed-in user for one calendar month (UTC)
+create or replace function public.my_ai_usage_summary(p_month date default current_date)
+returns table (
+    endpoint text,
+    calls bigint,
+    failures bigint,
+    input_tokens bigint,
+    output_tokens bigint,
+    images bigint,
+    avg_latency_ms integer
+)
+language sql stable security definer set search_path = public
+as $$
+    select
+        u.endpoint,
+        count(*),
+        count(*) filter (where not u.success),
+        coalesce(sum(u.input_tokens), 0),
+        coalesce(sum(u.output_tokens), 0),
+        coalesce(sum(u.images), 0),
+        coalesce(avg(u.latency_ms), 0)::integer
+    from ai_usage u
+    where u.user_id = auth.uid()
+      and u.created_at >= date_trunc('month', p_month::timestamp) at time zone 'utc'
+      and u.created_at < (date_trunc('month', p_month::timestamp) + interval '1 month') at time zone 'utc'
+    group by u.endpoint;
+$$;
@@ -0,0 +1,19 @@
+-- Shared cache of AI output
+-- Keyed on a hash of the normalized request, so identical requests from any
+-- user reuse one answer until it expires. Thumbnail entries point at images in
+-- the recipe-images bucket (cache/<key>.webp). Only the service role touches these.
+
+create table if not exists public.ai_cache (
+    key text primary key, -- SHA-256 hex of kind + version + normalized inputs
+    kind text not null check (kind in ('recipes', 'thumbnail')),
+    payload jsonb not null,
+    created_at timestamptz not null default now(),
+    expires_at timestamptz not null
+);
+
+create index if not exists ai_cache_expires_idx on public.ai_cache (expires_at);
+
+alter table public.ai_cache enable row level security;
+
+-- Cache hits are still metered, without tokens
+alter table public.ai_usage add column if not exists cached boolean not null default false;
@@ -0,0 +1,20 @@
+-- Meal planner
+-- One recipe per user, day and meal. The recipe is stored as a snapshot (like
+-- recipes.data) so a plan keeps working after the recipe drops out of history.
+
+create table if not exists public.meal_plans (
+    id text primary key,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    plan_date date not null, -- The user's local day
+    slot text not null check (slot in ('breakfast', 'lunch', 'dinner')),
+    recipe jsonb not null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    unique (user_id, plan_date, slot)
+);
+
+alter table public.meal_plans enable row level security;
+
+drop policy if exists "Users manage their own meal plan" on public.meal_plans;
+create policy "Users manage their own meal plan" on public.meal_plans
+    for all using (user_id = auth.uid()) with check (user_id = auth.uid());
@@ -0,0 +1,8 @@
+-- Shopping list entries carry an amount, a category and the recipes that
+-- need them, so a list built from several recipes can show "500 g, for Curry
+-- and Dal". All columns are optional; plain typed entries leave them null.
+
+alter table public.shopping_items add column if not exists quantity numeric;
+alter table public.shopping_items add column if not exists unit text;
+alter table public.shopping_items add column if not exists category text;
+alter table public.shopping_items add column if not exists source_recipes jsonb; -- [{ "id": ..., "title": ... }]
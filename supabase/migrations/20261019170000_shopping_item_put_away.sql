@@ -0,0 +1,4 @@
+-- Bought items that were also stored in the pantry, so the bulk
+-- "put away" sheet only offers the ones still sitting in the bag.
+
+alter table public.shopping_items add column if not exists put_away boolean not null default false;
@@ -32,6 +32,20 @@ export const PANTRY_CATEGORIES = [
   "General"
 ];
 
+// Category emoji mapping
+export const CATEGORY_ICONS: Record<string, string> = {
+  'Produce': '🥬',
+  'Meat': '🥩',
+  'Dairy': '🧀',
+  'Bakery': '🥐',
+  'Frozen': '🧊',
+  'Grains': '🌾',
+  'Beverages': '🥤',
+  'Snacks': '🍿',
+  'Spices': '🧂',
+  'General': '📦',
+};
+
 export interface UserPreferences {
   diet: Diet;
   allergies: string[];
@@ -46,6 +60,26 @@ export interface UserPreferences {
   isPro: boolean; 
   hasCompletedOnboarding: boolean;
   theme: 'light' | 'dark' | 'system';
+  storeLayouts: StoreLayout[];
+  activeStoreId?: string; // Layout the shopping list is sorted by (default order if unset)
+}
+
+// The order someone walks a store's aisles, as PANTRY_CATEGORIES entries
+export interface StoreLayout {
+  id: string;
+  name: string;
+  aisleOrder: string[];
+}
+
+// Structured amount, e.g. { val: 200, unit: 'g' }
+export interface Quantity {
+  val: number; // Midpoint for ranges
+  unit: string;
+  min?: number; // Ranges like "2-3 cloves"
+  max?: number;
+  approximate?: boolean; // "about 200 g", "a pinch"
+  unmeasurable?: boolean; // "to taste", "a handful" (val is only a placeholder)
+  pieces?: number; // Package count for "1 (400g) can"
 }
 
 export interface PantryItem {
@@ -53,14 +87,28 @@ export interface PantryItem {
   name: string;
   quantity: string;
   unit?: string;
+  measure?: Quantity; // Structured form of quantity + unit
   category: string;
   expiryDate?: string;
   addedAt: number;
+  updatedAt?: number; // Last edit time (ms), used for last-writer-wins sync
+}
+
+// Pantry item as read from a photo, receipt or voice input, before it is added
+export type ScannedPantryItem = Pick<PantryItem, 'name' | 'quantity' | 'category' | 'expiryDate'> & {
+  unit: string;
+  price?: number; // Line total, receipts only
+};
+
+// Soft-deleted pantry row kept for 30 days ("Recently removed", restock suggestions)
+export interface RemovedPantryItem extends PantryItem {
+  removedAt: number;
 }
 
 export interface Ingredient {
   name: string;
-  amount: string;
+  amount: string; // Display text, e.g. "2 tbsp"
+  measure?: Quantity; // Structured form of amount
   isAvailableInPantry: boolean;
 }
 
@@ -91,8 +139,76 @@ export interface Recipe {
   lastCooked?: string; // ISO Date String
 }
 
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner';
+
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner'];
+
+// A recipe assigned to one meal of one day in the planner
+export interface PlannedMeal {
+  id: string;
+  date: string; // Local day, yyyy-MM-dd
+  slot: MealSlot;
+  recipe: Recipe; // Snapshot, so the plan survives the recipe leaving history
+  updatedAt?: number;
+}
+
+// Daily AI allowance reported by the edge functions
+export interface AiQuota {
+  plan: 'free' | 'pro';
+  limit: number | null; // null when the plan has no daily cap
+  remaining: number | null;
+  resetAt: string; // ISO time the quota resets (midnight UTC)
+}
+
+// One AI feature's totals for a month (from the ai_usage ledger)
+export interface AiUsageEntry {
+  endpoint: 'generate-recipes' | 'parse-pantry' | 'ask-step' | 'generate-thumbnail';
+  calls: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  avgLatencyMs: number;
+}
+
+// Recipe a shopping list entry was added for
+export interface ShoppingItemSource {
+  id: string;
+  title: string;
+}
+
 export interface ShoppingItem {
   id: string;
   name: string;
   checked: boolean;
+  quantity?: number; // Total needed, in unit; absent for "to taste" entries
+  unit?: string;
+  category?: string; // One of PANTRY_CATEGORIES
+  sourceRecipes?: ShoppingItemSource[];
+  putAway?: boolean; // Ticked off and stored in the pantry (not just marked bought)
+  updatedAt?: number;
+}
+
+export type HouseholdRole = 'owner' | 'member';
+
+export interface HouseholdMember {
+  userId: string;
+  email?: string;
+  role: HouseholdRole;
+  joinedAt: string; // ISO Date String
+}
+
+export interface Household {
+  id: string;
+  name: string;
+  inviteCode: string;
+  ownerId: string;
+  members: HouseholdMember[];
+}
+
+export interface HouseholdInvite {
+  id: string;
+  householdId: string;
+  email: string;
+  createdAt: string;
 }
@@ -0,0 +1,8 @@
+import { configDefaults, defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Edge functions run on Deno and have their own tests (deno test)
+    exclude: [...configDefaults.exclude, 'supabase/functions/**'],
+  },
+});